@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '../../../../auth'
+import { isAdminEmail } from '../../../../lib/admin'
+import { collectStorageGarbage, MIN_GC_GRACE_PERIOD_HOURS } from '../../../../lib/storageGc'
+import { StorageError } from '../../../../lib/storage'
+import type { APIError, APISuccess } from '../../../../types/tldraw'
+
+// POST /api/admin/storage-gc - Report unused storage objects, and delete them unless dryRun
+// Body: { dryRun?: boolean (default true), gracePeriodHours?: number }
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' } as APIError,
+        { status: 401 }
+      )
+    }
+
+    if (!isAdminEmail(session.user.email)) {
+      return NextResponse.json(
+        { error: 'Admin access required', code: 'PERMISSION_DENIED' } as APIError,
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { dryRun = true, gracePeriodHours } = body as { dryRun?: unknown, gracePeriodHours?: unknown }
+
+    if (typeof dryRun !== 'boolean') {
+      return NextResponse.json(
+        { error: 'dryRun must be a boolean', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    if (gracePeriodHours !== undefined && (typeof gracePeriodHours !== 'number' || !(gracePeriodHours >= MIN_GC_GRACE_PERIOD_HOURS))) {
+      return NextResponse.json(
+        { error: `Grace period must be at least ${MIN_GC_GRACE_PERIOD_HOURS} hour(s)`, code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const report = await collectStorageGarbage({ dryRun, gracePeriodHours })
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+      message: dryRun
+        ? `Found ${report.objects.length} unused object(s) and ${report.assets.length} unused asset record(s)`
+        : `Deleted ${report.deletedObjects} object(s) and ${report.deletedAssets} asset record(s)`
+    } as APISuccess)
+
+  } catch (error) {
+    console.error('Error collecting storage garbage:', error)
+
+    if (error instanceof StorageError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code } as APIError,
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' } as APIError,
+      { status: 500 }
+    )
+  }
+}
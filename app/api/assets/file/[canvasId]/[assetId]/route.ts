@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '../../../../../../auth'
+import {
+  getAssetByAssetId,
+  getAssetDownloadUrl,
+  AssetError
+} from '../../../../../../lib/assets'
+import { getLinkGuestId } from '../../../../../../lib/shareAccess'
+import type { APIError } from '../../../../../../types/tldraw'
+
+// Presigned URLs expire quickly; browsers cache the redirect a bit less than that
+// The redirect is never shared, since who may follow it depends on the session
+const DOWNLOAD_URL_EXPIRY = 300 // 5 minutes
+const REDIRECT_CACHE_CONTROL = 'private, max-age=240'
+
+// GET /api/assets/file/[canvasId]/[assetId] - Redirect to an asset's file for users who can view the canvas
+// ?w=<width> asks for a resized variant at least that wide, falling back to the original
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ canvasId: string, assetId: string }> }
+) {
+  try {
+    const { canvasId, assetId } = await params
+
+    // Public canvases, and canvases opened through a VIEW share link, can be viewed without signing in
+    const session = await auth()
+    const userId = session?.user?.id ?? getLinkGuestId(request.cookies, canvasId) ?? 'anonymous'
+
+    const asset = await getAssetByAssetId(userId, canvasId, assetId)
+    if (!asset) {
+      return NextResponse.json(
+        { error: 'Asset not found', code: 'NOT_FOUND' } as APIError,
+        { status: 404 }
+      )
+    }
+
+    const width = Number(request.nextUrl.searchParams.get('w'))
+
+    const downloadUrl = await getAssetDownloadUrl(userId, asset.id, {
+      expiresIn: DOWNLOAD_URL_EXPIRY,
+      width: Number.isInteger(width) && width > 0 ? width : undefined
+    })
+
+    const response = NextResponse.redirect(downloadUrl, 302)
+    response.headers.set('Cache-Control', REDIRECT_CACHE_CONTROL)
+    return response
+
+  } catch (error) {
+    console.error('Error serving asset file:', error)
+
+    if (error instanceof AssetError) {
+      const status = error.code === 'NOT_FOUND' ? 404 :
+                    error.code === 'PERMISSION_DENIED' ? 403 : 400
+      return NextResponse.json(
+        { error: error.message, code: error.code } as APIError,
+        { status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' } as APIError,
+      { status: 500 }
+    )
+  }
+}
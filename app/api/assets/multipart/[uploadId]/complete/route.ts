@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '../../../../../../auth'
+import { AssetError } from '../../../../../../lib/assets'
+import { completeMultipartUpload } from '../../../../../../lib/multipart'
+import type { APIError, APISuccess, MultipartUploadPart } from '../../../../../../types/tldraw'
+
+// POST /api/assets/multipart/[uploadId]/complete - Join the uploaded parts into the final file
+export async function POST(request: NextRequest, { params }: { params: Promise<{ uploadId: string }> }) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const { uploadId } = await params
+    const { canvasId, uploadHandle, parts } = await request.json()
+
+    // Validation
+    if (!canvasId || typeof canvasId !== 'string' || !uploadHandle || typeof uploadHandle !== 'string') {
+      return NextResponse.json(
+        { error: 'Canvas ID and upload handle are required', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const validParts = Array.isArray(parts) &&
+      parts.length > 0 &&
+      parts.every((part: MultipartUploadPart) =>
+        Number.isInteger(part?.partNumber) && typeof part?.etag === 'string' && part.etag.length > 0)
+    if (!validParts) {
+      return NextResponse.json(
+        { error: 'Uploaded parts with their ETags are required', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const upload = await completeMultipartUpload(session.user.id, canvasId, uploadHandle, uploadId, parts)
+
+    return NextResponse.json({
+      success: true,
+      data: upload,
+      message: 'Multipart upload completed'
+    } as APISuccess)
+
+  } catch (error) {
+    console.error('Error completing multipart upload:', error)
+
+    if (error instanceof AssetError) {
+      const status = error.code === 'PERMISSION_DENIED' ? 403 :
+                    error.code === 'NOT_FOUND' ? 404 :
+                    error.code === 'FILE_TOO_LARGE' || error.code === 'QUOTA_EXCEEDED' ? 413 : 400
+      return NextResponse.json(
+        { error: error.message, code: error.code } as APIError,
+        { status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' } as APIError,
+      { status: 500 }
+    )
+  }
+}
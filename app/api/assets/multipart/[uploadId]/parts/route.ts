@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '../../../../../../auth'
+import { AssetError } from '../../../../../../lib/assets'
+import { presignUploadParts } from '../../../../../../lib/multipart'
+import type { APIError, APISuccess } from '../../../../../../types/tldraw'
+
+// Limit how many URLs one request can mint
+const MAX_PARTS_PER_REQUEST = 100
+
+// POST /api/assets/multipart/[uploadId]/parts - Presign upload URLs for parts
+export async function POST(request: NextRequest, { params }: { params: Promise<{ uploadId: string }> }) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const { uploadId } = await params
+    const { canvasId, uploadHandle, partNumbers } = await request.json()
+
+    // Validation
+    if (!canvasId || typeof canvasId !== 'string' || !uploadHandle || typeof uploadHandle !== 'string') {
+      return NextResponse.json(
+        { error: 'Canvas ID and upload handle are required', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const validParts = Array.isArray(partNumbers) &&
+      partNumbers.length > 0 &&
+      partNumbers.length <= MAX_PARTS_PER_REQUEST &&
+      partNumbers.every((part) => Number.isInteger(part) && part >= 1 && part <= 10000)
+    if (!validParts) {
+      return NextResponse.json(
+        { error: `Between 1 and ${MAX_PARTS_PER_REQUEST} part numbers (1-10000) are required`, code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const parts = await presignUploadParts(session.user.id, canvasId, uploadHandle, uploadId, partNumbers)
+
+    return NextResponse.json({
+      success: true,
+      data: parts
+    } as APISuccess)
+
+  } catch (error) {
+    console.error('Error presigning upload parts:', error)
+
+    if (error instanceof AssetError) {
+      const status = error.code === 'PERMISSION_DENIED' ? 403 : 400
+      return NextResponse.json(
+        { error: error.message, code: error.code } as APIError,
+        { status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' } as APIError,
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '../../../../../auth'
+import { AssetError } from '../../../../../lib/assets'
+import { abortMultipartUpload, listUploadedParts } from '../../../../../lib/multipart'
+import type { APIError, APISuccess } from '../../../../../types/tldraw'
+
+function errorResponse(error: unknown) {
+  if (error instanceof AssetError) {
+    const status = error.code === 'PERMISSION_DENIED' ? 403 :
+                  error.code === 'NOT_FOUND' ? 404 : 400
+    return NextResponse.json(
+      { error: error.message, code: error.code } as APIError,
+      { status }
+    )
+  }
+
+  return NextResponse.json(
+    { error: 'Internal server error' } as APIError,
+    { status: 500 }
+  )
+}
+
+// GET /api/assets/multipart/[uploadId]?canvasId=...&uploadHandle=... - List the parts uploaded so far
+export async function GET(request: NextRequest, { params }: { params: Promise<{ uploadId: string }> }) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const { uploadId } = await params
+    const canvasId = request.nextUrl.searchParams.get('canvasId')
+    const uploadHandle = request.nextUrl.searchParams.get('uploadHandle')
+    if (!canvasId || !uploadHandle) {
+      return NextResponse.json(
+        { error: 'Canvas ID and upload handle are required', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const parts = await listUploadedParts(session.user.id, canvasId, uploadHandle, uploadId)
+
+    return NextResponse.json({
+      success: true,
+      data: parts
+    } as APISuccess)
+
+  } catch (error) {
+    console.error('Error listing uploaded parts:', error)
+    return errorResponse(error)
+  }
+}
+
+// DELETE /api/assets/multipart/[uploadId]?canvasId=...&uploadHandle=... - Abort an unfinished upload
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ uploadId: string }> }) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const { uploadId } = await params
+    const canvasId = request.nextUrl.searchParams.get('canvasId')
+    const uploadHandle = request.nextUrl.searchParams.get('uploadHandle')
+    if (!canvasId || !uploadHandle) {
+      return NextResponse.json(
+        { error: 'Canvas ID and upload handle are required', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    await abortMultipartUpload(session.user.id, canvasId, uploadHandle, uploadId)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Multipart upload aborted'
+    } as APISuccess)
+
+  } catch (error) {
+    console.error('Error aborting multipart upload:', error)
+    return errorResponse(error)
+  }
+}
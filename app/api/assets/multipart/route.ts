@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '../../../../auth'
+import { AssetError, isValidSha256 } from '../../../../lib/assets'
+import { initiateMultipartUpload } from '../../../../lib/multipart'
+import type { APIError, APISuccess } from '../../../../types/tldraw'
+
+// POST /api/assets/multipart - Start a multipart upload for a large file
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const { canvasId, fileName, fileType, fileSize, sha256 } = await request.json()
+
+    // Validation
+    if (!canvasId || typeof canvasId !== 'string') {
+      return NextResponse.json(
+        { error: 'Canvas ID is required', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    if (!fileName || typeof fileName !== 'string') {
+      return NextResponse.json(
+        { error: 'File name is required', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    if (!fileType || typeof fileType !== 'string') {
+      return NextResponse.json(
+        { error: 'File type is required', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    if (!fileSize || typeof fileSize !== 'number' || fileSize <= 0) {
+      return NextResponse.json(
+        { error: 'Valid file size is required', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    if (sha256 !== undefined && (typeof sha256 !== 'string' || !isValidSha256(sha256))) {
+      return NextResponse.json(
+        { error: 'SHA-256 must be a hex string', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const upload = await initiateMultipartUpload(session.user.id, canvasId, {
+      fileName,
+      fileType,
+      fileSize,
+      sha256
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: upload,
+      message: 'Multipart upload started'
+    } as APISuccess, { status: 201 })
+
+  } catch (error) {
+    console.error('Error starting multipart upload:', error)
+
+    if (error instanceof AssetError) {
+      const status = error.code === 'PERMISSION_DENIED' ? 403 :
+                    error.code === 'FILE_TOO_LARGE' || error.code === 'QUOTA_EXCEEDED' ? 413 :
+                    error.code === 'CONFIG_ERROR' ? 500 : 400
+      return NextResponse.json(
+        { error: error.message, code: error.code } as APIError,
+        { status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' } as APIError,
+      { status: 500 }
+    )
+  }
+}
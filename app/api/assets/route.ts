@@ -1,7 +1,9 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextRequest, NextResponse, after } from 'next/server'
 import { auth } from '../../../auth'
 import { 
   createAssetRecord,
+  createAssetVariants,
+  isValidSha256,
   AssetError 
 } from '../../../lib/assets'
 import type { APIError, APISuccess, CreateAssetRequest } from '../../../types/tldraw'
@@ -18,7 +20,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body: CreateAssetRequest = await request.json()
-    const { canvasId, assetId, r2Key, publicUrl, fileName, fileType, fileSize } = body
+    const { canvasId, assetId, uploadHandle, fileName, fileType, fileSize, width, height, duration, sha256 } = body
 
     // Validation
     if (!canvasId || typeof canvasId !== 'string') {
@@ -35,16 +37,9 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    if (!r2Key || typeof r2Key !== 'string') {
+    if (!uploadHandle || typeof uploadHandle !== 'string') {
       return NextResponse.json(
-        { error: 'R2 key is required', code: 'VALIDATION_ERROR' } as APIError,
-        { status: 400 }
-      )
-    }
-
-    if (!publicUrl || typeof publicUrl !== 'string') {
-      return NextResponse.json(
-        { error: 'Public URL is required', code: 'VALIDATION_ERROR' } as APIError,
+        { error: 'Upload handle is required', code: 'VALIDATION_ERROR' } as APIError,
         { status: 400 }
       )
     }
@@ -70,8 +65,31 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Media details are optional, but must be positive numbers when present
+    const invalidMedia = [width, height, duration].some(
+      (value) => value !== undefined && (typeof value !== 'number' || !(value > 0))
+    )
+    if (invalidMedia) {
+      return NextResponse.json(
+        { error: 'Width, height and duration must be positive numbers', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    if (sha256 !== undefined && (typeof sha256 !== 'string' || !isValidSha256(sha256))) {
+      return NextResponse.json(
+        { error: 'SHA-256 must be a hex string', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
     const asset = await createAssetRecord(session.user.id, body)
 
+    // Resized copies are made after responding so the upload isn't held up
+    if (!asset.variants) {
+      after(() => createAssetVariants(asset.id))
+    }
+
     return NextResponse.json({
       success: true,
       data: asset,
@@ -82,7 +100,8 @@ export async function POST(request: NextRequest) {
     console.error('Error creating asset record:', error)
     
     if (error instanceof AssetError) {
-      const status = error.code === 'PERMISSION_DENIED' ? 403 : 400
+      const status = error.code === 'PERMISSION_DENIED' ? 403 :
+                    error.code === 'CONTENT_MISMATCH' || error.code === 'QUARANTINED' ? 422 : 400
       return NextResponse.json(
         { error: error.message, code: error.code } as APIError,
         { status }
@@ -2,15 +2,25 @@ import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '../../../../auth'
 import { 
   requestAssetUpload,
+  isValidSha256,
   AssetError 
 } from '../../../../lib/assets'
 import type { APIError, APISuccess, UploadRequest } from '../../../../types/tldraw'
 
 // POST /api/assets/upload - Request presigned upload URL
+// Local canvases keep their files in the browser, so every upload needs an account
 export async function POST(request: NextRequest) {
   try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' } as APIError,
+        { status: 401 }
+      )
+    }
+
     const body = await request.json()
-    const { canvasId, fileName, fileType, fileSize } = body
+    const { canvasId, fileName, fileType, fileSize, sha256 } = body
 
     // Validation
     if (!canvasId || typeof canvasId !== 'string') {
@@ -41,27 +51,22 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Only require auth for non-local canvases
-    let userId: string | undefined = undefined
-    if (canvasId !== 'local' && canvasId !== 'anonymous') {
-      const session = await auth()
-      if (!session?.user?.id) {
-        return NextResponse.json(
-          { error: 'Unauthorized' } as APIError,
-          { status: 401 }
-        )
-      }
-      userId = session.user.id
+    if (sha256 !== undefined && (typeof sha256 !== 'string' || !isValidSha256(sha256))) {
+      return NextResponse.json(
+        { error: 'SHA-256 must be a hex string', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
     }
 
     const uploadRequest: UploadRequest = {
       fileName,
       fileType,
-      fileSize
+      fileSize,
+      sha256
     }
 
     const uploadResponse = await requestAssetUpload(
-      userId || 'anonymous',
+      session.user.id,
       canvasId,
       uploadRequest
     )
@@ -78,7 +83,7 @@ export async function POST(request: NextRequest) {
     if (error instanceof AssetError) {
       const status = error.code === 'PERMISSION_DENIED' ? 403 :
                     error.code === 'INVALID_FILE_TYPE' ? 400 :
-                    error.code === 'FILE_TOO_LARGE' ? 413 :
+                    error.code === 'FILE_TOO_LARGE' || error.code === 'QUOTA_EXCEEDED' ? 413 :
                     error.code === 'CONFIG_ERROR' ? 500 : 400
       return NextResponse.json(
         { error: error.message, code: error.code } as APIError,
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '../../../../../auth'
+import { CanvasError } from '../../../../../lib/canvas'
+import { createCanvasBackup } from '../../../../../lib/backup'
+import type { APIError } from '../../../../../types/tldraw'
+
+// GET /api/canvas/[id]/backup - Download a zip with the document, metadata, shares and assets
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const { id: canvasId } = await params
+    if (!canvasId) {
+      return NextResponse.json(
+        { error: 'Canvas ID is required', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const backup = await createCanvasBackup(session.user.id, canvasId)
+
+    return new NextResponse(backup.data, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${backup.fileName}"`,
+        'Cache-Control': 'private, no-store'
+      }
+    })
+
+  } catch (error) {
+    console.error('Error creating canvas backup:', error)
+
+    if (error instanceof CanvasError) {
+      const status = error.code === 'NOT_FOUND' ? 404 :
+                    error.code === 'PERMISSION_DENIED' ? 403 : 400
+      return NextResponse.json(
+        { error: error.message, code: error.code } as APIError,
+        { status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' } as APIError,
+      { status: 500 }
+    )
+  }
+}
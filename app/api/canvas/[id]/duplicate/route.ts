@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '../../../../../auth'
+import { duplicateCanvas, CanvasError } from '../../../../../lib/canvas'
+import type { APIError, APISuccess } from '../../../../../types/tldraw'
+
+// POST /api/canvas/[id]/duplicate - Copy a canvas the user can view into their own canvases ({ name? })
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const { id: canvasId } = await params
+    if (!canvasId) {
+      return NextResponse.json(
+        { error: 'Canvas ID is required', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const name = typeof body.name === 'string' ? body.name.trim() : undefined
+
+    const canvas = await duplicateCanvas(session.user.id, canvasId, name)
+
+    return NextResponse.json({
+      success: true,
+      data: canvas,
+      message: 'Canvas duplicated successfully'
+    } as APISuccess, { status: 201 })
+
+  } catch (error) {
+    console.error('Error duplicating canvas:', error)
+
+    if (error instanceof CanvasError) {
+      const status = error.code === 'NOT_FOUND' ? 404 :
+                    error.code === 'PERMISSION_DENIED' ? 403 :
+                    error.code === 'QUOTA_EXCEEDED' ? 413 : 400
+      return NextResponse.json(
+        { error: error.message, code: error.code } as APIError,
+        { status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' } as APIError,
+      { status: 500 }
+    )
+  }
+}
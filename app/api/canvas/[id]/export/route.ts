@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '../../../../../auth'
+import { CanvasError } from '../../../../../lib/canvas'
+import {
+  exportCanvas,
+  EXPORT_FORMATS,
+  ExportFormat
+} from '../../../../../lib/export'
+import type { APIError } from '../../../../../types/tldraw'
+
+// GET /api/canvas/[id]/export?format=svg|png|json|tldr&page=&ids=&frame= - Download a canvas export
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const { id: canvasId } = await params
+    if (!canvasId) {
+      return NextResponse.json(
+        { error: 'Canvas ID is required', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const format = (searchParams.get('format') || 'svg') as ExportFormat
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `Format must be one of: ${EXPORT_FORMATS.join(', ')}`, code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const ids = searchParams.get('ids')
+    const file = await exportCanvas(session.user.id, canvasId, {
+      format,
+      pageId: searchParams.get('page') || undefined,
+      shapeIds: ids ? ids.split(',').filter(Boolean) : undefined,
+      frameId: searchParams.get('frame') || undefined,
+      background: searchParams.get('background') !== 'false'
+    })
+
+    return new NextResponse(file.body, {
+      status: 200,
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.fileName}"`,
+        'Cache-Control': 'private, no-store'
+      }
+    })
+
+  } catch (error) {
+    console.error('Error exporting canvas:', error)
+
+    if (error instanceof CanvasError) {
+      const status = error.code === 'NOT_FOUND' ? 404 :
+                    error.code === 'PERMISSION_DENIED' ? 403 : 400
+      return NextResponse.json(
+        { error: error.message, code: error.code } as APIError,
+        { status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' } as APIError,
+      { status: 500 }
+    )
+  }
+}
@@ -3,22 +3,23 @@ import { auth } from '../../../../auth'
 import { 
   loadCanvas, 
   saveCanvas, 
+  applyCanvasDiff,
   deleteCanvas,
   CanvasError 
 } from '../../../../lib/canvas'
-import type { APIError, APISuccess, SaveCanvasRequest } from '../../../../types/tldraw'
+import { getLinkGuestId } from '../../../../lib/shareAccess'
+import type { APIError, APISuccess, SaveCanvasRequest, PatchCanvasRequest } from '../../../../types/tldraw'
+
+// Parse a canvas version out of an If-Match header (e.g. `"12"` or `W/"12"`)
+function parseIfMatch(header: string | null): number | undefined {
+  if (!header) return undefined
+  const match = header.trim().match(/^(?:W\/)?"?(\d+)"?$/)
+  return match ? parseInt(match[1]) : NaN
+}
 
 // GET /api/canvas/[id] - Load canvas
 export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
-    const session = await auth()
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: 'Unauthorized' } as APIError,
-        { status: 401 }
-      )
-    }
-
     const { id: canvasId } = await params
     if (!canvasId) {
       return NextResponse.json(
@@ -27,13 +28,26 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
       )
     }
 
-    const canvas = await loadCanvas(session.user.id, canvasId)
+    // Visitors who opened a VIEW share link can load the canvas without signing in
+    const session = await auth()
+    const userId = session?.user?.id ?? getLinkGuestId(request.cookies, canvasId)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const canvas = await loadCanvas(userId, canvasId)
 
     return NextResponse.json({
       success: true,
       data: canvas,
       message: 'Canvas loaded successfully'
-    } as APISuccess, { status: 200 })
+    } as APISuccess, {
+      status: 200,
+      headers: { ETag: `"${canvas.metadata.version}"` }
+    })
 
   } catch (error) {
     console.error('Error loading canvas:', error)
@@ -54,7 +68,7 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
   }
 }
 
-// PUT /api/canvas/[id] - Save canvas
+// PUT /api/canvas/[id] - Save canvas (baseVersion or If-Match is required)
 export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
     const session = await auth()
@@ -83,29 +97,135 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
       )
     }
 
+    // The version the client loaded, from the body or an If-Match header
+    // Saves that don't say what they are based on could silently overwrite newer changes
+    const baseVersion = body.baseVersion ?? parseIfMatch(request.headers.get('If-Match'))
+    if (baseVersion === undefined) {
+      return NextResponse.json(
+        { error: 'A base version (baseVersion or If-Match) is required', code: 'PRECONDITION_REQUIRED' } as APIError,
+        { status: 428 }
+      )
+    }
+    if (!Number.isInteger(baseVersion) || baseVersion < 1) {
+      return NextResponse.json(
+        { error: 'Invalid base version', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
     const canvas = await saveCanvas(
       session.user.id, 
       canvasId, 
       body.document,
       body.session,
       body.name,
-      body.description
+      body.description,
+      baseVersion
     )
 
     return NextResponse.json({
       success: true,
       data: canvas,
       message: 'Canvas saved successfully'
-    } as APISuccess, { status: 200 })
+    } as APISuccess, {
+      status: 200,
+      headers: { ETag: `"${canvas.version}"` }
+    })
 
   } catch (error) {
     console.error('Error saving canvas:', error)
     
     if (error instanceof CanvasError) {
       const status = error.code === 'NOT_FOUND' ? 404 : 
-                    error.code === 'PERMISSION_DENIED' ? 403 : 400
+                    error.code === 'PERMISSION_DENIED' ? 403 :
+                    error.code === 'CONFLICT' ? 409 : 400
       return NextResponse.json(
-        { error: error.message, code: error.code } as APIError,
+        { error: error.message, code: error.code, currentVersion: error.currentVersion } as APIError,
+        { status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' } as APIError,
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/canvas/[id] - Save record-level changes against a base version
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const { id: canvasId } = await params
+    if (!canvasId) {
+      return NextResponse.json(
+        { error: 'Canvas ID is required', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json() as PatchCanvasRequest
+    const baseVersion = body.baseVersion ?? parseIfMatch(request.headers.get('If-Match'))
+
+    // Validate required fields
+    if (baseVersion === undefined || !Number.isInteger(baseVersion) || baseVersion < 1) {
+      return NextResponse.json(
+        { error: 'A valid base version is required', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const { changes, schema } = body
+    const isRecordMap = (value: unknown) =>
+      !!value && typeof value === 'object' && !Array.isArray(value)
+    if (!changes || !isRecordMap(changes.added) || !isRecordMap(changes.updated) || !isRecordMap(changes.removed)) {
+      return NextResponse.json(
+        { error: 'Changes must contain added, updated and removed records', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    if (!isRecordMap(schema)) {
+      return NextResponse.json(
+        { error: 'Schema is required', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const canvas = await applyCanvasDiff(
+      session.user.id,
+      canvasId,
+      changes,
+      baseVersion,
+      schema
+    )
+
+    return NextResponse.json({
+      success: true,
+      data: canvas,
+      message: 'Canvas changes saved successfully'
+    } as APISuccess, {
+      status: 200,
+      headers: { ETag: `"${canvas.version}"` }
+    })
+
+  } catch (error) {
+    console.error('Error saving canvas changes:', error)
+    
+    if (error instanceof CanvasError) {
+      const status = error.code === 'NOT_FOUND' ? 404 : 
+                    error.code === 'PERMISSION_DENIED' ? 403 :
+                    error.code === 'CONFLICT' ? 409 :
+                    error.code === 'SCHEMA_MISMATCH' || error.code === 'INVALID_RECORD' ? 422 : 400
+      return NextResponse.json(
+        { error: error.message, code: error.code, currentVersion: error.currentVersion } as APIError,
         { status }
       )
     }
@@ -1,14 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '../../../../../auth'
 import { 
-  shareCanvas, 
   removeCanvasShare,
-  getCanvasShares,
-  CanvasError 
+  getCanvasSharing,
+  setCanvasPublic,
+  createLinkShare,
+  revokeLinkShare,
+  CanvasError,
+  PASSCODE_MIN_LENGTH
 } from '../../../../../lib/canvas'
+import { shareCanvasByEmail, removeCanvasInvitation } from '../../../../../lib/invitations'
 import type { APIError, APISuccess, PermissionLevel } from '../../../../../types/tldraw'
 
-// POST /api/canvas/[id]/share - Share canvas with user
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// POST /api/canvas/[id]/share - Share canvas by email (invites people without an account), or create a share link ({ type: 'link' })
 export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
     const session = await auth()
@@ -28,11 +34,63 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
     }
 
     const body = await request.json()
-    const { targetUserId, permissionLevel } = body
+    const { email, permissionLevel } = body
+
+    if (body.type === 'link') {
+      const { expiresAt, passcode, maxUses } = body
+
+      if (!['VIEW', 'EDIT'].includes(permissionLevel)) {
+        return NextResponse.json(
+          { error: 'Share links can grant VIEW or EDIT access', code: 'VALIDATION_ERROR' } as APIError,
+          { status: 400 }
+        )
+      }
+
+      if (expiresAt !== undefined && !(new Date(expiresAt).getTime() > Date.now())) {
+        return NextResponse.json(
+          { error: 'Expiry must be a date in the future', code: 'VALIDATION_ERROR' } as APIError,
+          { status: 400 }
+        )
+      }
+
+      if (passcode !== undefined && (typeof passcode !== 'string' || passcode.length < PASSCODE_MIN_LENGTH)) {
+        return NextResponse.json(
+          { error: `Passcode must be at least ${PASSCODE_MIN_LENGTH} characters`, code: 'VALIDATION_ERROR' } as APIError,
+          { status: 400 }
+        )
+      }
+
+      if (maxUses !== undefined && !(Number.isInteger(maxUses) && maxUses > 0)) {
+        return NextResponse.json(
+          { error: 'Maximum uses must be a positive integer', code: 'VALIDATION_ERROR' } as APIError,
+          { status: 400 }
+        )
+      }
+
+      const link = await createLinkShare(session.user.id, canvasId, {
+        permissionLevel,
+        expiresAt,
+        passcode,
+        maxUses
+      })
+
+      return NextResponse.json({
+        success: true,
+        data: link,
+        message: 'Share link created successfully'
+      } as APISuccess, { status: 201 })
+    }
 
-    if (!targetUserId || !permissionLevel) {
+    if (!email || !permissionLevel) {
       return NextResponse.json(
-        { error: 'Target user ID and permission level are required', code: 'VALIDATION_ERROR' } as APIError,
+        { error: 'Email and permission level are required', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+      return NextResponse.json(
+        { error: 'Invalid email address', code: 'VALIDATION_ERROR' } as APIError,
         { status: 400 }
       )
     }
@@ -44,12 +102,12 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
       )
     }
 
-    const share = await shareCanvas(session.user.id, canvasId, targetUserId, permissionLevel)
+    const share = await shareCanvasByEmail(session.user.id, canvasId, email, permissionLevel)
 
     return NextResponse.json({
       success: true,
       data: share,
-      message: 'Canvas shared successfully'
+      message: share.pending ? 'Invitation sent' : 'Canvas shared successfully'
     } as APISuccess, { status: 201 })
 
   } catch (error) {
@@ -71,7 +129,7 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
   }
 }
 
-// DELETE /api/canvas/[id]/share - Remove canvas share
+// DELETE /api/canvas/[id]/share?userId=... - Remove canvas share (?email=... withdraws an invitation, ?linkId=... revokes a share link)
 export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
     const session = await auth()
@@ -92,10 +150,30 @@ export async function DELETE(request: NextRequest, { params }: { params: Promise
 
     const { searchParams } = new URL(request.url)
     const targetUserId = searchParams.get('userId')
+    const linkId = searchParams.get('linkId')
+    const email = searchParams.get('email')
+
+    if (linkId) {
+      await revokeLinkShare(session.user.id, canvasId, linkId)
+
+      return NextResponse.json({
+        success: true,
+        message: 'Share link revoked successfully'
+      } as APISuccess, { status: 200 })
+    }
+
+    if (email) {
+      await removeCanvasInvitation(session.user.id, canvasId, email)
+
+      return NextResponse.json({
+        success: true,
+        message: 'Invitation removed successfully'
+      } as APISuccess, { status: 200 })
+    }
 
     if (!targetUserId) {
       return NextResponse.json(
-        { error: 'User ID is required', code: 'VALIDATION_ERROR' } as APIError,
+        { error: 'User ID, email or link ID is required', code: 'VALIDATION_ERROR' } as APIError,
         { status: 400 }
       )
     }
@@ -126,7 +204,7 @@ export async function DELETE(request: NextRequest, { params }: { params: Promise
   }
 }
 
-// GET /api/canvas/[id]/share - Get canvas shares
+// GET /api/canvas/[id]/share - Get the owner, visibility, shares and share links
 export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
     const session = await auth()
@@ -145,11 +223,11 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
       )
     }
 
-    const shares = await getCanvasShares(session.user.id, canvasId)
+    const sharing = await getCanvasSharing(session.user.id, canvasId)
 
     return NextResponse.json({
       success: true,
-      data: shares,
+      data: sharing,
       message: 'Canvas shares retrieved successfully'
     } as APISuccess, { status: 200 })
 
@@ -170,4 +248,58 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
       { status: 500 }
     )
   }
-} 
\ No newline at end of file
+}
+
+// PATCH /api/canvas/[id]/share - Make the canvas public or private ({ isPublic })
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const { id: canvasId } = await params
+    if (!canvasId) {
+      return NextResponse.json(
+        { error: 'Canvas ID is required', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const { isPublic } = await request.json()
+    if (typeof isPublic !== 'boolean') {
+      return NextResponse.json(
+        { error: 'isPublic must be true or false', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    await setCanvasPublic(session.user.id, canvasId, isPublic)
+
+    return NextResponse.json({
+      success: true,
+      data: { isPublic },
+      message: isPublic ? 'Canvas is now public' : 'Canvas is now private'
+    } as APISuccess, { status: 200 })
+
+  } catch (error) {
+    console.error('Error updating canvas visibility:', error)
+    
+    if (error instanceof CanvasError) {
+      const status = error.code === 'NOT_FOUND' ? 404 : 
+                    error.code === 'PERMISSION_DENIED' ? 403 : 400
+      return NextResponse.json(
+        { error: error.message, code: error.code } as APIError,
+        { status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' } as APIError,
+      { status: 500 }
+    )
+  }
+}
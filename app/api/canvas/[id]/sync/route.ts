@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '../../../../../auth'
+import { getCanvasPermission } from '../../../../../lib/canvas'
+import { createSyncToken } from '../../../../../lib/syncToken'
+import { getCollaboratorInfo, getGuestCollaboratorInfo } from '../../../../../lib/syncBackend'
+import { getLinkGuestId, isLinkGuest } from '../../../../../lib/shareAccess'
+import type { APIError, APISuccess, SyncConnectionResponse } from '../../../../../types/tldraw'
+
+// GET /api/canvas/[id]/sync - Issue a short-lived websocket URI for the sync server
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: canvasId } = await params
+    if (!canvasId) {
+      return NextResponse.json(
+        { error: 'Canvas ID is required', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    // Visitors who opened a VIEW share link can watch without signing in
+    const session = await auth()
+    const userId = session?.user?.id ?? getLinkGuestId(request.cookies, canvasId)
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const syncUrl = process.env.NEXT_PUBLIC_SYNC_URL
+    if (!syncUrl) {
+      return NextResponse.json(
+        { error: 'Sync server not configured', code: 'CONFIG_ERROR' } as APIError,
+        { status: 503 }
+      )
+    }
+
+    const permission = await getCanvasPermission(userId, canvasId)
+    if (!permission) {
+      return NextResponse.json(
+        { error: 'Canvas not found or access denied', code: 'NOT_FOUND' } as APIError,
+        { status: 404 }
+      )
+    }
+
+    const user = isLinkGuest(userId) ? getGuestCollaboratorInfo() : await getCollaboratorInfo(userId)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found', code: 'NOT_FOUND' } as APIError,
+        { status: 404 }
+      )
+    }
+
+    const token = createSyncToken({ userId, canvasId, permission })
+    const uri = `${syncUrl.replace(/\/$/, '')}/sync/${encodeURIComponent(canvasId)}?token=${encodeURIComponent(token)}`
+
+    return NextResponse.json({
+      success: true,
+      data: { uri, permission, user } as SyncConnectionResponse,
+      message: 'Sync token issued successfully'
+    } as APISuccess, { status: 200 })
+
+  } catch (error) {
+    console.error('Error issuing sync token:', error)
+
+    return NextResponse.json(
+      { error: 'Internal server error' } as APIError,
+      { status: 500 }
+    )
+  }
+}
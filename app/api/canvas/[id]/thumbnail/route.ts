@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '../../../../../auth'
+import { CanvasError } from '../../../../../lib/canvas'
+import {
+  saveCanvasThumbnail,
+  clearCanvasThumbnail,
+  getCanvasThumbnailDownloadUrl
+} from '../../../../../lib/thumbnails'
+import { getLinkGuestId } from '../../../../../lib/shareAccess'
+import type { APIError, APISuccess } from '../../../../../types/tldraw'
+
+// Same policy as asset files: short-lived presigned URLs behind a redirect only this browser caches
+const PRIVATE_URL_EXPIRY = 300 // 5 minutes
+const REDIRECT_CACHE_CONTROL = 'private, max-age=240'
+
+// GET /api/canvas/[id]/thumbnail - Redirect to the canvas preview for users who can view the canvas
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: canvasId } = await params
+
+    // Public canvases, and canvases opened through a VIEW share link, can be viewed without signing in
+    const session = await auth()
+    const userId = session?.user?.id ?? getLinkGuestId(request.cookies, canvasId) ?? 'anonymous'
+
+    const downloadUrl = await getCanvasThumbnailDownloadUrl(userId, canvasId, PRIVATE_URL_EXPIRY)
+
+    const response = NextResponse.redirect(downloadUrl, 302)
+    response.headers.set('Cache-Control', REDIRECT_CACHE_CONTROL)
+    return response
+
+  } catch (error) {
+    console.error('Error serving canvas thumbnail:', error)
+
+    if (error instanceof CanvasError) {
+      const status = error.code === 'NOT_FOUND' ? 404 : 400
+      return NextResponse.json(
+        { error: error.message, code: error.code } as APIError,
+        { status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' } as APIError,
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/canvas/[id]/thumbnail - Upload a rendered preview of the canvas (multipart form)
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const { id: canvasId } = await params
+    if (!canvasId) {
+      return NextResponse.json(
+        { error: 'Canvas ID is required', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const formData = await request.formData()
+    const thumbnail = formData.get('thumbnail')
+    const version = formData.get('version')
+
+    // Validation
+    if (!(thumbnail instanceof Blob) || thumbnail.size === 0) {
+      return NextResponse.json(
+        { error: 'Thumbnail image is required', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    let versionNumber: number | undefined = undefined
+    if (version !== null) {
+      versionNumber = parseInt(version.toString())
+      if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+        return NextResponse.json(
+          { error: 'Invalid version number', code: 'VALIDATION_ERROR' } as APIError,
+          { status: 400 }
+        )
+      }
+    }
+
+    const result = await saveCanvasThumbnail(
+      session.user.id,
+      canvasId,
+      Buffer.from(await thumbnail.arrayBuffer()),
+      thumbnail.type,
+      versionNumber
+    )
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: result.updated ? 'Thumbnail updated successfully' : 'Thumbnail already up to date'
+    } as APISuccess, { status: 200 })
+
+  } catch (error) {
+    console.error('Error saving canvas thumbnail:', error)
+
+    if (error instanceof CanvasError) {
+      const status = error.code === 'NOT_FOUND' ? 404 :
+                    error.code === 'PERMISSION_DENIED' ? 403 :
+                    error.code === 'FILE_TOO_LARGE' ? 413 : 400
+      return NextResponse.json(
+        { error: error.message, code: error.code } as APIError,
+        { status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' } as APIError,
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/canvas/[id]/thumbnail - Remove the preview of an empty canvas
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const { id: canvasId } = await params
+    if (!canvasId) {
+      return NextResponse.json(
+        { error: 'Canvas ID is required', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    await clearCanvasThumbnail(session.user.id, canvasId)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Thumbnail removed successfully'
+    } as APISuccess, { status: 200 })
+
+  } catch (error) {
+    console.error('Error clearing canvas thumbnail:', error)
+
+    if (error instanceof CanvasError) {
+      const status = error.code === 'NOT_FOUND' ? 404 :
+                    error.code === 'PERMISSION_DENIED' ? 403 : 400
+      return NextResponse.json(
+        { error: error.message, code: error.code } as APIError,
+        { status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' } as APIError,
+      { status: 500 }
+    )
+  }
+}
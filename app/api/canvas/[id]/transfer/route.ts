@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '../../../../../auth'
+import { transferCanvasOwnership, CanvasError } from '../../../../../lib/canvas'
+import type { APIError, APISuccess } from '../../../../../types/tldraw'
+
+// POST /api/canvas/[id]/transfer - Make another user ({ email }) the owner; the caller becomes an ADMIN
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const { id: canvasId } = await params
+    if (!canvasId) {
+      return NextResponse.json(
+        { error: 'Canvas ID is required', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const { email } = await request.json()
+    if (!email || typeof email !== 'string') {
+      return NextResponse.json(
+        { error: 'Email of the new owner is required', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const canvas = await transferCanvasOwnership(session.user.id, canvasId, email)
+
+    return NextResponse.json({
+      success: true,
+      data: canvas,
+      message: 'Canvas ownership transferred successfully'
+    } as APISuccess, { status: 200 })
+
+  } catch (error) {
+    console.error('Error transferring canvas ownership:', error)
+
+    if (error instanceof CanvasError) {
+      const status = error.code === 'NOT_FOUND' ? 404 :
+                    error.code === 'PERMISSION_DENIED' ? 403 :
+                    error.code === 'QUOTA_EXCEEDED' ? 413 : 400
+      return NextResponse.json(
+        { error: error.message, code: error.code } as APIError,
+        { status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' } as APIError,
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '../../../../../../../auth'
+import { 
+  restoreCanvasVersion,
+  CanvasError 
+} from '../../../../../../../lib/canvas'
+import type { APIError, APISuccess } from '../../../../../../../types/tldraw'
+
+// POST /api/canvas/[id]/versions/[version]/restore - Restore a saved version as the new head
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string, version: string }> }) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const { id: canvasId, version } = await params
+    if (!canvasId) {
+      return NextResponse.json(
+        { error: 'Canvas ID is required', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const versionNumber = parseInt(version)
+    if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+      return NextResponse.json(
+        { error: 'Invalid version number', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    const canvas = await restoreCanvasVersion(session.user.id, canvasId, versionNumber)
+
+    return NextResponse.json({
+      success: true,
+      data: canvas,
+      message: `Canvas restored from version ${versionNumber}`
+    } as APISuccess, { status: 200 })
+
+  } catch (error) {
+    console.error('Error restoring canvas version:', error)
+    
+    if (error instanceof CanvasError) {
+      const status = error.code === 'NOT_FOUND' ? 404 : 
+                    error.code === 'PERMISSION_DENIED' ? 403 : 400
+      return NextResponse.json(
+        { error: error.message, code: error.code } as APIError,
+        { status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' } as APIError,
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { auth } from '../../../../auth'
+import { CanvasError } from '../../../../lib/canvas'
+import { importCanvas, IMPORT_MAX_SIZE } from '../../../../lib/import'
+import { createMissingVariants } from '../../../../lib/assets'
+import type { APIError, APISuccess } from '../../../../types/tldraw'
+
+// POST /api/canvas/import - Create a canvas from a .tldr file or snapshot (multipart form)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    const name = formData.get('name')
+
+    // Validation
+    if (!(file instanceof File) || file.size === 0) {
+      return NextResponse.json(
+        { error: 'A .tldr or JSON file is required', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    if (file.size > IMPORT_MAX_SIZE) {
+      return NextResponse.json(
+        { error: 'File size exceeds 50MB limit', code: 'FILE_TOO_LARGE' } as APIError,
+        { status: 413 }
+      )
+    }
+
+    // Default to the file name without its extension
+    const canvasName = (typeof name === 'string' && name.trim()) ||
+      file.name.replace(/\.(tldr|json)$/i, '') ||
+      'Imported canvas'
+
+    const canvas = await importCanvas(
+      session.user.id,
+      canvasName.slice(0, 255),
+      await file.text(),
+      `Imported from ${file.name}`
+    )
+
+    // Resized copies of the imported images are made after responding
+    after(() => createMissingVariants(canvas.id))
+
+    return NextResponse.json({
+      success: true,
+      data: canvas,
+      message: 'Canvas imported successfully'
+    } as APISuccess, { status: 201 })
+
+  } catch (error) {
+    console.error('Error importing canvas:', error)
+
+    if (error instanceof CanvasError) {
+      const status = error.code === 'PERMISSION_DENIED' ? 403 :
+                    error.code === 'FILE_TOO_LARGE' || error.code === 'QUOTA_EXCEEDED' ? 413 :
+                    error.code === 'INVALID_FILE' || error.code === 'CONTENT_MISMATCH' ||
+                    error.code === 'QUARANTINED' ? 422 : 400
+      return NextResponse.json(
+        { error: error.message, code: error.code } as APIError,
+        { status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' } as APIError,
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { auth } from '../../../../auth'
+import { CanvasError } from '../../../../lib/canvas'
+import { restoreCanvasBackup, BACKUP_MAX_SIZE } from '../../../../lib/backup'
+import { createMissingVariants } from '../../../../lib/assets'
+import type { APIError, APISuccess } from '../../../../types/tldraw'
+
+// POST /api/canvas/restore - Recreate a canvas from a backup zip (multipart form)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    // Validation
+    if (!(file instanceof Blob) || file.size === 0) {
+      return NextResponse.json(
+        { error: 'Backup file is required', code: 'VALIDATION_ERROR' } as APIError,
+        { status: 400 }
+      )
+    }
+
+    if (file.size > BACKUP_MAX_SIZE) {
+      return NextResponse.json(
+        { error: 'Backup exceeds 200MB limit', code: 'FILE_TOO_LARGE' } as APIError,
+        { status: 413 }
+      )
+    }
+
+    const result = await restoreCanvasBackup(
+      session.user.id,
+      Buffer.from(await file.arrayBuffer()),
+      { restoreShares: formData.get('restoreShares') !== 'false' }
+    )
+
+    // Resized copies of the restored images are made after responding
+    after(() => createMissingVariants(result.canvas.id))
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: 'Canvas restored successfully'
+    } as APISuccess, { status: 201 })
+
+  } catch (error) {
+    console.error('Error restoring canvas backup:', error)
+
+    if (error instanceof CanvasError) {
+      const status = error.code === 'PERMISSION_DENIED' ? 403 :
+                    error.code === 'FILE_TOO_LARGE' || error.code === 'QUOTA_EXCEEDED' ? 413 :
+                    error.code === 'INVALID_BACKUP' || error.code === 'CONTENT_MISMATCH' ||
+                    error.code === 'QUARANTINED' ? 422 : 400
+      return NextResponse.json(
+        { error: error.message, code: error.code } as APIError,
+        { status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' } as APIError,
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { DeleteObjectCommand } from "@aws-sdk/client-s3"
-import { r2Client, R2_BUCKET_NAME, isR2Configured } from '@/lib/r2'
+import { getStorage } from '@/lib/storage'
 import { auth } from "@/auth"
 
 export async function DELETE(request: NextRequest) {
@@ -11,14 +10,6 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    // Check if R2 is properly configured
-    if (!isR2Configured() || !r2Client) {
-      return NextResponse.json({ 
-        error: 'R2 storage not configured', 
-        details: 'Missing environment variables or client initialization failed'
-      }, { status: 500 })
-    }
-
     const { searchParams } = new URL(request.url)
     const key = searchParams.get('key')
     
@@ -31,13 +22,8 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Can only delete test files' }, { status: 403 })
     }
 
-    // Delete from R2
-    const command = new DeleteObjectCommand({
-      Bucket: R2_BUCKET_NAME,
-      Key: key
-    })
-
-    await r2Client.send(command)
+    // Delete from storage
+    await getStorage().delete(key)
 
     return NextResponse.json({
       success: true,
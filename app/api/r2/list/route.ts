@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { ListObjectsV2Command } from "@aws-sdk/client-s3"
-import { r2Client, R2_BUCKET_NAME, isR2Configured } from '@/lib/r2'
+import { getStorage } from '@/lib/storage'
+import { R2_BUCKET_NAME } from '@/lib/r2'
 import { auth } from "@/auth"
 
 export async function GET(request: NextRequest) {
@@ -11,35 +11,23 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    // Check if R2 is properly configured
-    if (!isR2Configured() || !r2Client) {
-      return NextResponse.json({ 
-        error: 'R2 storage not configured', 
-        details: 'Missing environment variables or client initialization failed'
-      }, { status: 500 })
-    }
-
-    // List objects in R2
-    const command = new ListObjectsV2Command({
-      Bucket: R2_BUCKET_NAME,
-      Prefix: 'test-uploads/', // Only list test uploads
-      MaxKeys: 50 // Limit to 50 files for testing
+    // List objects in storage
+    const storage = getStorage()
+    const response = await storage.list('test-uploads/', { // Only list test uploads
+      maxKeys: 50 // Limit to 50 files for testing
     })
 
-    const response = await r2Client.send(command)
-
-    const files = response.Contents?.map(obj => ({
-      key: obj.Key,
-      size: obj.Size,
-      lastModified: obj.LastModified,
-      etag: obj.ETag
-    })) || []
+    const files = response.objects.map(obj => ({
+      key: obj.key,
+      size: obj.size,
+      lastModified: obj.lastModified
+    }))
 
     return NextResponse.json({
       success: true,
       files,
       count: files.length,
-      bucket: R2_BUCKET_NAME
+      bucket: storage.name === 'r2' ? R2_BUCKET_NAME : storage.name
     })
 
   } catch (error) {
@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { PutObjectCommand } from "@aws-sdk/client-s3"
-import { r2Client, R2_BUCKET_NAME, isR2Configured } from '@/lib/r2'
+import { getStorage } from '@/lib/storage'
 import { auth } from "@/auth"
 
 export async function POST(request: NextRequest) {
@@ -11,14 +10,6 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    // Check if R2 is properly configured
-    if (!isR2Configured() || !r2Client) {
-      return NextResponse.json({ 
-        error: 'R2 storage not configured', 
-        details: 'Missing environment variables or client initialization failed'
-      }, { status: 500 })
-    }
-
     const formData = await request.formData()
     const file = formData.get('file') as File
     
@@ -34,20 +25,15 @@ export async function POST(request: NextRequest) {
     const timestamp = Date.now()
     const fileName = `test-uploads/${timestamp}-${file.name}`
 
-    // Upload to R2
-    const command = new PutObjectCommand({
-      Bucket: R2_BUCKET_NAME,
-      Key: fileName,
-      Body: buffer,
-      ContentType: file.type,
-      Metadata: {
+    // Upload to the configured storage driver
+    await getStorage().put(fileName, buffer, {
+      contentType: file.type,
+      metadata: {
         'uploaded-by': session.user.email || 'unknown',
         'upload-timestamp': timestamp.toString()
       }
     })
 
-    await r2Client.send(command)
-
     return NextResponse.json({
       success: true,
       message: 'File uploaded successfully',
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '../../../../auth'
+import {
+  getLinkShareInfo,
+  redeemLinkShare,
+  CanvasError
+} from '../../../../lib/canvas'
+import { getLinkCookieName } from '../../../../lib/shareAccess'
+import { checkRateLimit, getClientAddress } from '../../../../lib/rateLimit'
+import type { APIError, APISuccess } from '../../../../types/tldraw'
+
+// Guests keep a VIEW link until it expires, or for this long if it never does
+const GUEST_COOKIE_MAX_AGE = 30 * 24 * 60 * 60 // 30 days
+
+// Per client address, to slow down guessing of tokens and passcodes
+const LOOKUP_RATE_LIMIT = 30 // per minute
+const REDEEM_RATE_LIMIT = 10 // per minute
+const RATE_LIMIT_WINDOW = 60 * 1000
+
+function rateLimitedResponse() {
+  return NextResponse.json(
+    { error: 'Too many requests. Try again in a minute', code: 'RATE_LIMITED' } as APIError,
+    { status: 429 }
+  )
+}
+
+// GET /api/share/[token] - Describe a share link before it is redeemed
+export async function GET(request: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  try {
+    if (!checkRateLimit(`share-lookup:${getClientAddress(request.headers)}`, LOOKUP_RATE_LIMIT, RATE_LIMIT_WINDOW)) {
+      return rateLimitedResponse()
+    }
+
+    const { token } = await params
+    const info = await getLinkShareInfo(token)
+
+    return NextResponse.json({
+      success: true,
+      data: info,
+      message: 'Share link retrieved successfully'
+    } as APISuccess, { status: 200 })
+
+  } catch (error) {
+    console.error('Error getting share link:', error)
+    if (error instanceof CanvasError) {
+      const status = error.code === 'NOT_FOUND' ? 404 :
+                    error.code === 'LINK_EXPIRED' || error.code === 'LINK_EXHAUSTED' ? 410 :
+                    error.code === 'INVALID_PASSCODE' ? 403 :
+                    error.code === 'LINK_LOCKED' ? 429 :
+                    error.code === 'SIGN_IN_REQUIRED' ? 401 : 400
+      return NextResponse.json(
+        { error: error.message, code: error.code } as APIError,
+        { status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' } as APIError,
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/share/[token] - Redeem a share link ({ passcode? })
+// Signed-in users get a share of their own; guests get a cookie with a signed grant for VIEW links
+export async function POST(request: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  try {
+    if (!checkRateLimit(`share-redeem:${getClientAddress(request.headers)}`, REDEEM_RATE_LIMIT, RATE_LIMIT_WINDOW)) {
+      return rateLimitedResponse()
+    }
+
+    const { token } = await params
+    const body = await request.json().catch(() => ({}))
+    const passcode = typeof body.passcode === 'string' ? body.passcode : undefined
+
+    const info = await getLinkShareInfo(token)
+    const session = await auth()
+
+    const { grant, ...redemption } = await redeemLinkShare(token, session?.user?.id ?? null, passcode)
+
+    const response = NextResponse.json({
+      success: true,
+      data: redemption,
+      message: 'Share link redeemed successfully'
+    } as APISuccess, { status: 200 })
+
+    if (grant) {
+      const expiresAt = info.expiresAt ?? new Date(Date.now() + GUEST_COOKIE_MAX_AGE * 1000)
+      response.cookies.set(getLinkCookieName(redemption.canvasId), grant, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+        path: '/',
+        expires: expiresAt
+      })
+    }
+
+    return response
+
+  } catch (error) {
+    console.error('Error redeeming share link:', error)
+    if (error instanceof CanvasError) {
+      const status = error.code === 'NOT_FOUND' ? 404 :
+                    error.code === 'LINK_EXPIRED' || error.code === 'LINK_EXHAUSTED' ? 410 :
+                    error.code === 'INVALID_PASSCODE' ? 403 :
+                    error.code === 'LINK_LOCKED' ? 429 :
+                    error.code === 'SIGN_IN_REQUIRED' ? 401 : 400
+      return NextResponse.json(
+        { error: error.message, code: error.code } as APIError,
+        { status }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' } as APIError,
+      { status: 500 }
+    )
+  }
+}
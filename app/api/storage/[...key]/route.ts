@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getStorage, StorageError } from '../../../../lib/storage'
+import { LocalStorageDriver, verifyLocalSignature } from '../../../../lib/storage/local'
+import type { APIError } from '../../../../types/tldraw'
+
+// Only the local driver serves objects through the app; R2 has its own domain
+function getLocalStorage(): LocalStorageDriver | null {
+  const storage = getStorage()
+  return storage instanceof LocalStorageDriver ? storage : null
+}
+
+function storageErrorResponse(error: unknown) {
+  if (error instanceof StorageError) {
+    const status = error.code === 'NOT_FOUND' ? 404 :
+                  error.code === 'INVALID_KEY' || error.code === 'INVALID_PART' || error.code === 'INVALID_UPLOAD' ? 400 : 500
+    return NextResponse.json(
+      { error: error.message, code: error.code } as APIError,
+      { status }
+    )
+  }
+
+  console.error('Error serving local storage:', error)
+  return NextResponse.json(
+    { error: 'Internal server error' } as APIError,
+    { status: 500 }
+  )
+}
+
+// Verify the presigned parameters on a request, if it needs them
+function isSignedFor(request: NextRequest, key: string, method: 'GET' | 'PUT'): boolean {
+  const params = request.nextUrl.searchParams
+  const signature = params.get('signature')
+  if (!signature || params.get('method') !== method) return false
+  return verifyLocalSignature({
+    key,
+    method,
+    expires: Number(params.get('expires')),
+    contentType: params.get('contentType') ?? undefined,
+    metadata: params.get('metadata') ?? undefined,
+    uploadId: params.get('uploadId') ?? undefined,
+    partNumber: params.has('partNumber') ? Number(params.get('partNumber')) : undefined,
+    signature
+  })
+}
+
+// GET /api/storage/[...key] - Serve an object from a presigned local storage URL
+// Permission checks happen where the URL is signed (e.g. the asset file route)
+export async function GET(request: NextRequest, { params }: { params: Promise<{ key: string[] }> }) {
+  const storage = getLocalStorage()
+  if (!storage) {
+    return NextResponse.json({ error: 'Not found' } as APIError, { status: 404 })
+  }
+
+  const key = (await params).key.join('/')
+  if (!isSignedFor(request, key, 'GET')) {
+    return NextResponse.json(
+      { error: 'Invalid or expired signature', code: 'PERMISSION_DENIED' } as APIError,
+      { status: 403 }
+    )
+  }
+
+  try {
+    const { body, info } = await storage.get(key)
+    return new NextResponse(new Uint8Array(body), {
+      headers: {
+        'Content-Type': info.contentType || 'application/octet-stream',
+        'Content-Length': String(info.size),
+        'Cache-Control': (await storage.getCacheControl(key)) || 'public, max-age=3600',
+        // Served from the app's own origin, so never let a stored file run as a page
+        'Content-Security-Policy': "default-src 'none'; img-src data:; style-src 'unsafe-inline'; sandbox",
+        'X-Content-Type-Options': 'nosniff'
+      }
+    })
+  } catch (error) {
+    return storageErrorResponse(error)
+  }
+}
+
+// PUT /api/storage/[...key] - Upload to a presigned local storage URL
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ key: string[] }> }) {
+  const storage = getLocalStorage()
+  if (!storage) {
+    return NextResponse.json({ error: 'Not found' } as APIError, { status: 404 })
+  }
+
+  const key = (await params).key.join('/')
+  if (!isSignedFor(request, key, 'PUT')) {
+    return NextResponse.json(
+      { error: 'Invalid or expired signature', code: 'PERMISSION_DENIED' } as APIError,
+      { status: 403 }
+    )
+  }
+
+  // Part of a multipart upload; the client needs the ETag to complete it
+  const uploadId = request.nextUrl.searchParams.get('uploadId')
+  if (uploadId) {
+    try {
+      const partNumber = Number(request.nextUrl.searchParams.get('partNumber'))
+      const etag = await storage.uploadPart(key, uploadId, partNumber, Buffer.from(await request.arrayBuffer()))
+      return new NextResponse(null, { status: 200, headers: { ETag: etag } })
+    } catch (error) {
+      return storageErrorResponse(error)
+    }
+  }
+
+  // Same rule as S3: the upload must use the content type it was signed for
+  const contentType = request.nextUrl.searchParams.get('contentType') ?? undefined
+  if (contentType && request.headers.get('content-type') !== contentType) {
+    return NextResponse.json(
+      { error: 'Content type does not match the signed upload', code: 'VALIDATION_ERROR' } as APIError,
+      { status: 400 }
+    )
+  }
+
+  try {
+    const metadata = request.nextUrl.searchParams.get('metadata')
+    await storage.put(key, Buffer.from(await request.arrayBuffer()), {
+      contentType,
+      metadata: metadata ? JSON.parse(metadata) : undefined
+    })
+    return new NextResponse(null, { status: 200 })
+  } catch (error) {
+    return storageErrorResponse(error)
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '../../../../auth'
+import { searchUsers } from '../../../../lib/users'
+import type { APIError, APISuccess } from '../../../../types/tldraw'
+
+// GET /api/users/search?q=... - Find users to share a canvas with
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' } as APIError,
+        { status: 401 }
+      )
+    }
+
+    const query = request.nextUrl.searchParams.get('q') ?? ''
+    const users = await searchUsers(session.user.id, query)
+
+    return NextResponse.json({
+      success: true,
+      data: users,
+      message: 'Users retrieved successfully'
+    } as APISuccess, { status: 200 })
+
+  } catch (error) {
+    console.error('Error searching users:', error)
+
+    return NextResponse.json(
+      { error: 'Internal server error' } as APIError,
+      { status: 500 }
+    )
+  }
+}
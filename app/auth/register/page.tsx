@@ -1,5 +1,5 @@
 "use client"
-import { useState, FormEvent } from "react"
+import { useState, useEffect, FormEvent } from "react"
 import { useRouter } from "next/navigation"
 import Link from "next/link"
 
@@ -18,6 +18,12 @@ export default function Register() {
   const [success, setSuccess] = useState("")
   const router = useRouter()
 
+  // Invitation emails link here with the invited address
+  useEffect(() => {
+    const invitedEmail = new URLSearchParams(window.location.search).get("email")
+    if (invitedEmail) setEmail(invitedEmail)
+  }, [])
+
   const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault()
     setIsLoading(true)
@@ -37,8 +43,13 @@ export default function Register() {
 
       if (response.ok) {
         setSuccess("Account created successfully! Redirecting to sign in...")
+        // Invitation links send new users back to accept the invitation once signed in
+        const callbackUrl = new URLSearchParams(window.location.search).get("callbackUrl")
+        const signInUrl = callbackUrl?.startsWith("/") && !callbackUrl.startsWith("//")
+          ? `/auth/signin?callbackUrl=${encodeURIComponent(callbackUrl)}`
+          : "/auth/signin"
         setTimeout(() => {
-          router.push("/auth/signin")
+          router.push(signInUrl)
         }, 2000)
       } else {
         setError(data.error || "Something went wrong")
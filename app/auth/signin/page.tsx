@@ -26,7 +26,9 @@ export default function SignIn() {
       if (result?.error) {
         setError("Invalid credentials")
       } else if (result?.ok) {
-        router.push("/dashboard")
+        // Only same-site paths, e.g. back to a share link
+        const callbackUrl = new URLSearchParams(window.location.search).get("callbackUrl")
+        router.push(callbackUrl?.startsWith("/") && !callbackUrl.startsWith("//") ? callbackUrl : "/dashboard")
         router.refresh()
       }
     } catch (error) {
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 
@@ -8,6 +8,7 @@ interface Canvas {
   id: string
   name: string
   description?: string
+  thumbnailUrl?: string
   updatedAt: string
   isOwner: boolean
 }
@@ -16,6 +17,9 @@ export default function CanvasManager() {
   const [canvases, setCanvases] = useState<Canvas[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [isCreating, setIsCreating] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const [importError, setImportError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
   const router = useRouter()
 
   // Load user's canvases
@@ -67,6 +71,34 @@ export default function CanvasManager() {
     }
   }
 
+  // Import a .tldr or JSON snapshot as a new canvas
+  const importCanvas = async (file: File) => {
+    try {
+      setIsImporting(true)
+      setImportError(null)
+      const formData = new FormData()
+      formData.append('file', file)
+
+      const response = await fetch('/api/canvas/import', {
+        method: 'POST',
+        body: formData
+      })
+
+      const result = await response.json().catch(() => ({}))
+      if (response.ok && result.success) {
+        router.push(`/canvas/${result.data.id}`)
+      } else {
+        setImportError(result.error || 'Failed to import canvas')
+      }
+    } catch (error) {
+      console.error('Error importing canvas:', error)
+      setImportError('Failed to import canvas')
+    } finally {
+      setIsImporting(false)
+      if (fileInputRef.current) fileInputRef.current.value = ''
+    }
+  }
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -94,6 +126,23 @@ export default function CanvasManager() {
               >
                 Local Canvas
               </Link>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".tldr,.json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) importCanvas(file)
+                }}
+              />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isImporting}
+                className="bg-white hover:bg-gray-100 disabled:opacity-50 text-gray-800 border border-gray-300 px-4 py-2 rounded-lg transition-colors"
+              >
+                {isImporting ? 'Importing...' : 'Import'}
+              </button>
               <button
                 onClick={createCanvas}
                 disabled={isCreating}
@@ -103,6 +152,11 @@ export default function CanvasManager() {
               </button>
             </div>
           </div>
+          {importError && (
+            <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+              {importError}
+            </div>
+          )}
         </div>
 
         {/* Canvas Grid */}
@@ -127,8 +181,16 @@ export default function CanvasManager() {
                 onClick={() => router.push(`/canvas/${canvas.id}`)}
               >
                 <div className="p-6">
-                  <div className="h-32 bg-gray-100 rounded-md mb-4 flex items-center justify-center">
-                    <div className="text-gray-400 text-sm">Canvas Preview</div>
+                  <div className="h-32 bg-gray-100 rounded-md mb-4 flex items-center justify-center overflow-hidden">
+                    {canvas.thumbnailUrl ? (
+                      <img
+                        src={canvas.thumbnailUrl}
+                        alt={`${canvas.name} preview`}
+                        className="w-full h-full object-contain bg-white"
+                      />
+                    ) : (
+                      <div className="text-gray-400 text-sm">Canvas Preview</div>
+                    )}
                   </div>
                   <h3 className="font-semibold text-gray-900 mb-1">{canvas.name}</h3>
                   {canvas.description && (
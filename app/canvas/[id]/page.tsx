@@ -1,5 +1,7 @@
 import { auth } from '../../../auth'
+import { cookies } from 'next/headers'
 import { redirect } from 'next/navigation'
+import { getLinkGuestId } from '../../../lib/shareAccess'
 import { TldrawWrapper } from '../../../components/TldrawWrapper'
 
 interface CanvasPageProps {
@@ -8,16 +10,16 @@ interface CanvasPageProps {
 
 export default async function CanvasPage({ params }: CanvasPageProps) {
   const session = await auth()
-  
-  if (!session?.user) {
+  const { id } = await params
+
+  // Guests who opened a VIEW share link for this canvas may stay
+  if (!session?.user && !getLinkGuestId(await cookies(), id)) {
     redirect('/auth/signin')
   }
 
-  const { id } = await params
-
   return (
     <div>
-      <TldrawWrapper canvasId={id} />
+      <TldrawWrapper canvasId={id} signedIn={!!session?.user} />
     </div>
   )
 } 
\ No newline at end of file
@@ -1,7 +1,9 @@
 import { auth } from "@/auth"
 import { prisma } from "@/lib/prisma"
 import { redirect } from "next/navigation"
+import { getStorageUsage } from "@/lib/assets"
 import { SignOutButton } from "@/components/SignOutButton"
+import { StorageUsageMeter } from "@/components/StorageUsageMeter"
 import Link from "next/link"
 
 export default async function Dashboard() {
@@ -31,6 +33,8 @@ export default async function Dashboard() {
     redirect("/auth/signin")
   }
 
+  const storageUsage = await getStorageUsage(user.id)
+
   return (
     <div className="max-w-4xl mx-auto mt-8 p-6">
       <div className="flex justify-between items-center mb-8">
@@ -62,6 +66,8 @@ export default async function Dashboard() {
           </div>
         </div>
 
+        <StorageUsageMeter usage={storageUsage} />
+
         <div className="p-6 border rounded-lg">
           <h2 className="text-xl font-semibold mb-4">Admin Tools</h2>
           <div className="space-y-4">
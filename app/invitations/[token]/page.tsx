@@ -0,0 +1,75 @@
+import { redirect } from 'next/navigation'
+import Link from 'next/link'
+import { auth } from '../../../auth'
+import { CanvasError } from '../../../lib/canvas'
+import { claimCanvasInvitation, getCanvasInvitation } from '../../../lib/invitations'
+
+interface InvitationPageProps {
+  params: Promise<{ token: string }>
+}
+
+const INVITATION_ERRORS: Record<string, string> = {
+  NOT_FOUND: 'This invitation does not exist, was withdrawn or has already been accepted.',
+  EMAIL_MISMATCH: 'This invitation was sent to another email address. Sign in with that address to accept it.'
+}
+
+function InvitationError({ error }: { error: unknown }) {
+  const message = error instanceof CanvasError && error.code
+    ? INVITATION_ERRORS[error.code] ?? error.message
+    : 'Something went wrong opening this invitation.'
+  return (
+    <div className="max-w-md mx-auto mt-8 p-6 border rounded-lg">
+      <h1 className="text-2xl font-bold mb-4">Invitation unavailable</h1>
+      <p className="mb-4">{message}</p>
+      <Link href="/" className="text-blue-600 hover:underline">Go home</Link>
+    </div>
+  )
+}
+
+// Landing page of invitation emails: signed-in users with the invited address get the share
+export default async function InvitationPage({ params }: InvitationPageProps) {
+  const { token } = await params
+  const session = await auth()
+
+  if (session?.user?.id) {
+    let canvasId: string
+    try {
+      canvasId = await claimCanvasInvitation(session.user.id, token)
+    } catch (error) {
+      return <InvitationError error={error} />
+    }
+    redirect(`/canvas/${canvasId}`)
+  }
+
+  let info
+  try {
+    info = await getCanvasInvitation(token)
+  } catch (error) {
+    return <InvitationError error={error} />
+  }
+
+  // Both come back here once signed in
+  const callbackUrl = encodeURIComponent(`/invitations/${token}`)
+  return (
+    <div className="max-w-md mx-auto mt-8 p-6 border rounded-lg">
+      <h1 className="text-2xl font-bold mb-4">You&apos;re invited to &quot;{info.canvasName}&quot;</h1>
+      <p className="mb-6">
+        Sign in or create an account with <strong>{info.email}</strong> to accept the invitation.
+      </p>
+      <div className="flex gap-3">
+        <Link
+          href={`/auth/signin?callbackUrl=${callbackUrl}`}
+          className="flex-1 text-center bg-blue-500 text-white p-2 rounded hover:bg-blue-600"
+        >
+          Sign in
+        </Link>
+        <Link
+          href={`/auth/register?email=${encodeURIComponent(info.email)}&callbackUrl=${callbackUrl}`}
+          className="flex-1 text-center border p-2 rounded hover:bg-gray-50"
+        >
+          Create account
+        </Link>
+      </div>
+    </div>
+  )
+}
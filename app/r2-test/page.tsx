@@ -8,7 +8,7 @@ interface R2File {
   key: string
   size: number
   lastModified: string
-  etag: string
+  etag?: string
 }
 
 export default function R2TestPage() {
@@ -0,0 +1,55 @@
+import { cookies, headers } from 'next/headers'
+import { redirect } from 'next/navigation'
+import Link from 'next/link'
+import { auth } from '../../../auth'
+import { getLinkShareInfo, checkCanvasPermission, CanvasError } from '../../../lib/canvas'
+import { getLinkGuestId } from '../../../lib/shareAccess'
+import { checkRateLimit, getClientAddress } from '../../../lib/rateLimit'
+import { ShareLinkRedeemer } from '../../../components/ShareLinkRedeemer'
+import type { LinkShareInfo } from '../../../types/tldraw'
+
+interface ShareLinkPageProps {
+  params: Promise<{ token: string }>
+}
+
+const LINK_ERRORS: Record<string, string> = {
+  NOT_FOUND: 'This link does not exist or has been revoked.',
+  LINK_EXPIRED: 'This link has expired.',
+  RATE_LIMITED: 'Too many links opened from your network. Try again in a minute.'
+}
+
+// Per client address, like the share link API
+const PAGE_RATE_LIMIT = 30 // per minute
+const RATE_LIMIT_WINDOW = 60 * 1000
+
+export default async function ShareLinkPage({ params }: ShareLinkPageProps) {
+  const { token } = await params
+
+  let info: LinkShareInfo
+  try {
+    if (!checkRateLimit(`share-page:${getClientAddress(await headers())}`, PAGE_RATE_LIMIT, RATE_LIMIT_WINDOW)) {
+      throw new CanvasError('Too many requests', 'RATE_LIMITED')
+    }
+    info = await getLinkShareInfo(token)
+  } catch (error) {
+    const message = error instanceof CanvasError && error.code
+      ? LINK_ERRORS[error.code] ?? error.message
+      : 'Something went wrong opening this link.'
+    return (
+      <div className="max-w-md mx-auto mt-8 p-6 border rounded-lg">
+        <h1 className="text-2xl font-bold mb-4">Share link unavailable</h1>
+        <p className="mb-4">{message}</p>
+        <Link href="/" className="text-blue-600 hover:underline">Go home</Link>
+      </div>
+    )
+  }
+
+  // Visitors who already have this access go straight to the canvas
+  const session = await auth()
+  const userId = session?.user?.id ?? getLinkGuestId(await cookies(), info.canvasId)
+  if (userId && await checkCanvasPermission(userId, info.canvasId, info.permissionLevel)) {
+    redirect(`/canvas/${info.canvasId}`)
+  }
+
+  return <ShareLinkRedeemer token={token} info={info} signedIn={!!session?.user} />
+}
@@ -0,0 +1,48 @@
+"use client"
+
+import { Editor } from 'tldraw'
+
+interface ExportButtonsProps {
+  editor: Editor | null
+  canvasId: string
+  // Called first so the export includes changes that are not saved yet
+  beforeExport?: () => Promise<void>
+}
+
+const FORMATS = [
+  { format: 'svg', label: 'SVG' },
+  { format: 'png', label: 'PNG' },
+  { format: 'json', label: 'JSON' },
+  { format: 'tldr', label: '.tldr' }
+]
+
+export function ExportButtons({ editor, canvasId, beforeExport }: ExportButtonsProps) {
+  const handleExport = async (format: string) => {
+    if (!editor) return
+    await beforeExport?.()
+
+    // Export the selection if there is one, otherwise the current page
+    const params = new URLSearchParams({ format, page: editor.getCurrentPageId() })
+    const selectedIds = editor.getSelectedShapeIds()
+    if (selectedIds.length > 0) {
+      params.set('ids', selectedIds.join(','))
+    }
+
+    window.location.href = `${process.env.NEXT_PUBLIC_URL}/api/canvas/${canvasId}/export?${params}`
+  }
+
+  return (
+    <>
+      {FORMATS.map(({ format, label }) => (
+        <button
+          key={format}
+          onClick={() => handleExport(format)}
+          disabled={!editor}
+          className="px-3 py-2 bg-white text-gray-800 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+        >
+          Export {label}
+        </button>
+      ))}
+    </>
+  )
+}
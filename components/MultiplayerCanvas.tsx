@@ -0,0 +1,240 @@
+"use client"
+
+import { useEffect, useMemo, useState } from 'react'
+import { Editor, Tldraw, useValue } from 'tldraw'
+import { useSync } from '@tldraw/sync'
+import 'tldraw/tldraw.css'
+import { uploadCanvasThumbnail } from '../lib/assetUpload'
+import { createCanvasAssetStore } from '../lib/assetStore'
+import { ExportButtons } from './ExportButtons'
+import { ShareDialog } from './ShareDialog'
+import { DuplicateCanvasButton, ViewOnlyBadge } from './ViewOnlyControls'
+import { UploadProgress, useUploadProgress } from './UploadProgress'
+import type { CollaboratorInfo, PermissionLevel, SyncConnectionResponse } from '../types/tldraw'
+
+interface MultiplayerCanvasProps {
+  canvasId: string
+  signedIn?: boolean // False for guests who opened a share link
+}
+
+export function MultiplayerCanvas({ canvasId, signedIn = true }: MultiplayerCanvasProps) {
+  const [editor, setEditor] = useState<Editor | null>(null)
+  const [user, setUser] = useState<CollaboratorInfo | undefined>(undefined)
+  const [permission, setPermission] = useState<PermissionLevel | null>(null)
+  // Stay read-only until the sync endpoint has said otherwise
+  const readOnly = permission !== 'EDIT' && permission !== 'ADMIN'
+
+  const uploadProgress = useUploadProgress()
+
+  // Uploaded files go to storage; the room only stores the asset records
+  const assets = useMemo(
+    () => createCanvasAssetStore(canvasId, uploadProgress.options),
+    [canvasId, uploadProgress.options]
+  )
+
+  const store = useSync({
+    // Fetch a fresh short-lived token for every (re)connection
+    uri: async () => {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_URL}/api/canvas/${canvasId}/sync`)
+      if (!response.ok) {
+        throw new Error('Failed to get sync token')
+      }
+      const { data } = await response.json() as { data: SyncConnectionResponse }
+      // Cursor name and colour come from the signed-in user's account
+      setUser(data.user)
+      setPermission(data.permission)
+      return data.uri
+    },
+    assets,
+    userInfo: user
+  })
+
+  // Other people in the room, with their presence kept out of the document
+  const collaborators = useValue(
+    'collaborators',
+    () => editor?.getCollaborators() ?? [],
+    [editor]
+  )
+  const followingUserId = useValue(
+    'followingUserId',
+    () => editor?.getInstanceState().followingUserId ?? null,
+    [editor]
+  )
+
+  // The room rejects edits from viewers; don't let them make any
+  useEffect(() => {
+    editor?.updateInstanceState({ isReadonly: readOnly })
+  }, [editor, readOnly])
+
+  // Refresh the preview once this user's edits have settled and been persisted by the room
+  useEffect(() => {
+    if (!editor || readOnly) return
+
+    let timeoutId: NodeJS.Timeout
+    const unsubscribe = editor.store.listen(() => {
+      clearTimeout(timeoutId)
+      timeoutId = setTimeout(() => {
+        uploadCanvasThumbnail(editor, canvasId).catch((err) => {
+          console.warn('Failed to update canvas thumbnail:', err)
+        })
+      }, 5000)
+    }, { source: 'user', scope: 'document' })
+
+    return () => {
+      clearTimeout(timeoutId)
+      unsubscribe()
+    }
+  }, [editor, canvasId, readOnly])
+
+  const toggleFollow = (userId: string) => {
+    if (!editor) return
+    if (followingUserId === userId) {
+      editor.stopFollowingUser()
+    } else {
+      editor.startFollowingUser(userId)
+    }
+  }
+
+  if (store.status === 'loading') {
+    return (
+      <div style={{
+        position: 'fixed',
+        inset: 0,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: '#fafafa'
+      }}>
+        <div style={{ textAlign: 'center' }}>
+          <div style={{ fontSize: '18px', marginBottom: '8px' }}>Connecting to canvas...</div>
+          <div style={{ fontSize: '14px', color: '#666' }}>Canvas ID: {canvasId}</div>
+        </div>
+      </div>
+    )
+  }
+
+  if (store.status === 'error') {
+    return (
+      <div style={{
+        position: 'fixed',
+        inset: 0,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: '#fafafa'
+      }}>
+        <div style={{ textAlign: 'center' }}>
+          <div style={{ fontSize: '18px', marginBottom: '8px', color: '#ef4444' }}>Failed to connect to canvas</div>
+          <div style={{ fontSize: '14px', color: '#666' }}>{store.error.message}</div>
+        </div>
+      </div>
+    )
+  }
+
+  const isOnline = store.connectionStatus === 'online'
+
+  return (
+    <div style={{ position: 'fixed', inset: 0 }}>
+      {/* Canvas type and connection indicator */}
+      <div style={{
+        position: 'absolute',
+        top: 16,
+        left: 16,
+        zIndex: 1000,
+        padding: '6px 10px',
+        borderRadius: '4px',
+        fontSize: '12px',
+        backgroundColor: 'rgba(0,0,0,0.7)',
+        color: 'white'
+      }}>
+        <span style={{ color: isOnline ? '#10b981' : '#f59e0b' }}>●</span>
+        {' '}Live Canvas: {canvasId}{!isOnline && ' (reconnecting...)'}
+        {readOnly && <ViewOnlyBadge />}
+      </div>
+
+      {/* Active participants */}
+      <div style={{
+        position: 'absolute',
+        top: 52,
+        left: 16,
+        zIndex: 1000,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '4px'
+      }}>
+        {user && (
+          <ParticipantBadge name={`${user.name} (you)`} color={user.color} />
+        )}
+        {collaborators.map((collaborator) => (
+          <ParticipantBadge
+            key={collaborator.userId}
+            name={collaborator.userName}
+            color={collaborator.color}
+            following={followingUserId === collaborator.userId}
+            onFollow={() => toggleFollow(collaborator.userId)}
+          />
+        ))}
+      </div>
+
+      <UploadProgress uploads={uploadProgress.uploads} error={uploadProgress.error} />
+
+      {/* Size limits are enforced by the server, which knows the user's allowance */}
+      <Tldraw store={store.store} onMount={setEditor} maxAssetSize={Infinity} />
+
+      <div className="absolute bottom-4 right-4 z-10 flex space-x-2">
+        {readOnly && <DuplicateCanvasButton canvasId={canvasId} />}
+        <ShareDialog canvasId={canvasId} />
+        {/* The export route needs a signed-in user */}
+        {signedIn && <ExportButtons editor={editor} canvasId={canvasId} />}
+      </div>
+    </div>
+  )
+}
+
+interface ParticipantBadgeProps {
+  name: string
+  color: string
+  following?: boolean
+  onFollow?: () => void
+}
+
+function ParticipantBadge({ name, color, following, onFollow }: ParticipantBadgeProps) {
+  return (
+    <div style={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: '6px',
+      padding: '4px 8px',
+      borderRadius: '4px',
+      fontSize: '12px',
+      backgroundColor: 'white',
+      border: `2px solid ${color}`,
+      boxShadow: '0 1px 3px rgba(0,0,0,0.1)'
+    }}>
+      <span style={{
+        width: '8px',
+        height: '8px',
+        borderRadius: '50%',
+        backgroundColor: color
+      }} />
+      <span>{name}</span>
+      {onFollow && (
+        <button
+          onClick={onFollow}
+          style={{
+            marginLeft: '4px',
+            padding: '0 6px',
+            borderRadius: '3px',
+            fontSize: '11px',
+            color: following ? 'white' : color,
+            backgroundColor: following ? color : 'transparent',
+            border: `1px solid ${color}`,
+            cursor: 'pointer'
+          }}
+        >
+          {following ? 'Following' : 'Follow'}
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,323 @@
+"use client"
+
+import { useCallback, useEffect, useState, FormEvent } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { CanvasShareData, CanvasSharesResponse, PermissionLevel, UserSearchResult } from "@/types/tldraw"
+
+const PERMISSION_LABELS: Record<PermissionLevel, string> = {
+  VIEW: "Can view",
+  EDIT: "Can edit",
+  ADMIN: "Admin",
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const SEARCH_DELAY = 250 // ms after the last keystroke
+
+interface ShareDialogProps {
+  canvasId: string
+}
+
+function PermissionSelect({ value, onChange, allowAdmin, disabled }: {
+  value: PermissionLevel
+  onChange: (value: PermissionLevel) => void
+  allowAdmin: boolean
+  disabled?: boolean
+}) {
+  return (
+    <Select value={value} onValueChange={(next) => onChange(next as PermissionLevel)} disabled={disabled}>
+      <SelectTrigger size="sm" className="w-28">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="VIEW">{PERMISSION_LABELS.VIEW}</SelectItem>
+        <SelectItem value="EDIT">{PERMISSION_LABELS.EDIT}</SelectItem>
+        {(allowAdmin || value === "ADMIN") && (
+          <SelectItem value="ADMIN" disabled={!allowAdmin}>{PERMISSION_LABELS.ADMIN}</SelectItem>
+        )}
+      </SelectContent>
+    </Select>
+  )
+}
+
+// Share button for the editor toolbar: collaborators, visibility and the canvas link
+export function ShareDialog({ canvasId }: ShareDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [sharing, setSharing] = useState<CanvasSharesResponse | null>(null)
+  const [canManage, setCanManage] = useState(true)
+  const [query, setQuery] = useState("")
+  const [results, setResults] = useState<UserSearchResult[]>([])
+  const [permissionLevel, setPermissionLevel] = useState<PermissionLevel>("EDIT")
+  const [isBusy, setIsBusy] = useState(false)
+  const [error, setError] = useState("")
+  const [copied, setCopied] = useState(false)
+
+  const shareApi = `${process.env.NEXT_PUBLIC_URL}/api/canvas/${canvasId}/share`
+
+  const loadSharing = useCallback(async () => {
+    try {
+      const response = await fetch(shareApi)
+      const result = await response.json()
+      if (response.ok) {
+        setSharing(result.data)
+        setCanManage(true)
+      } else if ([401, 403, 404].includes(response.status)) {
+        setCanManage(false)
+      } else {
+        setError(result.error || "Failed to load sharing settings")
+      }
+    } catch (error) {
+      console.error("Error loading sharing settings:", error)
+      setError("Failed to load sharing settings")
+    }
+  }, [shareApi])
+
+  useEffect(() => {
+    if (!open) return
+    setError("")
+    loadSharing()
+  }, [open, loadSharing])
+
+  // Search as the user types, once they pause
+  useEffect(() => {
+    const term = query.trim()
+    if (!open || !canManage || term.length < 2) {
+      setResults([])
+      return
+    }
+
+    const controller = new AbortController()
+    const timeoutId = setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `${process.env.NEXT_PUBLIC_URL}/api/users/search?q=${encodeURIComponent(term)}`,
+          { signal: controller.signal }
+        )
+        const result = await response.json()
+        if (response.ok) setResults(result.data)
+      } catch (error) {
+        if (!controller.signal.aborted) console.error("Error searching users:", error)
+      }
+    }, SEARCH_DELAY)
+
+    return () => {
+      clearTimeout(timeoutId)
+      controller.abort()
+    }
+  }, [query, open, canManage])
+
+  // Run a change against the share API, then reload the dialog
+  const updateSharing = async (init: RequestInit, url = shareApi) => {
+    setIsBusy(true)
+    setError("")
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      })
+      if (!response.ok) {
+        const result = await response.json()
+        setError(result.error || "Failed to update sharing")
+        return false
+      }
+      await loadSharing()
+      return true
+    } catch (error) {
+      console.error("Error updating sharing:", error)
+      setError("Failed to update sharing")
+      return false
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const shareWith = async (email: string, level: PermissionLevel) => {
+    const shared = await updateSharing({
+      method: "POST",
+      body: JSON.stringify({ email, permissionLevel: level }),
+    })
+    if (shared) {
+      setQuery("")
+      setResults([])
+    }
+  }
+
+  const removeShare = (share: CanvasShareData) => {
+    const params = share.pending
+      ? new URLSearchParams({ email: share.email ?? "" })
+      : new URLSearchParams({ userId: share.userId ?? "" })
+    updateSharing({ method: "DELETE" }, `${shareApi}?${params}`)
+  }
+
+  const setPublic = (isPublic: boolean) => {
+    updateSharing({ method: "PATCH", body: JSON.stringify({ isPublic }) })
+  }
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/canvas/${canvasId}`)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      console.error("Error copying link:", error)
+      setError("Could not copy the link")
+    }
+  }
+
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    const email = query.trim()
+    if (EMAIL_PATTERN.test(email)) shareWith(email, permissionLevel)
+  }
+
+  const typedEmail = EMAIL_PATTERN.test(query.trim()) ? query.trim() : null
+  const isOwner = sharing?.isOwner ?? false
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <button className="px-4 py-2 bg-white text-gray-800 border border-gray-300 rounded hover:bg-gray-50">
+          Share
+        </button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Share canvas</DialogTitle>
+          <DialogDescription>
+            {canManage
+              ? "Find people you already share with by name, or invite anyone by their full email. People without an account are invited to sign up."
+              : "Only the owner and admins can change who has access."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="p-3 bg-red-100 border border-red-400 text-red-700 rounded text-sm">
+            {error}
+          </div>
+        )}
+
+        {canManage && (
+          <form onSubmit={handleSubmit} className="space-y-2">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Name or email"
+                className="flex-1 p-2 border rounded text-sm"
+                disabled={isBusy}
+              />
+              <PermissionSelect value={permissionLevel} onChange={setPermissionLevel} allowAdmin={isOwner} />
+            </div>
+            {(results.length > 0 || typedEmail) && (
+              <ul className="border rounded divide-y text-sm">
+                {results.map((user) => (
+                  <li key={user.id}>
+                    <button
+                      type="button"
+                      onClick={() => shareWith(user.email, permissionLevel)}
+                      disabled={isBusy}
+                      className="w-full text-left px-3 py-2 hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      <span className="font-medium">{user.name || user.email}</span>
+                      {user.name && <span className="text-gray-500 ml-2">{user.email}</span>}
+                    </button>
+                  </li>
+                ))}
+                {typedEmail && !results.some((user) => user.email.toLowerCase() === typedEmail.toLowerCase()) && (
+                  <li>
+                    <button
+                      type="submit"
+                      disabled={isBusy}
+                      className="w-full text-left px-3 py-2 hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Invite <span className="font-medium">{typedEmail}</span>
+                    </button>
+                  </li>
+                )}
+              </ul>
+            )}
+          </form>
+        )}
+
+        {sharing && (
+          <ul className="space-y-2 text-sm max-h-64 overflow-y-auto">
+            <li className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <div className="font-medium truncate">{sharing.owner.name || sharing.owner.email}</div>
+                {sharing.owner.name && <div className="text-gray-500 truncate">{sharing.owner.email}</div>}
+              </div>
+              <span className="text-gray-500 px-3">Owner</span>
+            </li>
+            {sharing.shares.map((share) => {
+              // Admins can't change other admins
+              const locked = !isOwner && share.permissionLevel === "ADMIN"
+              return (
+                <li key={share.id} className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">
+                      {share.name || share.email}
+                      {share.pending && <span className="ml-2 text-xs text-orange-600">Invited</span>}
+                    </div>
+                    {share.name && <div className="text-gray-500 truncate">{share.email}</div>}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <PermissionSelect
+                      value={share.permissionLevel}
+                      onChange={(level) => share.email && shareWith(share.email, level)}
+                      allowAdmin={isOwner}
+                      disabled={isBusy || locked}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeShare(share)}
+                      disabled={isBusy || locked}
+                      className="px-2 py-1 text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+                      aria-label={`Remove ${share.email}`}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+
+        <div className="flex items-center justify-between gap-2 border-t pt-4">
+          {sharing ? (
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={sharing.isPublic}
+                onChange={(e) => setPublic(e.target.checked)}
+                disabled={isBusy}
+              />
+              Public: anyone with the link can view, even without signing in
+            </label>
+          ) : <span />}
+          <button
+            type="button"
+            onClick={copyLink}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 text-sm"
+          >
+            {copied ? "Copied!" : "Copy link"}
+          </button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
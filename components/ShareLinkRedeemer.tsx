@@ -0,0 +1,114 @@
+"use client"
+import { useEffect, useRef, useState, FormEvent } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import type { LinkShareInfo, LinkShareRedemption } from "@/types/tldraw"
+
+interface ShareLinkRedeemerProps {
+  token: string
+  info: LinkShareInfo
+  signedIn: boolean
+}
+
+// Opens a share link: asks for the passcode if there is one, then redeems it and goes to the canvas
+export function ShareLinkRedeemer({ token, info, signedIn }: ShareLinkRedeemerProps) {
+  const [passcode, setPasscode] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState("")
+  const router = useRouter()
+  const autoRedeemed = useRef(false)
+
+  const signInUrl = `/auth/signin?callbackUrl=${encodeURIComponent(`/s/${token}`)}`
+  const needsSignIn = !signedIn && info.permissionLevel !== "VIEW"
+
+  const redeem = async (code?: string) => {
+    setIsLoading(true)
+    setError("")
+
+    try {
+      const response = await fetch(`/api/share/${encodeURIComponent(token)}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ passcode: code })
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        if (result.code === "SIGN_IN_REQUIRED") {
+          router.push(signInUrl)
+          return
+        }
+        setError(result.error || "Failed to open link")
+        return
+      }
+
+      const redemption = result.data as LinkShareRedemption
+      router.push(`/canvas/${redemption.canvasId}`)
+    } catch (error) {
+      console.error("Share link error:", error)
+      setError("Something went wrong")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Links without a passcode open right away
+  useEffect(() => {
+    if (info.requiresPasscode || needsSignIn || autoRedeemed.current) return
+    autoRedeemed.current = true
+    redeem()
+  }, [])
+
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    redeem(passcode)
+  }
+
+  return (
+    <div className="max-w-md mx-auto mt-8 p-6 border rounded-lg">
+      <h1 className="text-2xl font-bold mb-2">{info.canvasName}</h1>
+      <p className="text-sm text-gray-600 mb-6">
+        This link gives {info.permissionLevel === "VIEW" ? "view" : "edit"} access
+        {info.expiresAt && ` until ${new Date(info.expiresAt).toLocaleString()}`}.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+          {error}
+        </div>
+      )}
+
+      {needsSignIn ? (
+        <Link
+          href={signInUrl}
+          className="block w-full text-center bg-blue-500 text-white p-2 rounded hover:bg-blue-600"
+        >
+          Sign in to open
+        </Link>
+      ) : info.requiresPasscode ? (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="passcode" className="block mb-1">Passcode</label>
+            <input
+              type="password"
+              id="passcode"
+              value={passcode}
+              onChange={(e) => setPasscode(e.target.value)}
+              className="w-full p-2 border rounded"
+              required
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="w-full bg-blue-500 text-white p-2 rounded hover:bg-blue-600 disabled:opacity-50"
+          >
+            {isLoading ? "Opening..." : "Open canvas"}
+          </button>
+        </form>
+      ) : (
+        !error && <p>Opening canvas...</p>
+      )}
+    </div>
+  )
+}
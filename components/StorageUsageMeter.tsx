@@ -0,0 +1,55 @@
+import Link from "next/link"
+import type { StorageUsage } from "@/types/tldraw"
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${Math.ceil(bytes / 1024)} KB`
+}
+
+// Quota meter with the canvases (and their largest files) that use the most space
+export function StorageUsageMeter({ usage }: { usage: StorageUsage }) {
+  const percent = usage.quotaBytes > 0 ? Math.min(100, (usage.usedBytes / usage.quotaBytes) * 100) : 100
+  const barColor = percent >= 90 ? "bg-red-500" : percent >= 75 ? "bg-orange-500" : "bg-blue-500"
+
+  return (
+    <div className="p-6 border rounded-lg">
+      <h2 className="text-xl font-semibold mb-4">Storage</h2>
+      <p className="text-sm mb-2">
+        <strong>{formatBytes(usage.usedBytes)}</strong> of {formatBytes(usage.quotaBytes)} used
+      </p>
+      <div className="h-3 rounded bg-gray-200 overflow-hidden">
+        <div className={`h-full ${barColor}`} style={{ width: `${percent}%` }} />
+      </div>
+
+      {usage.canvases.length === 0 ? (
+        <p className="text-sm text-gray-500 mt-4">No uploaded files yet.</p>
+      ) : (
+        <ul className="mt-4 space-y-4">
+          {usage.canvases.map((canvas) => (
+            <li key={canvas.canvasId}>
+              <div className="flex justify-between text-sm">
+                <Link href={`/canvas/${canvas.canvasId}`} className="font-medium text-blue-600 hover:underline truncate">
+                  {canvas.name}
+                </Link>
+                <span className="text-gray-600 whitespace-nowrap ml-2">
+                  {formatBytes(canvas.usedBytes)} · {canvas.assetCount} file{canvas.assetCount === 1 ? "" : "s"}
+                </span>
+              </div>
+              <ul className="mt-1 space-y-0.5">
+                {canvas.largestAssets.map((asset) => (
+                  <li key={asset.id} className="flex justify-between text-xs text-gray-500">
+                    <a href={asset.url} target="_blank" rel="noopener noreferrer" className="hover:underline truncate">
+                      {asset.fileName}
+                    </a>
+                    <span className="whitespace-nowrap ml-2">{formatBytes(asset.fileSize)}</span>
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useCallback, useEffect, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import { 
   Tldraw, 
   createTLStore, 
@@ -8,24 +8,72 @@ import {
   defaultTools, 
   loadSnapshot, 
   Editor,
-  TLAsset,
-  AssetRecordType,
-  createShapesForAssets
+  TLRecord,
+  RecordsDiff,
+  squashRecordDiffs
 } from 'tldraw'
 import 'tldraw/tldraw.css'
+import { uploadCanvasThumbnail } from '../lib/assetUpload'
+import { createCanvasAssetStore } from '../lib/assetStore'
+import { createLocalAssetStore, LOCAL_ASSET_MAX_SIZE } from '../lib/localAssets'
+import { MultiplayerCanvas } from './MultiplayerCanvas'
+import { ExportButtons } from './ExportButtons'
+import { ShareDialog } from './ShareDialog'
+import { DuplicateCanvasButton, ViewOnlyBadge } from './ViewOnlyControls'
+import { UploadProgress, useUploadProgress } from './UploadProgress'
+import type { PermissionLevel } from '../types/tldraw'
+
+function createEmptyRecordsDiff(): RecordsDiff<TLRecord> {
+  return { added: {}, updated: {}, removed: {} } as RecordsDiff<TLRecord>
+}
+
+function isEmptyRecordsDiff(diff: RecordsDiff<TLRecord>): boolean {
+  return Object.keys(diff.added).length === 0 &&
+    Object.keys(diff.updated).length === 0 &&
+    Object.keys(diff.removed).length === 0
+}
 
 interface TldrawWrapperProps {
-  canvasId: string
+  canvasId?: string // Omitted for the local canvas, which is kept in this browser only
+  signedIn?: boolean // False for guests who opened a share link
 }
 
-export function TldrawWrapper({ canvasId }: TldrawWrapperProps) {
-  const [store] = useState(() => createTLStore())
+export function TldrawWrapper({ canvasId, signedIn = true }: TldrawWrapperProps) {
+  // Server canvases are edited live when a sync server is configured
+  if (canvasId && process.env.NEXT_PUBLIC_SYNC_URL) {
+    return <MultiplayerCanvas canvasId={canvasId} signedIn={signedIn} />
+  }
+
+  return <PersistedCanvas canvasId={canvasId} signedIn={signedIn} />
+}
+
+// Canvas saved to the REST API (or localStorage) without live collaboration
+function PersistedCanvas({ canvasId, signedIn }: TldrawWrapperProps) {
+  const uploadProgress = useUploadProgress()
+  const [error, setError] = useState<string | null>(null)
+  // Files dropped, pasted or inserted with the image tool all go through the asset store
+  const [store] = useState(() => createTLStore({
+    assets: canvasId
+      ? createCanvasAssetStore(canvasId, uploadProgress.options)
+      : createLocalAssetStore(uploadProgress.options)
+  }))
   const [editor, setEditor] = useState<Editor | null>(null)
   const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
   const [saveStatus, setSaveStatus] = useState<
-    'saving' | 'saved' | 'error' | null
+    'saving' | 'saved' | 'merging' | 'error' | null
   >(null)
+  // Server version the editor contents are based on (for conflict detection)
+  const versionRef = useRef<number | null>(null)
+  // Document changes made locally that the server has not acknowledged yet
+  const pendingChangesRef = useRef<RecordsDiff<TLRecord>>(createEmptyRecordsDiff())
+  // Whether the next save must upload a full snapshot instead of a diff
+  const fullSaveRequiredRef = useRef(true)
+  // Whether the document changed since the thumbnail was last rendered
+  const thumbnailDirtyRef = useRef(false)
+  // The caller's access to a server canvas; anything short of EDIT opens it read-only without autosave
+  const [permission, setPermission] = useState<PermissionLevel | null>(null)
+  // Server canvases stay read-only until the server has said otherwise
+  const readOnly = !!canvasId && permission !== 'EDIT' && permission !== 'ADMIN'
   
   // Generate storage key for local canvas
   const storageKey = `tldraw-canvas-${canvasId || 'local'}`
@@ -56,6 +104,9 @@ export function TldrawWrapper({ canvasId }: TldrawWrapperProps) {
         if (data.document) {
           loadSnapshot(store, data.document)
         }
+        versionRef.current = data.metadata.version
+        fullSaveRequiredRef.current = !data.document?.schema
+        setPermission(data.permission)
       } else {
         console.warn('Failed to load canvas from server')
       }
@@ -67,42 +118,146 @@ export function TldrawWrapper({ canvasId }: TldrawWrapperProps) {
     }
   }, [store, canvasId])
 
+  // Reload the server document and replay unsaved local changes on top of it
+  const mergeServerState = useCallback(async (localChanges: RecordsDiff<TLRecord>) => {
+    const response = await fetch(`${process.env.NEXT_PUBLIC_URL}/api/canvas/${canvasId}`)
+    if (!response.ok) {
+      throw new Error('Failed to reload canvas from server')
+    }
+    const { data } = await response.json()
+
+    // Freshly created canvases have an empty document on the server
+    let serverRecords: TLRecord[] | null = null
+    if (data.document?.schema) {
+      const migrated = store.schema.migrateStoreSnapshot(data.document)
+      if (migrated.type === 'error') {
+        throw new Error(`Failed to migrate server document: ${migrated.reason}`)
+      }
+      serverRecords = Object.values(migrated.value)
+    }
+
+    store.mergeRemoteChanges(() => {
+      if (serverRecords) {
+        const serverIds = new Set(serverRecords.map((record) => record.id))
+        const staleIds = store
+          .allRecords()
+          .filter((record) => store.scopedTypes.document.has(record.typeName) && !serverIds.has(record.id))
+          .map((record) => record.id)
+        store.remove(staleIds)
+        store.put(serverRecords)
+      }
+
+      // Local edits win over the server copy for the records they touch
+      store.put([
+        ...Object.values(localChanges.added),
+        ...Object.values(localChanges.updated).map(([, to]) => to)
+      ])
+      store.remove(Object.keys(localChanges.removed).filter((id) => store.has(id as TLRecord['id'])) as TLRecord['id'][])
+    })
+
+    versionRef.current = data.metadata.version
+    fullSaveRequiredRef.current = !serverRecords
+  }, [store, canvasId])
+
   // Save canvas to server or local storage
   const saveCanvas = useCallback(async () => {
     if (!editor) return
 
+    let sentChanges: RecordsDiff<TLRecord> | null = null
     try {
       setSaveStatus('saving')
-      const snapshot = editor.store.getSnapshot()
 
       if (!canvasId) {
         // Save to localStorage for local canvas
-        localStorage.setItem(storageKey, JSON.stringify(snapshot))
+        localStorage.setItem(storageKey, JSON.stringify(editor.store.getSnapshot()))
         setSaveStatus('saved')
         setTimeout(() => setSaveStatus(null), 2000)
         return
       }
 
-      // Save to server
-      const response = await fetch(`${process.env.NEXT_PUBLIC_URL}/api/canvas/${canvasId}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ document: snapshot })
-      })
+      // Save to server, merging and retrying once if someone else saved first
+      let merged = false
+      for (;;) {
+        sentChanges = pendingChangesRef.current
+        pendingChangesRef.current = createEmptyRecordsDiff()
+
+        // Send only the changed records once the server holds our base snapshot
+        const sendDiff = !fullSaveRequiredRef.current && versionRef.current !== null
+        if (sendDiff && isEmptyRecordsDiff(sentChanges)) {
+          sentChanges = null
+          setSaveStatus('saved')
+          setTimeout(() => setSaveStatus(null), 2000)
+          return
+        }
+
+        const response = await fetch(`${process.env.NEXT_PUBLIC_URL}/api/canvas/${canvasId}`, sendDiff ? {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            baseVersion: versionRef.current,
+            changes: sentChanges,
+            schema: editor.store.schema.serialize()
+          })
+        } : {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            document: editor.store.getSnapshot(),
+            baseVersion: versionRef.current ?? undefined
+          })
+        })
+
+        if (response.ok) {
+          const { data } = await response.json()
+          versionRef.current = data.version
+          fullSaveRequiredRef.current = false
+          sentChanges = null
+          setSaveStatus('saved')
+          setError(null)
+          setTimeout(() => setSaveStatus(null), 2000)
+
+          // Refresh the preview in the background, only after real edits
+          if (thumbnailDirtyRef.current) {
+            thumbnailDirtyRef.current = false
+            uploadCanvasThumbnail(editor, canvasId, data.version).catch((err) => {
+              thumbnailDirtyRef.current = true
+              console.warn('Failed to update canvas thumbnail:', err)
+            })
+          }
+          return
+        }
+
+        // Keep the unsaved changes around for the next attempt
+        pendingChangesRef.current = squashRecordDiffs([sentChanges, pendingChangesRef.current])
+        sentChanges = null
+        const errorData = await response.json().catch(() => ({}))
+
+        if (sendDiff && errorData.code === 'SCHEMA_MISMATCH') {
+          fullSaveRequiredRef.current = true
+          continue
+        }
+
+        if (response.status === 409 && !merged) {
+          merged = true
+          setSaveStatus('merging')
+          await mergeServerState(pendingChangesRef.current)
+          continue
+        }
 
-      if (response.ok) {
-        setSaveStatus('saved')
-        setError(null)
-        setTimeout(() => setSaveStatus(null), 2000)
-      } else {
         setSaveStatus('error')
-        setError('Failed to save to server')
+        setError(response.status === 409
+          ? 'Canvas was changed elsewhere, please reload'
+          : 'Failed to save to server')
         setTimeout(() => {
           setSaveStatus(null)
           setError(null)
         }, 3000)
+        return
       }
     } catch (err) {
+      if (sentChanges) {
+        pendingChangesRef.current = squashRecordDiffs([sentChanges, pendingChangesRef.current])
+      }
       setSaveStatus('error')
       setError('Failed to save canvas')
       setTimeout(() => {
@@ -111,130 +266,47 @@ export function TldrawWrapper({ canvasId }: TldrawWrapperProps) {
       }, 3000)
       console.error('Canvas save error:', err)
     }
-  }, [editor, canvasId])
-
-  // Patch the editor's asset upload after mount
-  const handleMount = useCallback(
-    (mountedEditor: Editor) => {
-      setEditor(mountedEditor)
-
-      const handleDragOver = (e: DragEvent) => {
-        e.preventDefault()
-      }
-
-      const handleDrop = async (e: DragEvent) => {
-        e.preventDefault()
-        if (!e.dataTransfer?.files?.length) return
-
-        const files = Array.from(e.dataTransfer.files)
-
-        const assets: TLAsset[] = []
-
-        for (const file of files) {
-          try {
-            setSaveStatus('saving')
-            // Step 1: Request upload URL
-            const uploadResponse = await fetch(`${process.env.NEXT_PUBLIC_URL}/api/assets/upload`, {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                canvasId: canvasId || 'anonymous',
-                fileName: file.name,
-                fileType: file.type,
-                fileSize: file.size,
-              }),
-            })
-            if (!uploadResponse.ok) {
-              const errorData = await uploadResponse.json().catch(() => ({}))
-              throw new Error(errorData.error || 'Failed to request upload URL')
-            }
-            const { data: uploadData } = await uploadResponse.json()
-
-            // Step 2: Upload to R2 using presigned URL
-            const uploadToR2Response = await fetch(uploadData.uploadUrl, {
-              method: 'PUT',
-              body: file,
-              headers: { 'Content-Type': file.type },
-            })
-
-            if (!uploadToR2Response.ok) {
-              throw new Error('Failed to upload to R2 storage')
-            }
-
-            // Step 3: Create the tldraw asset
-            const assetId = AssetRecordType.createId()
-            const asset: TLAsset = AssetRecordType.create({
-              id: assetId,
-              type: file.type.startsWith('image/') ? 'image' : 'video',
-              typeName: 'asset',
-              props: {
-                name: file.name,
-                src: uploadData.publicUrl,
-                w: 500, // placeholder dimensions
-                h: 500,
-                mimeType: file.type,
-                isAnimated: false,
-              },
-              meta: {},
-            })
-            assets.push(asset)
-          } catch (error) {
-            setSaveStatus('error')
-            setError('Failed to upload file')
-            setTimeout(() => {
-              setSaveStatus(null)
-              setError(null)
-            }, 3000)
-            console.error('R2 upload error:', error)
-            return // Stop if one file fails
-          }
-        }
-
-        if (assets.length > 0) {
-          // Create the shapes on the canvas
-          const point = mountedEditor.inputs.currentScreenPoint
-          createShapesForAssets(mountedEditor, assets, point)
-
-          setSaveStatus('saved')
-          setTimeout(() => setSaveStatus(null), 2000)
-        }
-      }
-
-      const container = mountedEditor.getContainer()
-      container.addEventListener('dragover', handleDragOver)
-      container.addEventListener('drop', handleDrop)
-
-      return () => {
-        container.removeEventListener('dragover', handleDragOver)
-        container.removeEventListener('drop', handleDrop)
-      }
-    },
-    [canvasId]
-  )
+  }, [editor, canvasId, mergeServerState])
 
   // Load canvas on mount
   useEffect(() => {
     loadCanvas()
   }, [loadCanvas])
 
-  // Auto-save functionality
+  // Track local document changes so they can be replayed after a conflict
   useEffect(() => {
     if (!editor) return
 
+    return editor.store.listen(({ changes }) => {
+      pendingChangesRef.current = squashRecordDiffs([pendingChangesRef.current, changes])
+      thumbnailDirtyRef.current = true
+    }, { source: 'user', scope: 'document' })
+  }, [editor])
+
+  // Viewers get tldraw's read-only mode; the server would reject their saves anyway
+  useEffect(() => {
+    editor?.updateInstanceState({ isReadonly: readOnly })
+  }, [editor, readOnly])
+
+  // Auto-save functionality
+  useEffect(() => {
+    if (!editor || readOnly) return
+
     let timeoutId: NodeJS.Timeout
 
+    // Only document edits need saving; camera and pointer changes don't
     const unsubscribe = editor.store.listen(() => {
       clearTimeout(timeoutId)
       timeoutId = setTimeout(() => {
         saveCanvas()
       }, 1000) // Debounce save by 1 second
-    })
+    }, { source: 'user', scope: 'document' })
 
     return () => {
       unsubscribe()
       clearTimeout(timeoutId)
     }
-  }, [editor, canvasId, store, storageKey])
+  }, [editor, readOnly, saveCanvas])
 
   if (loading) {
     return (
@@ -272,12 +344,13 @@ export function TldrawWrapper({ canvasId }: TldrawWrapperProps) {
           color: 'white',
           backgroundColor: 
             saveStatus === 'saved' ? '#10b981' :
-            saveStatus === 'saving' ? '#f59e0b' :
+            saveStatus === 'saving' || saveStatus === 'merging' ? '#f59e0b' :
             error || saveStatus === 'error' ? '#ef4444' : '#6b7280'
         }}>
           {saveStatus === 'saved' && `✓ Saved${canvasId ? ' to server' : ' locally'}`}
           {saveStatus === 'saving' && `⟳ ${canvasId ? 'Saving...' : 'Saving locally...'}`}
-          {(error || saveStatus === 'error') && '✗ Save failed'}
+          {saveStatus === 'merging' && '⟲ Merging changes from server...'}
+          {(error || saveStatus === 'error') && `✗ ${error || 'Save failed'}`}
         </div>
       )}
 
@@ -294,38 +367,42 @@ export function TldrawWrapper({ canvasId }: TldrawWrapperProps) {
         color: 'white'
       }}>
         {canvasId ? `Server Canvas: ${canvasId}` : 'Local Canvas'}
+        {readOnly && <ViewOnlyBadge />}
       </div>
 
-      {/* File drop zone notice */}
-      <div style={{
-        position: 'absolute',
-        bottom: 16,
-        right: 16,
-        zIndex: 1000,
-        padding: '6px 10px',
-        borderRadius: '4px',
-        fontSize: '12px',
-        backgroundColor: 'rgba(34, 197, 94, 0.9)',
-        color: 'white'
-      }}>
-        📎 Drag & drop images → R2 storage
-      </div>
+      {/* File drop zone notice and upload progress */}
+      <UploadProgress uploads={uploadProgress.uploads} error={uploadProgress.error} local={!canvasId} />
 
+      {/* Size limits are enforced by the server, which knows the user's allowance */}
       <Tldraw 
         store={store} 
-        onMount={handleMount}
+        onMount={setEditor}
+        maxAssetSize={canvasId ? Infinity : LOCAL_ASSET_MAX_SIZE}
       />
 
       <div className="absolute bottom-4 right-4 z-10 flex space-x-2">
-        <button
-          onClick={saveCanvas}
-          className={`px-4 py-2 bg-blue-500 text-white rounded ${
-            saveStatus === 'saving' ? 'bg-blue-700' : 'bg-blue-500'
-          }`}
-        >
-          Save Canvas
-        </button>
+        {readOnly && canvasId ? (
+          <DuplicateCanvasButton canvasId={canvasId} />
+        ) : (
+          <button
+            onClick={saveCanvas}
+            className={`px-4 py-2 bg-blue-500 text-white rounded ${
+              saveStatus === 'saving' ? 'bg-blue-700' : 'bg-blue-500'
+            }`}
+          >
+            Save Canvas
+          </button>
+        )}
+        {canvasId && (
+          <>
+            <ShareDialog canvasId={canvasId} />
+            {/* The export route needs a signed-in user */}
+            {signedIn && (
+              <ExportButtons editor={editor} canvasId={canvasId} beforeExport={readOnly ? undefined : saveCanvas} />
+            )}
+          </>
+        )}
       </div>
     </div>
   )
-} 
\ No newline at end of file
+}
@@ -0,0 +1,102 @@
+"use client"
+
+import { useRef, useState } from 'react'
+import type { CanvasAssetStoreOptions } from '../lib/assetStore'
+
+interface UploadState {
+  id: string
+  fileName: string
+  loaded: number
+  total: number
+}
+
+// Track asset store uploads for display; the returned options never change identity
+export function useUploadProgress() {
+  const [uploads, setUploads] = useState<UploadState[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const errorTimeoutRef = useRef<NodeJS.Timeout | undefined>(undefined)
+
+  const [options] = useState<CanvasAssetStoreOptions>(() => ({
+    onUploadStart: (id, file) => {
+      setUploads((current) => [
+        ...current.filter((upload) => upload.id !== id),
+        { id, fileName: file.name, loaded: 0, total: file.size }
+      ])
+    },
+    onUploadProgress: (id, loaded, total) => {
+      setUploads((current) => current.map((upload) =>
+        upload.id === id ? { ...upload, loaded, total } : upload))
+    },
+    onUploadEnd: (id, uploadError) => {
+      setUploads((current) => current.filter((upload) => upload.id !== id))
+      if (uploadError && uploadError.name !== 'AbortError') {
+        console.error('Asset upload error:', uploadError)
+        setError(uploadError.message || 'Failed to upload file')
+        clearTimeout(errorTimeoutRef.current)
+        errorTimeoutRef.current = setTimeout(() => setError(null), 5000)
+      }
+    }
+  }))
+
+  return { options, uploads, error }
+}
+
+interface UploadProgressProps {
+  uploads: UploadState[]
+  error?: string | null
+  local?: boolean // Files stay in this browser instead of going to storage
+}
+
+// Per-file progress in the bottom right corner of the canvas
+export function UploadProgress({ uploads, error, local }: UploadProgressProps) {
+  if (uploads.length === 0 && !error) {
+    return (
+      <div style={{
+        position: 'absolute',
+        bottom: 16,
+        right: 16,
+        zIndex: 1000,
+        padding: '6px 10px',
+        borderRadius: '4px',
+        fontSize: '12px',
+        backgroundColor: 'rgba(34, 197, 94, 0.9)',
+        color: 'white'
+      }}>
+        📎 Drop, paste or insert images → {local ? 'this browser' : 'storage'}
+      </div>
+    )
+  }
+
+  return (
+    <div style={{
+      position: 'absolute',
+      bottom: 16,
+      right: 16,
+      zIndex: 1000,
+      width: 240,
+      padding: '6px 10px',
+      borderRadius: '4px',
+      fontSize: '12px',
+      backgroundColor: error ? 'rgba(239, 68, 68, 0.9)' : 'rgba(245, 158, 11, 0.9)',
+      color: 'white'
+    }}>
+      {error && <div>✗ {error}</div>}
+      {uploads.map((upload) => {
+        const percent = upload.total > 0 ? Math.round((upload.loaded / upload.total) * 100) : 0
+        return (
+          <div key={upload.id} style={{ marginTop: 4 }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', gap: 8 }}>
+              <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                ⟳ {upload.fileName}
+              </span>
+              <span>{percent}%</span>
+            </div>
+            <div style={{ height: 4, marginTop: 2, borderRadius: 2, backgroundColor: 'rgba(255, 255, 255, 0.3)' }}>
+              <div style={{ width: `${percent}%`, height: '100%', borderRadius: 2, backgroundColor: 'white' }} />
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,75 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import type { CanvasMetadata } from "@/types/tldraw"
+
+interface DuplicateCanvasButtonProps {
+  canvasId: string
+}
+
+// Offered instead of Save to people who can only view a canvas
+export function DuplicateCanvasButton({ canvasId }: DuplicateCanvasButtonProps) {
+  const [isDuplicating, setIsDuplicating] = useState(false)
+  const [error, setError] = useState("")
+  const router = useRouter()
+
+  const handleDuplicate = async () => {
+    setIsDuplicating(true)
+    setError("")
+
+    try {
+      const response = await fetch(`${process.env.NEXT_PUBLIC_URL}/api/canvas/${canvasId}/duplicate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({})
+      })
+
+      // Guests on a share link need an account to own a copy
+      if (response.status === 401) {
+        router.push(`/auth/signin?callbackUrl=${encodeURIComponent(`/canvas/${canvasId}`)}`)
+        return
+      }
+
+      const result = await response.json()
+      if (!response.ok) {
+        setError(result.error || "Failed to duplicate canvas")
+        return
+      }
+
+      const canvas = result.data as CanvasMetadata
+      router.push(`/canvas/${canvas.id}`)
+    } catch (error) {
+      console.error("Error duplicating canvas:", error)
+      setError("Failed to duplicate canvas")
+    } finally {
+      setIsDuplicating(false)
+    }
+  }
+
+  return (
+    <button
+      onClick={handleDuplicate}
+      disabled={isDuplicating}
+      title={error || undefined}
+      className={`px-4 py-2 text-white rounded disabled:opacity-50 ${error ? "bg-red-500" : "bg-blue-500 hover:bg-blue-600"}`}
+    >
+      {isDuplicating ? "Duplicating..." : error ? "Duplicate failed, retry" : "Duplicate to my canvases"}
+    </button>
+  )
+}
+
+// Marks canvases opened with VIEW access
+export function ViewOnlyBadge() {
+  return (
+    <span style={{
+      marginLeft: 8,
+      padding: "1px 6px",
+      borderRadius: "3px",
+      backgroundColor: "#f59e0b",
+      fontWeight: 600
+    }}>
+      View only
+    </span>
+  )
+}
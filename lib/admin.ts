@@ -0,0 +1,9 @@
+// Site administrators are listed by email in ADMIN_EMAILS (comma separated)
+export function isAdminEmail(email?: string | null): boolean {
+  if (!email) return false
+  const admins = (process.env.ADMIN_EMAILS ?? '')
+    .split(',')
+    .map((admin) => admin.trim().toLowerCase())
+    .filter(Boolean)
+  return admins.includes(email.toLowerCase())
+}
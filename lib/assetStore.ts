@@ -0,0 +1,463 @@
+import type { TLAsset, TLAssetStore } from 'tldraw'
+import { MEDIA_HEADER_SIZE, matchesDeclaredType, readMediaInfo } from './mediaInfo'
+import { ASSET_FILE_ROUTE, getAssetFileUrl, pickVariantWidth } from './assetUrl'
+import type {
+  AssetUploadResponse,
+  CanvasAssetData,
+  CreateAssetRequest,
+  DeduplicatedUpload,
+  MultipartUploadPart,
+  MultipartUploadResponse,
+  PresignedUploadPart
+} from '../types/tldraw'
+
+// Attempts per step, including the first one
+const MAX_ATTEMPTS = 3
+const MAX_PART_ATTEMPTS = 5
+const RETRY_DELAY = 500 // ms, doubled after every failure
+
+// Files above this go through resumable multipart uploads (matches the server's single upload limit)
+const MULTIPART_THRESHOLD = 10 * 1024 * 1024 // 10MB
+const PART_CONCURRENCY = 3
+
+// Unfinished multipart uploads are remembered so dropping the same file again resumes them
+const RESUME_KEY_PREFIX = 'asset-upload:'
+
+// Error from one step of the upload pipeline; status is the HTTP status when there was a response
+export class AssetUploadError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message)
+    this.name = 'AssetUploadError'
+  }
+}
+
+export interface CanvasAssetStoreOptions {
+  // Called around every upload to show progress in the UI; id is the tldraw asset id
+  onUploadStart?: (id: string, file: File) => void
+  onUploadProgress?: (id: string, loaded: number, total: number) => void
+  onUploadEnd?: (id: string, error?: Error) => void
+}
+
+type ProgressCallback = (loaded: number) => void
+
+// Network failures, timeouts, rate limits and server errors are worth another attempt
+function isRetryable(error: unknown): boolean {
+  if (error instanceof DOMException && error.name === 'AbortError') return false
+  if (!(error instanceof AssetUploadError) || error.status === undefined) return true
+  return error.status === 408 || error.status === 429 || error.status >= 500
+}
+
+function abortError(): DOMException {
+  return new DOMException('Upload aborted', 'AbortError')
+}
+
+// Resolve once the browser has a network connection again
+function waitForOnline(signal?: AbortSignal): Promise<void> {
+  if (typeof navigator === 'undefined' || navigator.onLine) return Promise.resolve()
+  return new Promise((resolve, reject) => {
+    const onOnline = () => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }
+    const onAbort = () => {
+      window.removeEventListener('online', onOnline)
+      reject(abortError())
+    }
+    window.addEventListener('online', onOnline, { once: true })
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timeout)
+      reject(abortError())
+    }, { once: true })
+  })
+}
+
+async function withRetry<T>(step: () => Promise<T>, signal?: AbortSignal, attempts = MAX_ATTEMPTS): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await step()
+    } catch (error) {
+      if (attempt >= attempts || signal?.aborted || !isRetryable(error)) throw error
+      console.warn(`Asset upload step failed, retrying (${attempt}/${attempts - 1}):`, error)
+      // Time spent offline doesn't use up attempts
+      await waitForOnline(signal)
+      await wait(RETRY_DELAY * 2 ** (attempt - 1), signal)
+    }
+  }
+}
+
+// PUT a body with upload progress (fetch can't report it); resolves to the ETag header
+function putWithProgress(
+  url: string,
+  body: Blob,
+  contentType: string | null,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError())
+    const xhr = new XMLHttpRequest()
+    const onAbort = () => xhr.abort()
+    xhr.open('PUT', url)
+    if (contentType) xhr.setRequestHeader('Content-Type', contentType)
+    xhr.upload.onprogress = (event) => onProgress?.(event.loaded)
+    xhr.onload = () => {
+      signal?.removeEventListener('abort', onAbort)
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress?.(body.size)
+        resolve(xhr.getResponseHeader('ETag'))
+      } else {
+        reject(new AssetUploadError('Failed to upload to storage', xhr.status))
+      }
+    }
+    xhr.onerror = () => {
+      signal?.removeEventListener('abort', onAbort)
+      reject(new AssetUploadError('Network error while uploading'))
+    }
+    xhr.onabort = () => reject(abortError())
+    signal?.addEventListener('abort', onAbort, { once: true })
+    xhr.send(body)
+  })
+}
+
+async function postJson<T>(path: string, body: unknown, fallback: string, signal?: AbortSignal): Promise<T> {
+  const response = await fetch(`${process.env.NEXT_PUBLIC_URL}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal
+  })
+  if (!response.ok) {
+    throw await readError(response, fallback)
+  }
+  const { data } = await response.json()
+  return data
+}
+
+async function readError(response: Response, fallback: string): Promise<AssetUploadError> {
+  const errorData = await response.json().catch(() => ({}))
+  return new AssetUploadError(errorData.error || fallback, response.status)
+}
+
+// Measured details of a file, sent along when registering it
+export interface UploadedMediaInfo {
+  width?: number
+  height?: number
+  duration?: number // Seconds, videos only
+  orientation?: number // EXIF orientation, JPEG only
+  isAnimated?: boolean
+}
+
+// Read the length of a video from its metadata
+function readVideoDuration(file: File): Promise<number | undefined> {
+  return new Promise((resolve) => {
+    const video = document.createElement('video')
+    const url = URL.createObjectURL(file)
+    const done = (duration?: number) => {
+      clearTimeout(timeout)
+      URL.revokeObjectURL(url)
+      video.removeAttribute('src')
+      resolve(duration !== undefined && Number.isFinite(duration) && duration > 0 ? duration : undefined)
+    }
+    // Some containers never report metadata; don't hold the upload up for them
+    const timeout = setTimeout(() => done(), 5000)
+    video.preload = 'metadata'
+    video.muted = true
+    video.onloadedmetadata = () => done(video.duration)
+    video.onerror = () => done()
+    video.src = url
+  })
+}
+
+// Check the file's content against its type and measure it (browser only)
+export async function readFileMediaInfo(file: File): Promise<UploadedMediaInfo> {
+  // Animated GIFs can only be told apart by walking every frame; other formats say so up front
+  const bytes = file.type === 'image/gif' ? file : file.slice(0, MEDIA_HEADER_SIZE)
+  const info = readMediaInfo(new Uint8Array(await bytes.arrayBuffer()))
+  if (!matchesDeclaredType(info?.mimeType ?? null, file.type)) {
+    throw new AssetUploadError(`${file.name} is not a valid ${file.type || 'media'} file`, 422)
+  }
+
+  if (file.type.startsWith('video/')) {
+    return { duration: await readVideoDuration(file), isAnimated: true }
+  }
+  return {
+    width: info!.width,
+    height: info!.height,
+    orientation: info!.orientation,
+    isAnimated: info!.isAnimated
+  }
+}
+
+// Hex SHA-256 of the file, so the server can recognise content it already has
+export async function hashFile(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer())
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// Single request upload: presigned URL, then one PUT
+async function uploadSingle(
+  canvasId: string,
+  file: File,
+  sha256: string,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<string> {
+  // Step 1: Request a presigned upload URL
+  const upload = await withRetry(() => postJson<AssetUploadResponse | DeduplicatedUpload>('/api/assets/upload', {
+    canvasId,
+    fileName: file.name,
+    fileType: file.type,
+    fileSize: file.size,
+    sha256
+  }, 'Failed to request upload URL', signal), signal)
+  if ('deduplicated' in upload) {
+    onProgress?.(file.size)
+    return upload.uploadHandle
+  }
+
+  // Step 2: Upload the file to storage using the presigned URL
+  await withRetry(() => putWithProgress(upload.uploadUrl, file, file.type, onProgress, signal), signal)
+  return upload.uploadHandle
+}
+
+function resumeKey(canvasId: string, file: File): string {
+  return `${RESUME_KEY_PREFIX}${canvasId}:${file.name}:${file.size}:${file.lastModified}`
+}
+
+function loadResumeState(key: string): MultipartUploadResponse | null {
+  try {
+    // Uploads saved before handles were introduced can't be resumed
+    const saved = localStorage.getItem(key)
+    const upload = saved ? JSON.parse(saved) : null
+    return upload?.uploadHandle ? upload : null
+  } catch {
+    return null
+  }
+}
+
+function multipartPath(upload: MultipartUploadResponse, action = ''): string {
+  return `/api/assets/multipart/${encodeURIComponent(upload.uploadId)}${action}`
+}
+
+// GET and DELETE identify the upload by query parameters
+function multipartUrl(upload: MultipartUploadResponse, canvasId: string): string {
+  const query = new URLSearchParams({ canvasId, uploadHandle: upload.uploadHandle })
+  return `${process.env.NEXT_PUBLIC_URL}${multipartPath(upload)}?${query}`
+}
+
+// Parts already stored for an upload, or null when it no longer exists
+async function fetchUploadedParts(
+  canvasId: string,
+  upload: MultipartUploadResponse,
+  signal?: AbortSignal
+): Promise<MultipartUploadPart[] | null> {
+  const response = await fetch(multipartUrl(upload, canvasId), { signal })
+  if (response.status === 404) return null
+  if (!response.ok) {
+    throw await readError(response, 'Failed to list uploaded parts')
+  }
+  const { data } = await response.json()
+  return data
+}
+
+// Multipart upload in parts, resuming a previous attempt for the same file when there is one
+async function uploadMultipart(
+  canvasId: string,
+  file: File,
+  sha256: string,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<string> {
+  const stateKey = resumeKey(canvasId, file)
+  const partSizeOf = (upload: MultipartUploadResponse, partNumber: number) =>
+    Math.min(upload.partSize, file.size - (partNumber - 1) * upload.partSize)
+
+  // Reuse the parts that made it last time
+  const completed = new Map<number, MultipartUploadPart>()
+  let upload = loadResumeState(stateKey)
+  if (upload) {
+    const resumable = upload
+    const parts = await withRetry(() => fetchUploadedParts(canvasId, resumable, signal), signal)
+    if (parts) {
+      parts
+        .filter((part) => part.size === undefined || part.size === partSizeOf(resumable, part.partNumber))
+        .forEach((part) => completed.set(part.partNumber, part))
+    } else {
+      upload = null
+    }
+  }
+
+  if (!upload) {
+    completed.clear()
+    const started = await withRetry(() => postJson<MultipartUploadResponse | DeduplicatedUpload>('/api/assets/multipart', {
+      canvasId,
+      fileName: file.name,
+      fileType: file.type,
+      fileSize: file.size,
+      sha256
+    }, 'Failed to start multipart upload', signal), signal)
+    if ('deduplicated' in started) {
+      onProgress?.(file.size)
+      return started.uploadHandle
+    }
+    upload = started
+    localStorage.setItem(stateKey, JSON.stringify(upload))
+  }
+  const current = upload
+
+  // Progress is the completed parts plus whatever is in flight
+  const inFlight = new Map<number, number>()
+  const reportProgress = () => {
+    let loaded = 0
+    completed.forEach((part) => { loaded += partSizeOf(current, part.partNumber) })
+    inFlight.forEach((bytes) => { loaded += bytes })
+    onProgress?.(Math.min(loaded, file.size))
+  }
+  reportProgress()
+
+  const pending = Array.from({ length: current.partCount }, (_, i) => i + 1)
+    .filter((partNumber) => !completed.has(partNumber))
+
+  const uploadPart = async (partNumber: number) => {
+    const start = (partNumber - 1) * current.partSize
+    const body = file.slice(start, start + partSizeOf(current, partNumber))
+    const etag = await withRetry(async () => {
+      // Presign per attempt: URLs expire, and a retry may come much later after going offline
+      const [{ url }] = await postJson<PresignedUploadPart[]>(
+        multipartPath(current, '/parts'),
+        { canvasId, uploadHandle: current.uploadHandle, partNumbers: [partNumber] },
+        'Failed to presign upload part',
+        signal
+      )
+      return putWithProgress(url, body, null, (loaded) => {
+        inFlight.set(partNumber, loaded)
+        reportProgress()
+      }, signal)
+    }, signal, MAX_PART_ATTEMPTS)
+    inFlight.delete(partNumber)
+
+    if (!etag) {
+      throw new AssetUploadError('Storage did not return an ETag; check that the bucket exposes it via CORS')
+    }
+    completed.set(partNumber, { partNumber, etag })
+    reportProgress()
+  }
+
+  try {
+    // A few parts at a time; each worker takes the next pending part
+    await Promise.all(Array.from({ length: Math.min(PART_CONCURRENCY, pending.length) }, async () => {
+      for (let partNumber = pending.shift(); partNumber !== undefined; partNumber = pending.shift()) {
+        await uploadPart(partNumber)
+      }
+    }))
+
+    const result = await withRetry(() => postJson<{ uploadHandle: string }>(
+      multipartPath(current, '/complete'),
+      { canvasId, uploadHandle: current.uploadHandle, parts: Array.from(completed.values()) },
+      'Failed to complete multipart upload',
+      signal
+    ), signal)
+    localStorage.removeItem(stateKey)
+    return result.uploadHandle
+  } catch (error) {
+    // Cancelled uploads are discarded; failed ones are kept so the same file can resume
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      localStorage.removeItem(stateKey)
+      fetch(multipartUrl(current, canvasId), { method: 'DELETE' })
+        .catch((abortError) => console.warn('Failed to abort multipart upload:', abortError))
+    } else if (error instanceof AssetUploadError && error.status && error.status < 500) {
+      localStorage.removeItem(stateKey)
+    }
+    throw error
+  }
+}
+
+// Step 3: Register the upload as a CanvasAsset under the tldraw asset id
+function registerAsset(request: CreateAssetRequest, signal?: AbortSignal): Promise<CanvasAssetData> {
+  return postJson<CanvasAssetData>('/api/assets', request, 'Failed to register asset', signal)
+}
+
+// Upload a file for a tldraw asset and record it against the canvas (browser only)
+// Local canvases keep their files in IndexedDB instead (lib/localAssets.ts)
+export async function uploadCanvasAsset(
+  canvasId: string,
+  asset: TLAsset,
+  file: File,
+  signal?: AbortSignal,
+  onProgress?: ProgressCallback
+): Promise<{ asset: CanvasAssetData, media: UploadedMediaInfo }> {
+  const media = await readFileMediaInfo(file)
+  const sha256 = await hashFile(file)
+  // Fall back to the size tldraw measured (videos, unusual images)
+  const size = 'w' in asset.props ? asset.props : null
+
+  const uploadHandle = file.size > MULTIPART_THRESHOLD
+    ? await uploadMultipart(canvasId, file, sha256, onProgress, signal)
+    : await uploadSingle(canvasId, file, sha256, onProgress, signal)
+
+  const registered = await withRetry(() => registerAsset({
+    canvasId,
+    assetId: asset.id,
+    uploadHandle,
+    fileName: file.name,
+    fileType: file.type,
+    fileSize: file.size,
+    width: media.width ?? (size ? Math.round(size.w) : undefined),
+    height: media.height ?? (size ? Math.round(size.h) : undefined),
+    duration: media.duration,
+    sha256
+  }, signal), signal)
+
+  return { asset: registered, media }
+}
+
+// Asset store for the editor, used for drops, pastes and the image tool alike
+export function createCanvasAssetStore(
+  canvasId: string,
+  options: CanvasAssetStoreOptions = {}
+): TLAssetStore {
+  return {
+    async upload(asset, file, abortSignal) {
+      options.onUploadStart?.(asset.id, file)
+      try {
+        const { media } = await uploadCanvasAsset(
+          canvasId,
+          asset,
+          file,
+          abortSignal,
+          (loaded) => options.onUploadProgress?.(asset.id, loaded, file.size)
+        )
+        options.onUploadEnd?.(asset.id)
+        // Kept on the asset record so the editor can show them without refetching
+        const meta: Record<string, number | boolean> = {}
+        if (media.duration !== undefined) meta.duration = media.duration
+        if (media.orientation !== undefined) meta.orientation = media.orientation
+        if (media.isAnimated !== undefined) meta.isAnimated = media.isAnimated
+        // Registered assets are loaded through the permission-checked route, never the storage URL
+        return { src: getAssetFileUrl(canvasId, asset.id), meta }
+      } catch (error) {
+        options.onUploadEnd?.(asset.id, error as Error)
+        throw error
+      }
+    },
+    resolve(asset, context) {
+      const src = asset.props.src
+      if (!src?.startsWith(ASSET_FILE_ROUTE) || asset.type !== 'image' || context.shouldResolveToOriginal) {
+        return src
+      }
+      // Animations and vectors have no resized variants
+      if (asset.props.isAnimated || asset.props.mimeType === 'image/svg+xml') return src
+
+      // Load a resized copy that matches how large the image is drawn on this screen
+      const width = pickVariantWidth(asset.props.w * context.steppedScreenScale * context.dpr)
+      return width ? `${src}?w=${width}` : src
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import type { Editor } from 'tldraw'
+
+// Width of the preview shown on canvas cards
+const THUMBNAIL_WIDTH = 480
+
+// Render the current page and store it as the canvas thumbnail (browser only)
+// version is the server version the editor contents correspond to, when known
+export async function uploadCanvasThumbnail(
+  editor: Editor,
+  canvasId: string,
+  version?: number
+): Promise<void> {
+  const url = `${process.env.NEXT_PUBLIC_URL}/api/canvas/${canvasId}/thumbnail`
+  const shapeIds = Array.from(editor.getCurrentPageShapeIds())
+
+  // Nothing to render, fall back to the placeholder
+  if (shapeIds.length === 0) {
+    const response = await fetch(url, { method: 'DELETE' })
+    if (!response.ok) {
+      throw new Error('Failed to clear thumbnail')
+    }
+    return
+  }
+
+  const bounds = editor.getCurrentPageBounds()
+  const { blob } = await editor.toImage(shapeIds, {
+    format: 'png',
+    background: true,
+    padding: 16,
+    scale: bounds ? Math.min(1, THUMBNAIL_WIDTH / bounds.w) : 1,
+    pixelRatio: 1
+  })
+
+  const formData = new FormData()
+  formData.append('thumbnail', blob, 'thumbnail.png')
+  if (version !== undefined) {
+    formData.append('version', String(version))
+  }
+
+  const response = await fetch(url, { method: 'POST', body: formData })
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || 'Failed to upload thumbnail')
+  }
+}
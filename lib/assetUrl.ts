@@ -0,0 +1,34 @@
+// Asset files are served through a permission-checked route instead of permanent storage URLs
+// Shared by the server and the browser, so nothing here may touch the database or storage
+export const ASSET_FILE_ROUTE = '/api/assets/file'
+
+// Path of a canvas thumbnail, served to anyone who can view the canvas
+// The version busts caches since the stored image is overwritten in place
+export function getCanvasThumbnailUrl(canvasId: string, version: number | null): string {
+  return `/api/canvas/${encodeURIComponent(canvasId)}/thumbnail${version !== null ? `?v=${version}` : ''}`
+}
+
+// Path of an asset's file, used as the tldraw asset src
+export function getAssetFileUrl(canvasId: string, assetId: string): string {
+  return `${ASSET_FILE_ROUTE}/${encodeURIComponent(canvasId)}/${encodeURIComponent(assetId)}`
+}
+
+// Canvas and asset a src made by getAssetFileUrl points at, or null for any other src
+export function parseAssetFileUrl(src: string): { canvasId: string, assetId: string } | null {
+  if (!src.startsWith(`${ASSET_FILE_ROUTE}/`)) return null
+  const segments = src.slice(ASSET_FILE_ROUTE.length + 1).split(/[?#]/)[0].split('/')
+  if (segments.length !== 2 || !segments[0] || !segments[1]) return null
+  try {
+    return { canvasId: decodeURIComponent(segments[0]), assetId: decodeURIComponent(segments[1]) }
+  } catch {
+    return null
+  }
+}
+
+// Widths of the downscaled WebP copies made of raster images
+export const VARIANT_WIDTHS = [256, 1024, 2048]
+
+// Smallest variant that is at least as wide as the image is drawn, or undefined for the original
+export function pickVariantWidth(drawnWidth: number): number | undefined {
+  return VARIANT_WIDTHS.find((width) => width >= drawnWidth)
+}
@@ -1,15 +1,21 @@
+import { createHash } from 'crypto'
 import { prisma } from './prisma'
-import { r2Client } from './r2'
-import { 
-  PutObjectCommand, 
-  DeleteObjectCommand,
-  GetObjectCommand 
-} from '@aws-sdk/client-s3'
-import { getSignedUrl } from '@aws-sdk/s3-request-presigner'
+import { getStorage, StorageError, type StorageObject } from './storage'
+import { MEDIA_HEADER_SIZE, MediaInfo, matchesDeclaredType, readMediaInfo } from './mediaInfo'
+import { getAssetFileUrl, VARIANT_WIDTHS } from './assetUrl'
+import { RESIZABLE_TYPES, getVariantKey, parseVariants, renderImageVariants } from './imageVariants'
+import { SanitizeError, sanitizeFile } from './sanitize'
+import { shareAccessFilter } from './shareAccess'
+import { createUploadHandle, readUploadHandle } from './uploadHandle'
+import { Prisma, type CanvasAsset } from '@prisma/client'
 import type { 
   AssetUploadResponse, 
   CanvasAssetData, 
+  CanvasAssetVariant,
+  CanvasStorageUsage,
   CreateAssetRequest,
+  DeduplicatedUpload,
+  StorageUsage,
   UploadRequest,
   APIError
 } from '../types/tldraw'
@@ -22,25 +28,181 @@ export class AssetError extends Error {
   }
 }
 
-// Generate unique asset key for R2
-function generateAssetKey(canvasId: string, fileName: string): string {
+// Largest file accepted with a single presigned PUT; bigger files use multipart uploads
+export const SINGLE_UPLOAD_MAX_SIZE = 10 * 1024 * 1024 // 10MB
+
+// Per-file ceiling unless ASSET_MAX_UPLOAD_SIZE or the user's own limit says otherwise
+const DEFAULT_MAX_UPLOAD_SIZE = 100 * 1024 * 1024 // 100MB
+
+// Total size of the files on a user's canvases unless ASSET_STORAGE_QUOTA or the user's own quota says otherwise
+const DEFAULT_STORAGE_QUOTA = 1024 * 1024 * 1024 // 1GB
+
+// Largest files listed per canvas in usage reports
+const LARGEST_ASSETS_PER_CANVAS = 3
+
+// Uploads that failed sanitization are kept here, outside every canvas, for review
+const QUARANTINE_PREFIX = 'quarantine/'
+
+// Generate unique asset key for storage
+export function generateAssetKey(canvasId: string, fileName: string): string {
   const timestamp = Date.now()
   const random = Math.random().toString(36).substring(2)
   const sanitizedFileName = fileName.replace(/[^a-zA-Z0-9.-]/g, '_')
   return `canvases/${canvasId}/assets/${timestamp}_${random}_${sanitizedFileName}`
 }
 
-// Get public URL for R2 asset
-function getPublicUrl(key: string): string {
-  const domain = process.env.R2_PUBLIC_DOMAIN
-  if (!domain) {
-    throw new AssetError('R2_PUBLIC_DOMAIN not configured', 'CONFIG_ERROR')
+// Get public URL for a stored asset
+export function getPublicUrl(key: string): string {
+  try {
+    return getStorage().getPublicUrl(key)
+  } catch (error) {
+    if (error instanceof StorageError) {
+      throw new AssetError(error.message, error.code)
+    }
+    throw error
+  }
+}
+
+// Read the bytes of an uploaded object from storage
+export async function readAssetObject(key: string): Promise<Buffer> {
+  try {
+    const object = await getStorage().get(key)
+    return object.body
+  } catch (error) {
+    if (error instanceof StorageError) {
+      throw new AssetError(error.message, error.code)
+    }
+    throw error
+  }
+}
+
+// Check a client-supplied hex SHA-256
+export function isValidSha256(value: string): boolean {
+  return /^[0-9a-f]{64}$/i.test(value)
+}
+
+function hashContent(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+// Key of an already stored object with this content, so the upload can be skipped
+// Only hashes the server computed itself are recorded, so a client cannot plant content under another file's hash
+// Hashes sent by clients must pass ownerId: they only match files on that user's own canvases,
+// so knowing a hash neither reveals nor attaches anybody else's file
+export async function findStoredBlob(sha256: string, fileType: string, ownerId?: string): Promise<string | null> {
+  const asset = await prisma.canvasAsset.findFirst({
+    where: {
+      sha256: sha256.toLowerCase(),
+      fileType,
+      ...(ownerId !== undefined && { canvas: { userId: ownerId } })
+    },
+    orderBy: { createdAt: 'asc' },
+    select: { r2Key: true }
+  })
+  if (!asset) return null
+
+  // Rows can outlive their object if a storage delete went wrong
+  if (!(await getStorage().head(asset.r2Key))) return null
+  return asset.r2Key
+}
+
+// Upload details for a canvas that can reuse a stored object
+export function toDeduplicatedUpload(canvasId: string, key: string): DeduplicatedUpload {
+  return { deduplicated: true, uploadHandle: createUploadHandle(canvasId, key) }
+}
+
+// Storage key behind an upload handle issued for this canvas
+export function resolveUploadHandle(uploadHandle: string, canvasId: string): string {
+  const key = readUploadHandle(uploadHandle, canvasId)
+  if (!key) {
+    throw new AssetError('Upload handle is invalid or has expired', 'VALIDATION_ERROR')
+  }
+  return key
+}
+
+// Delete a stored object and its resized variants once no asset refers to it
+// Objects are shared between identical uploads
+export async function releaseAssetObject(key: string): Promise<boolean> {
+  const references = await prisma.canvasAsset.count({ where: { r2Key: key } })
+  if (references > 0) return false
+  const storage = getStorage()
+  await storage.delete(key)
+  await Promise.all(VARIANT_WIDTHS.map((width) => storage.delete(getVariantKey(key, width))))
+  return true
+}
+
+// Convert a CanvasAsset row for API responses
+export function toCanvasAssetData(asset: CanvasAsset): CanvasAssetData {
+  return {
+    id: asset.id,
+    assetId: asset.assetId,
+    url: getAssetFileUrl(asset.canvasId, asset.assetId), // Permission-checked, never the storage URL
+    fileName: asset.fileName,
+    fileType: asset.fileType,
+    fileSize: Number(asset.fileSize),
+    width: asset.width ?? undefined,
+    height: asset.height ?? undefined,
+    duration: asset.duration ?? undefined,
+    variants: parseVariants(asset.variants)?.map(({ r2Key, ...variant }) => variant)
+  }
+}
+
+// Point asset records that still use a storage URL at the asset file route
+// Only registered assets are rewritten; images hosted elsewhere keep their URLs
+export function toAssetFileSources<T>(
+  document: T,
+  canvasId: string,
+  assets: { assetId: string, publicUrl: string }[]
+): T {
+  const store = (document as { store?: Record<string, any> } | null)?.store
+  if (!store || assets.length === 0) return document
+
+  const storageUrls = new Map(assets.map((asset) => [asset.assetId, asset.publicUrl]))
+  const rewritten = Object.fromEntries(Object.entries(store).map(([id, record]) => {
+    if (record?.typeName !== 'asset' || storageUrls.get(record.id) !== record.props?.src) return [id, record]
+    return [id, { ...record, props: { ...record.props, src: getAssetFileUrl(canvasId, record.id) } }]
+  }))
+  return { ...document, store: rewritten }
+}
+
+// Check that file content is what its declared type says it is
+function verifyFileContent(header: Uint8Array, fileType: string): MediaInfo {
+  const info = readMediaInfo(header)
+  if (!info || !matchesDeclaredType(info.mimeType, fileType)) {
+    throw new AssetError(
+      `File content does not match its declared type (${fileType})`,
+      'CONTENT_MISMATCH'
+    )
+  }
+  return info
+}
+
+// Read back an uploaded object and verify its content, deleting it if it is not what was declared
+async function verifyUploadedObject(
+  key: string,
+  fileType: string
+): Promise<{ size: number, info: MediaInfo }> {
+  const storage = getStorage()
+  const object = await storage.head(key)
+  if (!object) {
+    throw new AssetError('Uploaded file not found in storage', 'UPLOAD_NOT_FOUND')
+  }
+
+  try {
+    const header = await storage.readHeader(key, MEDIA_HEADER_SIZE)
+    return { size: object.size, info: verifyFileContent(header, fileType) }
+  } catch (error) {
+    if (error instanceof AssetError) {
+      await storage.delete(key).catch((deleteError) => {
+        console.error('Error deleting rejected upload:', deleteError)
+      })
+    }
+    throw error
   }
-  return `https://${domain}/${key}`
 }
 
 // Validate file type for tldraw assets
-function validateFileType(fileType: string): boolean {
+export function validateFileType(fileType: string): boolean {
   const allowedTypes = [
     'image/jpeg',
     'image/jpg', 
@@ -55,10 +217,127 @@ function validateFileType(fileType: string): boolean {
   return allowedTypes.includes(fileType.toLowerCase())
 }
 
-// Validate file size (10MB limit)
-function validateFileSize(fileSize: number): boolean {
-  const maxSize = 10 * 1024 * 1024 // 10MB in bytes
-  return fileSize <= maxSize
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024 * 1024
+    ? `${Math.round(bytes / (1024 * 1024 * 1024) * 10) / 10}GB`
+    : `${Math.round(bytes / (1024 * 1024))}MB`
+}
+
+// Largest file the user may upload: their own limit, then the configured default
+export async function getMaxUploadSize(userId: string): Promise<number> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { maxUploadSize: true }
+  })
+  if (user?.maxUploadSize) return Number(user.maxUploadSize)
+
+  const configured = Number(process.env.ASSET_MAX_UPLOAD_SIZE)
+  return configured > 0 ? configured : DEFAULT_MAX_UPLOAD_SIZE
+}
+
+// Validate file size against the user's limit
+export async function validateFileSize(userId: string, fileSize: number): Promise<void> {
+  const maxSize = await getMaxUploadSize(userId)
+  if (fileSize > maxSize) {
+    throw new AssetError(
+      `File size exceeds ${formatSize(maxSize)} limit`,
+      'FILE_TOO_LARGE'
+    )
+  }
+}
+
+// Storage the user's canvases may use in total: their own quota, then the configured default
+export async function getStorageQuota(userId: string): Promise<number> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { storageQuota: true }
+  })
+  if (user?.storageQuota) return Number(user.storageQuota)
+  const configured = Number(process.env.ASSET_STORAGE_QUOTA)
+  return configured > 0 ? configured : DEFAULT_STORAGE_QUOTA
+}
+
+// Bytes stored on the user's own canvases; a file shared by several assets counts for each
+export async function getStorageUsed(userId: string): Promise<number> {
+  const result = await prisma.canvasAsset.aggregate({
+    where: { canvas: { userId } },
+    _sum: { fileSize: true }
+  })
+  return Number(result._sum.fileSize ?? 0)
+}
+
+// Files count against the canvas owner's quota, whoever uploads them
+export async function validateStorageQuota(canvasId: string, fileSize: number): Promise<void> {
+  const canvas = await prisma.canvas.findUnique({
+    where: { id: canvasId },
+    select: { userId: true }
+  })
+  if (!canvas) return // Permission checks report missing canvases
+
+  const [quota, used] = await Promise.all([getStorageQuota(canvas.userId), getStorageUsed(canvas.userId)])
+  if (used + fileSize > quota) {
+    throw new AssetError(
+      `Storage quota of ${formatSize(quota)} exceeded (${formatSize(used)} used)`,
+      'QUOTA_EXCEEDED'
+    )
+  }
+}
+
+// Storage used by the user's canvases, largest first, with each canvas's largest files
+export async function getStorageUsage(userId: string): Promise<StorageUsage> {
+  try {
+    const [quotaBytes, canvases, totals] = await Promise.all([
+      getStorageQuota(userId),
+      prisma.canvas.findMany({
+        where: { userId },
+        select: { id: true, name: true }
+      }),
+      prisma.canvasAsset.groupBy({
+        by: ['canvasId'],
+        where: { canvas: { userId } },
+        _sum: { fileSize: true },
+        _count: { _all: true }
+      })
+    ])
+
+    const names = new Map(canvases.map((canvas) => [canvas.id, canvas.name]))
+    const usage = totals
+      .map((total) => ({
+        canvasId: total.canvasId,
+        name: names.get(total.canvasId) ?? 'Untitled',
+        usedBytes: Number(total._sum.fileSize ?? 0),
+        assetCount: total._count._all
+      }))
+      .sort((a, b) => b.usedBytes - a.usedBytes)
+
+    const canvasUsage: CanvasStorageUsage[] = await Promise.all(usage.map(async (canvas) => {
+      const largest = await prisma.canvasAsset.findMany({
+        where: { canvasId: canvas.canvasId },
+        orderBy: { fileSize: 'desc' },
+        take: LARGEST_ASSETS_PER_CANVAS,
+        select: { id: true, assetId: true, fileName: true, fileType: true, fileSize: true }
+      })
+      return {
+        ...canvas,
+        largestAssets: largest.map((asset) => ({
+          id: asset.id,
+          fileName: asset.fileName,
+          fileType: asset.fileType,
+          fileSize: Number(asset.fileSize),
+          url: getAssetFileUrl(canvas.canvasId, asset.assetId)
+        }))
+      }
+    }))
+
+    return {
+      usedBytes: usage.reduce((total, canvas) => total + canvas.usedBytes, 0),
+      quotaBytes,
+      canvases: canvasUsage
+    }
+  } catch (error) {
+    console.error('Error getting storage usage:', error)
+    throw new AssetError('Failed to get storage usage')
+  }
 }
 
 // Request upload URL for asset
@@ -66,7 +345,7 @@ export async function requestAssetUpload(
   userId: string,
   canvasId: string,
   uploadRequest: UploadRequest
-): Promise<AssetUploadResponse> {
+): Promise<AssetUploadResponse | DeduplicatedUpload> {
   try {
     // Validate file type and size
     if (!validateFileType(uploadRequest.fileType)) {
@@ -76,10 +355,11 @@ export async function requestAssetUpload(
       )
     }
 
-    if (!validateFileSize(uploadRequest.fileSize)) {
+    await validateFileSize(userId, uploadRequest.fileSize)
+    if (uploadRequest.fileSize > SINGLE_UPLOAD_MAX_SIZE) {
       throw new AssetError(
-        'File size exceeds 10MB limit',
-        'FILE_TOO_LARGE'
+        `Files over ${formatSize(SINGLE_UPLOAD_MAX_SIZE)} must use a multipart upload`,
+        'MULTIPART_REQUIRED'
       )
     }
 
@@ -104,32 +384,32 @@ export async function requestAssetUpload(
     if (!canvas) {
       throw new AssetError('Canvas not found or insufficient permissions', 'PERMISSION_DENIED')
     }
+    await validateStorageQuota(canvasId, uploadRequest.fileSize)
+
+    // Nothing to upload if the user already stored the same file on one of their canvases
+    if (uploadRequest.sha256) {
+      const storedKey = await findStoredBlob(uploadRequest.sha256, uploadRequest.fileType, userId)
+      if (storedKey) return toDeduplicatedUpload(canvasId, storedKey)
+    }
 
-    // Generate unique key for R2
+    // Generate unique key for storage
     const key = generateAssetKey(canvasId, uploadRequest.fileName)
-    const publicUrl = getPublicUrl(key)
 
     // Generate presigned URL for upload
-    const putCommand = new PutObjectCommand({
-      Bucket: process.env.R2_BUCKET_NAME,
-      Key: key,
-      ContentType: uploadRequest.fileType,
-      ContentLength: uploadRequest.fileSize,
-      Metadata: {
+    const uploadUrl = await getStorage().presignPut(key, {
+      contentType: uploadRequest.fileType,
+      contentLength: uploadRequest.fileSize,
+      metadata: {
         canvasId,
         userId,
         originalName: uploadRequest.fileName
-      }
-    })
-
-    const uploadUrl = await getSignedUrl(r2Client!, putCommand, {
+      },
       expiresIn: 3600 // 1 hour
     })
 
     return {
       uploadUrl,
-      publicUrl,
-      key
+      uploadHandle: createUploadHandle(canvasId, key)
     }
   } catch (error) {
     if (error instanceof AssetError) throw error
@@ -138,6 +418,163 @@ export async function requestAssetUpload(
   }
 }
 
+// Upload file contents from the server (e.g. assets embedded in imported files)
+export async function uploadAssetContent(
+  userId: string,
+  canvasId: string,
+  assetId: string,
+  file: { fileName: string, fileType: string, data: Buffer, duration?: number }
+): Promise<CanvasAssetData> {
+  try {
+    if (!validateFileType(file.fileType)) {
+      throw new AssetError(
+        'Unsupported file type. Supported: JPEG, PNG, GIF, SVG, WebP, MP4, WebM, MOV',
+        'INVALID_FILE_TYPE'
+      )
+    }
+
+    await validateFileSize(userId, file.data.length)
+    await validateStorageQuota(canvasId, file.data.length)
+
+    // Reject mislabeled content before it reaches storage
+    verifyFileContent(file.data, file.fileType)
+
+    // Reuse an identical stored file instead of writing another copy
+    const sha256 = hashContent(file.data)
+    const storedKey = await findStoredBlob(sha256, file.fileType)
+    const key = storedKey ?? generateAssetKey(canvasId, file.fileName)
+    if (!storedKey) {
+      await getStorage().put(key, file.data, {
+        contentType: file.fileType,
+        metadata: {
+          canvasId,
+          userId,
+          originalName: file.fileName
+        }
+      })
+    }
+
+    try {
+      return await createAssetRecord(userId, {
+        canvasId,
+        assetId,
+        uploadHandle: createUploadHandle(canvasId, key),
+        fileName: file.fileName,
+        fileType: file.fileType,
+        fileSize: file.data.length,
+        duration: file.duration,
+        sha256
+      })
+    } catch (error) {
+      // Don't keep a file nothing refers to
+      await releaseAssetObject(key).catch((storageError) => {
+        console.error('Error removing unregistered upload:', storageError)
+      })
+      throw error
+    }
+  } catch (error) {
+    if (error instanceof AssetError) throw error
+    console.error('Error uploading asset content:', error)
+    throw new AssetError('Failed to upload asset')
+  }
+}
+
+// Replace an upload with a copy without scripts or private metadata, returning its size
+// The hash recorded for it stays that of the original upload, so re-uploads still deduplicate
+// Files that cannot be cleaned are moved aside under quarantine/ for review
+async function sanitizeUploadedObject(key: string, fileType: string, object: StorageObject): Promise<number> {
+  const storage = getStorage()
+  let cleaned: Buffer
+  try {
+    cleaned = sanitizeFile(object.body, fileType)
+  } catch (error) {
+    if (!(error instanceof SanitizeError)) throw error
+    await storage.put(`${QUARANTINE_PREFIX}${key}`, object.body, {
+      contentType: object.info.contentType ?? fileType,
+      metadata: { ...object.info.metadata, quarantineReason: error.message }
+    })
+    await storage.delete(key)
+    throw new AssetError(`File was rejected and quarantined: ${error.message}`, 'QUARANTINED')
+  }
+
+  if (!cleaned.equals(object.body)) {
+    await storage.put(key, cleaned, {
+      contentType: object.info.contentType ?? fileType,
+      metadata: object.info.metadata
+    })
+  }
+  return cleaned.length
+}
+
+// Record fields for a file uploaded to this canvas's own key
+async function describeUploadedObject(request: CreateAssetRequest, uploadedKey: string, sha256?: string) {
+  // Trust the stored object over what the client reported
+  const { info } = await verifyUploadedObject(uploadedKey, request.fileType)
+  const object = await getStorage().get(uploadedKey)
+  const storedHash = hashContent(object.body)
+  if (sha256 && storedHash !== sha256) {
+    await getStorage().delete(uploadedKey).catch((deleteError) => {
+      console.error('Error deleting rejected upload:', deleteError)
+    })
+    throw new AssetError('File content does not match its checksum', 'CONTENT_MISMATCH')
+  }
+
+  // Another upload of the same file may have finished first; keep only one copy
+  // The bytes were uploaded and hashed here, so any identical object can be shared
+  let r2Key = uploadedKey
+  const storedKey = await findStoredBlob(storedHash, request.fileType)
+  if (storedKey && storedKey !== r2Key && await prisma.canvasAsset.count({ where: { r2Key } }) === 0) {
+    await getStorage().delete(r2Key).catch((deleteError) => {
+      console.error('Error deleting duplicate upload:', deleteError)
+    })
+    r2Key = storedKey
+  }
+
+  // A blob stored before was cleaned when it was first registered
+  const size = r2Key === uploadedKey
+    ? await sanitizeUploadedObject(r2Key, request.fileType, object)
+    : Number((await getStorage().head(r2Key))?.size ?? object.body.length)
+
+  return {
+    canvasId: request.canvasId,
+    assetId: request.assetId,
+    r2Key,
+    publicUrl: getPublicUrl(r2Key),
+    fileName: request.fileName,
+    fileType: request.fileType,
+    fileSize: BigInt(size),
+    width: info.width ?? request.width ?? null,
+    height: info.height ?? request.height ?? null,
+    duration: info.mimeType.startsWith('video/') ? request.duration ?? null : null,
+    sha256: storedHash
+  }
+}
+
+// Record fields for a file that was deduplicated against an object stored for another asset
+// Only reached with a handle the server issued for this canvas when it offered the stored object
+async function describeSharedObject(request: CreateAssetRequest, sharedKey: string) {
+  const source = await prisma.canvasAsset.findFirst({
+    where: { r2Key: sharedKey, fileType: request.fileType }
+  })
+  if (!source) {
+    throw new AssetError('Stored file no longer exists, upload it again', 'VALIDATION_ERROR')
+  }
+
+  return {
+    canvasId: request.canvasId,
+    assetId: request.assetId,
+    r2Key: source.r2Key,
+    publicUrl: source.publicUrl,
+    fileName: request.fileName,
+    fileType: source.fileType,
+    fileSize: source.fileSize,
+    width: source.width,
+    height: source.height,
+    duration: source.duration,
+    sha256: source.sha256
+  }
+}
+
 // Create asset record after successful upload
 export async function createAssetRecord(
   userId: string,
@@ -166,28 +603,37 @@ export async function createAssetRecord(
       throw new AssetError('Canvas not found or insufficient permissions', 'PERMISSION_DENIED')
     }
 
-    // Create asset record in database
-    const asset = await prisma.canvasAsset.create({
-      data: {
-        canvasId: request.canvasId,
-        assetId: request.assetId,
-        r2Key: request.r2Key,
-        publicUrl: request.publicUrl,
-        fileName: request.fileName,
-        fileType: request.fileType,
-        fileSize: BigInt(request.fileSize)
-      }
+    // Registration is retried by clients, so keep one record per tldraw asset
+    const existing = await prisma.canvasAsset.findFirst({
+      where: { canvasId: request.canvasId, assetId: request.assetId }
     })
+    // A retry of a registration that already went through, possibly onto a shared object
+    const sha256 = request.sha256?.toLowerCase()
+    if (existing && sha256 && existing.sha256 === sha256) {
+      return toCanvasAssetData(existing)
+    }
 
-    return {
-      id: asset.id,
-      assetId: asset.assetId,
-      r2Key: asset.r2Key,
-      publicUrl: asset.publicUrl,
-      fileName: asset.fileName,
-      fileType: asset.fileType,
-      fileSize: Number(asset.fileSize)
+    const key = resolveUploadHandle(request.uploadHandle, request.canvasId)
+    const data = key.startsWith(`canvases/${request.canvasId}/`)
+      ? await describeUploadedObject(request, key, sha256)
+      : await describeSharedObject(request, key)
+
+    // Variants belong to the stored file, so they are redone when the asset points at another one
+    const asset = existing
+      ? await prisma.canvasAsset.update({
+          where: { id: existing.id },
+          data: existing.r2Key === data.r2Key ? data : { ...data, variants: Prisma.DbNull }
+        })
+      : await prisma.canvasAsset.create({ data })
+
+    // The asset may have pointed at another object before
+    if (existing && existing.r2Key !== asset.r2Key) {
+      await releaseAssetObject(existing.r2Key).catch((storageError) => {
+        console.error('Error releasing replaced asset object:', storageError)
+      })
     }
+
+    return toCanvasAssetData(asset)
   } catch (error) {
     if (error instanceof AssetError) throw error
     console.error('Error creating asset record:', error)
@@ -195,7 +641,7 @@ export async function createAssetRecord(
   }
 }
 
-// Delete asset from R2 and database
+// Delete asset from storage and database
 export async function deleteAsset(
   userId: string,
   assetId: string
@@ -229,22 +675,18 @@ export async function deleteAsset(
       throw new AssetError('Insufficient permissions to delete asset', 'PERMISSION_DENIED')
     }
 
-    // Delete from R2
-    try {
-      const deleteCommand = new DeleteObjectCommand({
-        Bucket: process.env.R2_BUCKET_NAME,
-        Key: asset.r2Key
-      })
-      await r2Client!.send(deleteCommand)
-    } catch (r2Error) {
-      console.error('Error deleting from R2:', r2Error)
-      // Continue with database deletion even if R2 deletion fails
-    }
-
     // Delete from database
     await prisma.canvasAsset.delete({
       where: { id: assetId }
     })
+
+    // Delete from storage unless other assets share the file
+    try {
+      await releaseAssetObject(asset.r2Key)
+    } catch (storageError) {
+      console.error('Error deleting from storage:', storageError)
+      // The record is gone either way; the object is left for cleanup
+    }
   } catch (error) {
     if (error instanceof AssetError) throw error
     console.error('Error deleting asset:', error)
@@ -252,6 +694,49 @@ export async function deleteAsset(
   }
 }
 
+// Create the resized variants of an asset and record them on every asset sharing its file
+// Best effort: failures are logged and the original keeps being served
+export async function createAssetVariants(id: string): Promise<CanvasAssetVariant[]> {
+  try {
+    const asset = await prisma.canvasAsset.findUnique({ where: { id } })
+    if (!asset || !RESIZABLE_TYPES.includes(asset.fileType)) return []
+
+    const existing = parseVariants(asset.variants)
+    if (existing) return existing
+
+    // Identical uploads share one object, so they can share its variants too
+    const shared = await prisma.canvasAsset.findFirst({
+      where: { r2Key: asset.r2Key, variants: { not: Prisma.AnyNull } },
+      select: { variants: true }
+    })
+    const variants = parseVariants(shared?.variants ?? null) ?? await renderImageVariants(asset.r2Key, asset.fileType)
+
+    // An empty list marks images that were checked and need no variants
+    await prisma.canvasAsset.updateMany({
+      where: { r2Key: asset.r2Key },
+      data: { variants: variants as unknown as Prisma.InputJsonValue }
+    })
+    return variants
+  } catch (error) {
+    console.error(`Error creating image variants for asset ${id}:`, error)
+    return []
+  }
+}
+
+// Create variants for every image of a canvas that has none yet, e.g. after an import
+export async function createMissingVariants(canvasId: string): Promise<number> {
+  const assets = await prisma.canvasAsset.findMany({
+    where: { canvasId, fileType: { in: RESIZABLE_TYPES }, variants: { equals: Prisma.AnyNull } },
+    select: { id: true }
+  })
+
+  let created = 0
+  for (const asset of assets) {
+    if ((await createAssetVariants(asset.id)).length > 0) created++
+  }
+  return created
+}
+
 // Get asset by asset ID (for tldraw asset resolution)
 export async function getAssetByAssetId(
   userId: string,
@@ -268,7 +753,7 @@ export async function getAssetByAssetId(
           { isPublic: true }, // Public canvas
           { 
             shares: {
-              some: { userId }
+              some: shareAccessFilter(userId)
             }
           } // Has any shared access
         ]
@@ -291,15 +776,7 @@ export async function getAssetByAssetId(
       return null
     }
 
-    return {
-      id: asset.id,
-      assetId: asset.assetId,
-      r2Key: asset.r2Key,
-      publicUrl: asset.publicUrl,
-      fileName: asset.fileName,
-      fileType: asset.fileType,
-      fileSize: Number(asset.fileSize)
-    }
+    return toCanvasAssetData(asset)
   } catch (error) {
     console.error('Error getting asset by asset ID:', error)
     return null
@@ -321,7 +798,7 @@ export async function listCanvasAssets(
           { isPublic: true }, // Public canvas
           { 
             shares: {
-              some: { userId }
+              some: shareAccessFilter(userId)
             }
           } // Has any shared access
         ]
@@ -337,15 +814,7 @@ export async function listCanvasAssets(
       throw new AssetError('Canvas not found or access denied', 'NOT_FOUND')
     }
 
-    return canvas.assets.map((asset: any) => ({
-      id: asset.id,
-      assetId: asset.assetId,
-      r2Key: asset.r2Key,
-      publicUrl: asset.publicUrl,
-      fileName: asset.fileName,
-      fileType: asset.fileType,
-      fileSize: Number(asset.fileSize)
-    }))
+    return canvas.assets.map(toCanvasAssetData)
   } catch (error) {
     if (error instanceof AssetError) throw error
     console.error('Error listing canvas assets:', error)
@@ -353,70 +822,12 @@ export async function listCanvasAssets(
   }
 }
 
-// Clean up orphaned assets (assets not referenced in any canvas document)
-export async function cleanupOrphanedAssets(canvasId: string): Promise<number> {
-  try {
-    // Get canvas document to find referenced assets
-    const canvas = await prisma.canvas.findUnique({
-      where: { id: canvasId },
-      include: { assets: true }
-    })
-
-    if (!canvas) {
-      throw new AssetError('Canvas not found', 'NOT_FOUND')
-    }
-
-    // Extract asset IDs from tldraw document
-    const documentData = canvas.documentData as any
-    const referencedAssetIds = new Set<string>()
-    
-    if (documentData && typeof documentData === 'object') {
-      Object.values(documentData).forEach((record: any) => {
-        if (record && record.props && record.props.assetId) {
-          referencedAssetIds.add(record.props.assetId)
-        }
-      })
-    }
-
-    // Find orphaned assets (assets in DB but not in document)
-    const orphanedAssets = canvas.assets.filter(
-      asset => !referencedAssetIds.has(asset.assetId)
-    )
-
-    // Delete orphaned assets
-    let deletedCount = 0
-    for (const asset of orphanedAssets) {
-      try {
-        // Delete from R2
-        const deleteCommand = new DeleteObjectCommand({
-          Bucket: process.env.R2_BUCKET_NAME,
-          Key: asset.r2Key
-        })
-        await r2Client!.send(deleteCommand)
-
-        // Delete from database
-        await prisma.canvasAsset.delete({
-          where: { id: asset.id }
-        })
-
-        deletedCount++
-      } catch (error) {
-        console.error(`Failed to delete orphaned asset ${asset.id}:`, error)
-      }
-    }
-
-    return deletedCount
-  } catch (error) {
-    if (error instanceof AssetError) throw error
-    console.error('Error cleaning up orphaned assets:', error)
-    throw new AssetError('Failed to cleanup orphaned assets')
-  }
-}
-
-// Get download URL for asset (for private access)
+// Get a short-lived download URL for an asset; permanent storage URLs are never handed out
+// With width, the smallest resized variant at least that wide is used when there is one
 export async function getAssetDownloadUrl(
   userId: string,
-  assetId: string
+  assetId: string,
+  options: { expiresIn?: number, width?: number } = {}
 ): Promise<string> {
   try {
     // Find asset and verify permissions
@@ -426,7 +837,7 @@ export async function getAssetDownloadUrl(
         canvas: {
           include: {
             shares: {
-              where: { userId }
+              where: shareAccessFilter(userId)
             }
           }
         }
@@ -446,17 +857,12 @@ export async function getAssetDownloadUrl(
       throw new AssetError('Insufficient permissions to access asset', 'PERMISSION_DENIED')
     }
 
-    // Generate presigned download URL
-    const getCommand = new GetObjectCommand({
-      Bucket: process.env.R2_BUCKET_NAME,
-      Key: asset.r2Key
-    })
+    const variant = options.width
+      ? parseVariants(asset.variants)?.find((candidate) => candidate.width >= options.width!)
+      : undefined
 
-    const downloadUrl = await getSignedUrl(r2Client!, getCommand, {
-      expiresIn: 3600 // 1 hour
-    })
-
-    return downloadUrl
+    // Generate presigned download URL
+    return await getStorage().presignGet(variant?.r2Key ?? asset.r2Key, options.expiresIn ?? 3600) // 1 hour by default
   } catch (error) {
     if (error instanceof AssetError) throw error
     console.error('Error getting asset download URL:', error)
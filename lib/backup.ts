@@ -0,0 +1,282 @@
+import { zipSync, unzipSync, strToU8, strFromU8 } from 'fflate'
+import { prisma } from './prisma'
+import { CanvasError, checkCanvasPermission, createCanvas, saveCanvas, shareCanvas, toCanvasThumbnailUrl } from './canvas'
+import { AssetError, readAssetObject, toAssetFileSources, uploadAssetContent } from './assets'
+import { getAssetFileUrl } from './assetUrl'
+import type { TLRecord } from 'tldraw'
+import type {
+  CanvasMetadata,
+  CanvasBackupAsset,
+  CanvasBackupManifest,
+  CanvasBackupShare,
+  CanvasRestoreResult,
+  PermissionLevel
+} from '../types/tldraw'
+
+// Bumped whenever the archive layout changes
+export const BACKUP_FORMAT_VERSION = 1
+
+// Restores read the whole archive into memory
+export const BACKUP_MAX_SIZE = 200 * 1024 * 1024 // 200MB
+
+// Limits on what an archive may unpack to, checked before anything is inflated
+// Asset binaries are mostly compressed already, so real backups unpack to about their own size
+const BACKUP_MAX_ENTRY_SIZE = BACKUP_MAX_SIZE
+const BACKUP_MAX_UNPACKED_SIZE = 2 * BACKUP_MAX_SIZE
+
+const BACKUP_JSON_FILES = new Set(['manifest.json', 'metadata.json', 'document.json', 'shares.json', 'assets.json'])
+const BACKUP_ASSET_PATH = /^assets\/[^/]+$/
+
+// Archive layout:
+//   manifest.json  format version and counts
+//   metadata.json  CanvasMetadata
+//   document.json  stored tldraw snapshot
+//   shares.json    shares keyed by user email
+//   assets.json    CanvasAsset rows with their path in the archive
+//   assets/...     asset binaries
+export interface CanvasBackup {
+  fileName: string
+  data: Buffer
+}
+
+function toJson(value: unknown): Uint8Array {
+  return strToU8(JSON.stringify(value, null, 2))
+}
+
+function readJson<T>(files: Record<string, Uint8Array>, path: string): T {
+  const file = files[path]
+  if (!file) {
+    throw new CanvasError(`Backup is missing ${path}`, 'INVALID_BACKUP')
+  }
+  try {
+    return JSON.parse(strFromU8(file)) as T
+  } catch {
+    throw new CanvasError(`Backup contains an invalid ${path}`, 'INVALID_BACKUP')
+  }
+}
+
+// Unzip a backup, refusing entries outside the archive layout and oversized contents
+function unpackBackup(archive: Buffer): Record<string, Uint8Array> {
+  let unpackedSize = 0
+  try {
+    return unzipSync(new Uint8Array(archive), {
+      filter(file) {
+        if (!BACKUP_JSON_FILES.has(file.name) && !BACKUP_ASSET_PATH.test(file.name)) {
+          throw new CanvasError(`Backup contains an unexpected file: ${file.name}`, 'INVALID_BACKUP')
+        }
+        // Stored entries are copied at their compressed size, inflated ones at their declared size
+        const size = Math.max(file.size, file.originalSize)
+        unpackedSize += size
+        if (size > BACKUP_MAX_ENTRY_SIZE || unpackedSize > BACKUP_MAX_UNPACKED_SIZE) {
+          throw new CanvasError('Backup contents are too large', 'INVALID_BACKUP')
+        }
+        return true
+      }
+    })
+  } catch (error) {
+    if (error instanceof CanvasError) throw error
+    throw new CanvasError('Backup is not a valid zip archive', 'INVALID_BACKUP')
+  }
+}
+
+// Create a zip archive with everything needed to recreate a canvas
+export async function createCanvasBackup(
+  userId: string,
+  canvasId: string
+): Promise<CanvasBackup> {
+  try {
+    // Backups include the share list, so they are limited to canvas admins
+    const hasPermission = await checkCanvasPermission(userId, canvasId, 'ADMIN')
+    if (!hasPermission) {
+      throw new CanvasError('Insufficient permissions to back up canvas', 'PERMISSION_DENIED')
+    }
+
+    const canvas = await prisma.canvas.findUnique({
+      where: { id: canvasId },
+      include: {
+        assets: { orderBy: { createdAt: 'asc' } },
+        shares: {
+          where: { userId: { not: null } },
+          include: { user: { select: { email: true } } }
+        }
+      }
+    })
+
+    if (!canvas) {
+      throw new CanvasError('Canvas not found', 'NOT_FOUND')
+    }
+
+    const metadata: CanvasMetadata = {
+      id: canvas.id,
+      name: canvas.name,
+      description: canvas.description || undefined,
+      thumbnailUrl: toCanvasThumbnailUrl(canvas),
+      isPublic: canvas.isPublic,
+      createdAt: canvas.createdAt,
+      updatedAt: canvas.updatedAt,
+      version: canvas.version,
+      userId: canvas.userId
+    }
+
+    const shares: CanvasBackupShare[] = canvas.shares
+      .filter((share) => share.user)
+      .map((share) => ({
+        userEmail: share.user!.email,
+        permissionLevel: share.permissionLevel as PermissionLevel,
+        createdAt: share.createdAt
+      }))
+
+    const files: Record<string, Uint8Array> = {}
+    const assets: CanvasBackupAsset[] = []
+    for (const asset of canvas.assets) {
+      const path = `assets/${asset.id}_${asset.fileName.replace(/[^a-zA-Z0-9.-]/g, '_')}`
+      files[path] = await readAssetObject(asset.r2Key)
+      assets.push({
+        assetId: asset.assetId,
+        fileName: asset.fileName,
+        fileType: asset.fileType,
+        fileSize: Number(asset.fileSize),
+        width: asset.width ?? undefined,
+        height: asset.height ?? undefined,
+        duration: asset.duration ?? undefined,
+        path
+      })
+    }
+
+    const manifest: CanvasBackupManifest = {
+      formatVersion: BACKUP_FORMAT_VERSION,
+      createdAt: new Date(),
+      canvasId: canvas.id,
+      assetCount: assets.length,
+      shareCount: shares.length
+    }
+
+    files['manifest.json'] = toJson(manifest)
+    files['metadata.json'] = toJson(metadata)
+    // Documents link to assets by asset id, never by storage URL
+    files['document.json'] = toJson(toAssetFileSources(canvas.documentData, canvas.id, canvas.assets))
+    files['shares.json'] = toJson(shares)
+    files['assets.json'] = toJson(assets)
+
+    // Binaries are usually compressed already
+    const data = zipSync(files, { level: 6 })
+    const date = manifest.createdAt.toISOString().slice(0, 10)
+    return {
+      fileName: `canvas-${canvas.id}-${date}.zip`,
+      data: Buffer.from(data)
+    }
+  } catch (error) {
+    if (error instanceof CanvasError) throw error
+    console.error('Error creating canvas backup:', error)
+    throw new CanvasError('Failed to create canvas backup')
+  }
+}
+
+// Point asset records at their new uploads
+function rewriteAssetSources(
+  document: Record<string, any>,
+  replacements: Map<string, string>,
+  urlReplacements: Map<string, string>
+): Record<string, any> {
+  const store = document?.store
+  if (!store) return document
+
+  const rewritten = Object.fromEntries(Object.entries(store).map(([id, record]: [string, any]) => {
+    if (record?.typeName !== 'asset') return [id, record]
+    const src = replacements.get(record.id) ?? urlReplacements.get(record.props?.src)
+    return [id, src ? { ...record, props: { ...record.props, src } } : record]
+  }))
+  return { ...document, store: rewritten }
+}
+
+// Recreate a canvas from a backup archive, owned by the restoring user
+export async function restoreCanvasBackup(
+  userId: string,
+  archive: Buffer,
+  options: { restoreShares?: boolean } = {}
+): Promise<CanvasRestoreResult> {
+  const files = unpackBackup(archive)
+
+  const manifest = readJson<CanvasBackupManifest>(files, 'manifest.json')
+  if (manifest.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new CanvasError('Backup was created by a newer version of the app', 'INVALID_BACKUP')
+  }
+  const metadata = readJson<CanvasMetadata>(files, 'metadata.json')
+  const document = readJson<Record<string, any>>(files, 'document.json')
+  const shares = readJson<CanvasBackupShare[]>(files, 'shares.json')
+  const assets = readJson<CanvasBackupAsset[]>(files, 'assets.json')
+
+  const missing = assets.find((asset) => !files[asset.path])
+  if (missing) {
+    throw new CanvasError(`Backup is missing ${missing.path}`, 'INVALID_BACKUP')
+  }
+
+  let canvasId: string | null = null
+  try {
+    const canvas = await createCanvas(userId, metadata.name, metadata.description, metadata.isPublic)
+    canvasId = canvas.id
+
+    // Upload binaries under the new canvas and remember where they went
+    const replacements = new Map<string, string>()
+    const urlReplacements = new Map<string, string>()
+    for (const asset of assets) {
+      const uploaded = await uploadAssetContent(userId, canvasId, asset.assetId, {
+        fileName: asset.fileName,
+        fileType: asset.fileType,
+        data: Buffer.from(files[asset.path]),
+        duration: asset.duration
+      })
+      const src = getAssetFileUrl(canvasId, uploaded.assetId)
+      replacements.set(asset.assetId, src)
+      if (asset.publicUrl) urlReplacements.set(asset.publicUrl, src)
+    }
+
+    let restored = canvas
+    if (document?.store) {
+      restored = await saveCanvas(
+        userId,
+        canvasId,
+        rewriteAssetSources(document, replacements, urlReplacements) as Record<string, TLRecord>
+      )
+    }
+
+    // Shares are matched to existing users by email
+    let restoredShares = 0
+    const skippedShares: string[] = []
+    if (options.restoreShares !== false) {
+      for (const share of shares) {
+        const user = await prisma.user.findUnique({
+          where: { email: share.userEmail },
+          select: { id: true }
+        })
+        if (!user || user.id === userId) {
+          if (!user) skippedShares.push(share.userEmail)
+          continue
+        }
+        await shareCanvas(userId, canvasId, user.id, share.permissionLevel)
+        restoredShares++
+      }
+    }
+
+    return {
+      canvas: restored,
+      restoredAssets: assets.length,
+      restoredShares,
+      skippedShares
+    }
+  } catch (error) {
+    // Don't leave half-restored canvases behind
+    if (canvasId) {
+      await prisma.canvas.delete({ where: { id: canvasId } }).catch((cleanupError) => {
+        console.error('Error removing failed restore:', cleanupError)
+      })
+    }
+
+    if (error instanceof CanvasError) throw error
+    if (error instanceof AssetError) {
+      throw new CanvasError(`Failed to restore asset: ${error.message}`, error.code)
+    }
+    console.error('Error restoring canvas backup:', error)
+    throw new CanvasError('Failed to restore canvas backup')
+  }
+}
@@ -1,3 +1,5 @@
+import { randomBytes } from 'crypto'
+import bcrypt from 'bcryptjs'
 import { prisma } from './prisma'
 import type { 
   TldrawSnapshot, 
@@ -7,18 +9,40 @@ import type {
   CanvasListResponse,
   CanvasListItem,
   PermissionLevel,
-  CanvasShareData
+  CanvasShareData,
+  CanvasLinkShareData,
+  CanvasSharesResponse,
+  CreateLinkShareRequest,
+  LinkShareInfo,
+  LinkShareRedemption,
+  CanvasVersionData,
+  CanvasVersionDetail,
+  CanvasVersionListResponse,
+  CanvasRecordsDiff
 } from '../types/tldraw'
-import { TLRecord } from 'tldraw'
+import { createTLSchema } from 'tldraw'
+import type { TLRecord, SerializedSchema, StoreSnapshot } from 'tldraw'
+import { recordCanvasVersion, pruneCanvasVersions } from './versions'
+import { toAssetFileSources, getStorageQuota, getStorageUsed } from './assets'
+import { getAssetFileUrl, getCanvasThumbnailUrl, parseAssetFileUrl } from './assetUrl'
+import { shareAccessFilter, createLinkGrant } from './shareAccess'
+import type { CanvasShare, Prisma } from '@prisma/client'
 
 // Error class for canvas operations
 export class CanvasError extends Error {
-  constructor(message: string, public code?: string) {
+  constructor(message: string, public code?: string, public currentVersion?: number) {
     super(message)
     this.name = 'CanvasError'
   }
 }
 
+// Thumbnails go through their permission-checked route, whatever URL older rows stored
+export function toCanvasThumbnailUrl(
+  canvas: { id: string, thumbnailUrl: string | null, thumbnailVersion: number | null }
+): string | undefined {
+  return canvas.thumbnailUrl ? getCanvasThumbnailUrl(canvas.id, canvas.thumbnailVersion) : undefined
+}
+
 // Create a new canvas
 export async function createCanvas(
   userId: string,
@@ -35,7 +59,14 @@ export async function createCanvas(
         userId,
         documentData: {},
         sessionData: {},
-        version: 1
+        version: 1,
+        versions: {
+          create: {
+            version: 1,
+            documentData: {},
+            createdBy: userId
+          }
+        }
       }
     })
 
@@ -43,7 +74,7 @@ export async function createCanvas(
       id: canvas.id,
       name: canvas.name,
       description: canvas.description || undefined,
-      thumbnailUrl: canvas.thumbnailUrl || undefined,
+      thumbnailUrl: toCanvasThumbnailUrl(canvas),
       isPublic: canvas.isPublic,
       createdAt: canvas.createdAt,
       updatedAt: canvas.updatedAt,
@@ -56,6 +87,17 @@ export async function createCanvas(
   }
 }
 
+// Drop live presence (cursors, selections, viewports); it belongs to sessions, not the document
+function withoutPresence(document: Record<string, TLRecord>): Record<string, TLRecord> {
+  const snapshot = document as unknown as Partial<StoreSnapshot<TLRecord>>
+  if (!snapshot?.store) return document
+
+  const store = Object.fromEntries(
+    Object.entries(snapshot.store).filter(([, record]) => record.typeName !== 'instance_presence')
+  )
+  return { ...snapshot, store } as unknown as Record<string, TLRecord>
+}
+
 // Save canvas data
 export async function saveCanvas(
   userId: string,
@@ -63,7 +105,8 @@ export async function saveCanvas(
   document: Record<string, TLRecord>,
   session?: Record<string, TLRecord>,
   name?: string,
-  description?: string
+  description?: string,
+  expectedVersion?: number
 ): Promise<CanvasMetadata> {
   try {
     // Check if user has permission to edit this canvas
@@ -72,23 +115,64 @@ export async function saveCanvas(
       throw new CanvasError('Insufficient permissions to save canvas', 'PERMISSION_DENIED')
     }
 
-    // Update canvas with new data and increment version
-    const canvas = await prisma.canvas.update({
-      where: { id: canvasId },
-      data: {
-        documentData: document as any, // Prisma Json type
+    // Update canvas with new data, increment version and keep a history snapshot
+    const documentData = withoutPresence(document)
+    const canvas = await prisma.$transaction(async (tx) => {
+      const data = {
+        documentData: documentData as any, // Prisma Json type
         sessionData: session as any,
         ...(name && { name }),
         ...(description !== undefined && { description }),
         version: { increment: 1 }
       }
+
+      let updated
+      if (expectedVersion !== undefined) {
+        // Only apply the save if nobody else saved since the client loaded
+        const { count } = await tx.canvas.updateMany({
+          where: { id: canvasId, version: expectedVersion },
+          data
+        })
+
+        if (count === 0) {
+          const current = await tx.canvas.findUnique({
+            where: { id: canvasId },
+            select: { version: true }
+          })
+          if (!current) {
+            throw new CanvasError('Canvas not found', 'NOT_FOUND')
+          }
+          throw new CanvasError(
+            `Canvas has been modified since version ${expectedVersion}`,
+            'CONFLICT',
+            current.version
+          )
+        }
+
+        updated = await tx.canvas.findUniqueOrThrow({ where: { id: canvasId } })
+      } else {
+        updated = await tx.canvas.update({
+          where: { id: canvasId },
+          data
+        })
+      }
+
+      await recordCanvasVersion(tx, canvasId, updated.version, documentData, userId)
+      return updated
     })
 
+    // Thin out old history; a failure here must not fail the save
+    try {
+      await pruneCanvasVersions(canvasId)
+    } catch (pruneError) {
+      console.error('Error pruning canvas versions:', pruneError)
+    }
+
     return {
       id: canvas.id,
       name: canvas.name,
       description: canvas.description || undefined,
-      thumbnailUrl: canvas.thumbnailUrl || undefined,
+      thumbnailUrl: toCanvasThumbnailUrl(canvas),
       isPublic: canvas.isPublic,
       createdAt: canvas.createdAt,
       updatedAt: canvas.updatedAt,
@@ -102,6 +186,122 @@ export async function saveCanvas(
   }
 }
 
+// Check whether two serialized tldraw schemas describe the same migration state
+function isSameSchema(a: SerializedSchema, b: SerializedSchema): boolean {
+  if (!('sequences' in a) || !('sequences' in b)) return false
+  const aKeys = Object.keys(a.sequences)
+  const bKeys = Object.keys(b.sequences)
+  return aKeys.length === bKeys.length &&
+    aKeys.every(key => a.sequences[key] === b.sequences[key])
+}
+
+// Schema of this tldraw version, used to check records sent by clients
+const tlSchema = createTLSchema()
+
+// Check one client-sent record: stored under its own id, of a known type and valid once migrated
+function validateRecord(id: string, record: unknown, schema: SerializedSchema): void {
+  const candidate = record as TLRecord | null
+  if (!candidate || typeof candidate !== 'object' || candidate.id !== id) {
+    throw new CanvasError(`Record ${id} does not match its id`, 'INVALID_RECORD')
+  }
+  if (!tlSchema.types[candidate.typeName]) {
+    throw new CanvasError(`Record ${id} has an unknown type`, 'INVALID_RECORD')
+  }
+
+  try {
+    const migrated = tlSchema.migratePersistedRecord(candidate, schema)
+    if (migrated.type === 'error') {
+      throw new Error(migrated.reason)
+    }
+    tlSchema.types[migrated.value.typeName].validate(migrated.value)
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error)
+    throw new CanvasError(`Record ${id} is invalid: ${reason}`, 'INVALID_RECORD')
+  }
+}
+
+// Malformed records would break loading, exports and live rooms for everyone, so refuse them up front
+function validateRecordsDiff(changes: CanvasRecordsDiff, schema: SerializedSchema): void {
+  Object.entries(changes.added).forEach(([id, record]) => validateRecord(id, record, schema))
+  Object.entries(changes.updated).forEach(([id, update]) => {
+    if (!Array.isArray(update) || update.length !== 2) {
+      throw new CanvasError(`Update of ${id} must be a [from, to] pair`, 'INVALID_RECORD')
+    }
+    validateRecord(id, update[1], schema)
+  })
+}
+
+// Apply record-level changes to a canvas, based on the version the client last saw
+export async function applyCanvasDiff(
+  userId: string,
+  canvasId: string,
+  changes: CanvasRecordsDiff,
+  baseVersion: number,
+  schema: SerializedSchema
+): Promise<CanvasMetadata> {
+  try {
+    // Check if user has permission to edit this canvas
+    const hasPermission = await checkCanvasPermission(userId, canvasId, 'EDIT')
+    if (!hasPermission) {
+      throw new CanvasError('Insufficient permissions to save canvas', 'PERMISSION_DENIED')
+    }
+
+    const canvas = await prisma.canvas.findUnique({
+      where: { id: canvasId },
+      select: { documentData: true, version: true }
+    })
+
+    if (!canvas) {
+      throw new CanvasError('Canvas not found', 'NOT_FOUND')
+    }
+
+    if (canvas.version !== baseVersion) {
+      throw new CanvasError(
+        `Canvas has been modified since version ${baseVersion}`,
+        'CONFLICT',
+        canvas.version
+      )
+    }
+
+    // Diffs can only be applied on top of a full snapshot in the same schema
+    const snapshot = canvas.documentData as unknown as Partial<StoreSnapshot<TLRecord>>
+    if (!snapshot?.store || !snapshot.schema || !isSameSchema(snapshot.schema, schema)) {
+      throw new CanvasError(
+        'Stored document requires a full snapshot save',
+        'SCHEMA_MISMATCH'
+      )
+    }
+
+    validateRecordsDiff(changes, schema)
+
+    const records: Record<string, TLRecord> = { ...snapshot.store }
+    Object.values(changes.added).forEach(record => {
+      records[record.id] = record
+    })
+    Object.values(changes.updated).forEach(([, record]) => {
+      records[record.id] = record
+    })
+    Object.keys(changes.removed).forEach(id => {
+      delete records[id]
+    })
+
+    // saveCanvas re-checks the version atomically in case of a concurrent save
+    return await saveCanvas(
+      userId,
+      canvasId,
+      { store: records, schema } as unknown as Record<string, TLRecord>,
+      undefined,
+      undefined,
+      undefined,
+      baseVersion
+    )
+  } catch (error) {
+    if (error instanceof CanvasError) throw error
+    console.error('Error applying canvas diff:', error)
+    throw new CanvasError('Failed to save canvas changes')
+  }
+}
+
 // Load canvas data
 export async function loadCanvas(
   userId: string,
@@ -109,8 +309,8 @@ export async function loadCanvas(
 ): Promise<LoadCanvasResponse> {
   try {
     // Check if user has permission to view this canvas
-    const hasPermission = await checkCanvasPermission(userId, canvasId, 'VIEW')
-    if (!hasPermission) {
+    const permission = await getCanvasPermission(userId, canvasId)
+    if (!permission) {
       throw new CanvasError('Canvas not found or access denied', 'NOT_FOUND')
     }
 
@@ -130,7 +330,7 @@ export async function loadCanvas(
       id: canvas.id,
       name: canvas.name,
       description: canvas.description || undefined,
-      thumbnailUrl: canvas.thumbnailUrl || undefined,
+      thumbnailUrl: toCanvasThumbnailUrl(canvas),
       isPublic: canvas.isPublic,
       createdAt: canvas.createdAt,
       updatedAt: canvas.updatedAt,
@@ -141,18 +341,21 @@ export async function loadCanvas(
     const assets = canvas.assets.map((asset: any) => ({
       id: asset.id,
       assetId: asset.assetId,
-      r2Key: asset.r2Key,
-      publicUrl: asset.publicUrl,
+      url: getAssetFileUrl(canvasId, asset.assetId), // Permission-checked, never the storage URL
       fileName: asset.fileName,
       fileType: asset.fileType,
-      fileSize: Number(asset.fileSize) // Convert BigInt to number
+      fileSize: Number(asset.fileSize), // Convert BigInt to number
+      width: asset.width ?? undefined,
+      height: asset.height ?? undefined,
+      duration: asset.duration ?? undefined
     }))
 
     return {
-      document: canvas.documentData as unknown as Record<string, TLRecord>,
+      document: toAssetFileSources(canvas.documentData, canvasId, canvas.assets) as unknown as Record<string, TLRecord>,
       session: canvas.sessionData as unknown as Record<string, TLRecord> || undefined,
       metadata,
-      assets
+      assets,
+      permission
     }
   } catch (error) {
     if (error instanceof CanvasError) throw error
@@ -161,6 +364,112 @@ export async function loadCanvas(
   }
 }
 
+// Point a copied document's registered assets at the copy, whose records share the stored files
+function toDuplicateSources<T>(
+  document: T,
+  sourceCanvasId: string,
+  canvasId: string,
+  assets: { assetId: string, publicUrl: string }[]
+): T {
+  const store = (document as { store?: Record<string, any> } | null)?.store
+  if (!store || assets.length === 0) return document
+
+  const storageUrls = new Map(assets.map((asset) => [asset.assetId, asset.publicUrl]))
+  const rewritten = Object.fromEntries(Object.entries(store).map(([id, record]) => {
+    const src = record?.typeName === 'asset' ? record.props?.src : undefined
+    if (typeof src !== 'string' || !storageUrls.has(record.id)) return [id, record]
+    if (src !== storageUrls.get(record.id) && parseAssetFileUrl(src)?.canvasId !== sourceCanvasId) return [id, record]
+    return [id, { ...record, props: { ...record.props, src: getAssetFileUrl(canvasId, record.id) } }]
+  }))
+  return { ...document, store: rewritten }
+}
+
+// Copy a canvas the user can see into their own canvases
+// Files are shared with the original rather than copied, but count against the new owner's quota
+export async function duplicateCanvas(
+  userId: string,
+  canvasId: string,
+  name?: string
+): Promise<CanvasMetadata> {
+  try {
+    const permission = await getCanvasPermission(userId, canvasId)
+    if (!permission) {
+      throw new CanvasError('Canvas not found or access denied', 'NOT_FOUND')
+    }
+
+    const source = await prisma.canvas.findUnique({
+      where: { id: canvasId },
+      include: { assets: true }
+    })
+    if (!source) {
+      throw new CanvasError('Canvas not found', 'NOT_FOUND')
+    }
+
+    const [quota, used] = await Promise.all([getStorageQuota(userId), getStorageUsed(userId)])
+    const fileSize = source.assets.reduce((total, asset) => total + Number(asset.fileSize), 0)
+    if (used + fileSize > quota) {
+      throw new CanvasError('Not enough storage left to duplicate this canvas', 'QUOTA_EXCEEDED')
+    }
+
+    const canvas = await prisma.$transaction(async (tx) => {
+      const created = await tx.canvas.create({
+        data: {
+          name: name || `${source.name} (copy)`,
+          description: source.description,
+          isPublic: false,
+          userId,
+          documentData: {},
+          sessionData: {},
+          version: 1
+        }
+      })
+
+      await tx.canvasAsset.createMany({
+        data: source.assets.map(({ id, createdAt, variants, ...asset }) => ({
+          ...asset,
+          variants: variants ?? undefined,
+          canvasId: created.id
+        }))
+      })
+
+      const documentData = toDuplicateSources(
+        source.documentData as Prisma.JsonObject,
+        canvasId,
+        created.id,
+        source.assets
+      )
+      await tx.canvasVersion.create({
+        data: {
+          canvasId: created.id,
+          version: 1,
+          documentData,
+          createdBy: userId
+        }
+      })
+      return tx.canvas.update({
+        where: { id: created.id },
+        data: { documentData }
+      })
+    })
+
+    return {
+      id: canvas.id,
+      name: canvas.name,
+      description: canvas.description || undefined,
+      thumbnailUrl: toCanvasThumbnailUrl(canvas),
+      isPublic: canvas.isPublic,
+      createdAt: canvas.createdAt,
+      updatedAt: canvas.updatedAt,
+      version: canvas.version,
+      userId: canvas.userId
+    }
+  } catch (error) {
+    if (error instanceof CanvasError) throw error
+    console.error('Error duplicating canvas:', error)
+    throw new CanvasError('Failed to duplicate canvas')
+  }
+}
+
 // List canvases for a user
 export async function listCanvases(
   userId: string,
@@ -211,7 +520,7 @@ export async function listCanvases(
         id: canvas.id,
         name: canvas.name,
         description: canvas.description || undefined,
-        thumbnailUrl: canvas.thumbnailUrl || undefined,
+        thumbnailUrl: toCanvasThumbnailUrl(canvas),
         isPublic: canvas.isPublic,
         updatedAt: canvas.updatedAt,
         version: canvas.version,
@@ -250,23 +559,57 @@ export async function deleteCanvas(userId: string, canvasId: string): Promise<vo
   }
 }
 
+// Owners and ADMIN collaborators manage sharing; returns the canvas and whether userId owns it
+export async function getSharingCanvas(userId: string, canvasId: string) {
+  const canvas = await prisma.canvas.findUnique({
+    where: { id: canvasId },
+    include: { shares: { where: { userId } } }
+  })
+
+  if (!canvas) {
+    throw new CanvasError('Canvas not found or access denied', 'NOT_FOUND')
+  }
+  if (canvas.userId === userId) {
+    return { canvas, isOwner: true }
+  }
+
+  const share = canvas.shares[0]
+  if (share?.permissionLevel === 'ADMIN') {
+    return { canvas, isOwner: false }
+  }
+  if (share || canvas.isPublic) {
+    throw new CanvasError('Only the owner and admins can manage sharing', 'PERMISSION_DENIED')
+  }
+  throw new CanvasError('Canvas not found or access denied', 'NOT_FOUND')
+}
+
+// Admins may grant and revoke VIEW and EDIT access; ADMIN access is up to the owner
+export function assertCanManageShareLevel(isOwner: boolean, ...levels: (string | undefined)[]): void {
+  if (!isOwner && levels.includes('ADMIN')) {
+    throw new CanvasError('Only the owner can grant or remove ADMIN access', 'PERMISSION_DENIED')
+  }
+}
+
 // Share canvas with another user
 export async function shareCanvas(
-  ownerId: string,
+  userId: string,
   canvasId: string,
   targetUserId: string,
   permissionLevel: PermissionLevel
 ): Promise<CanvasShareData> {
   try {
-    // Check if current user owns this canvas
-    const canvas = await prisma.canvas.findUnique({
-      where: { id: canvasId, userId: ownerId }
-    })
+    // Owners and ADMIN collaborators manage sharing
+    const { canvas, isOwner } = await getSharingCanvas(userId, canvasId)
 
-    if (!canvas) {
-      throw new CanvasError('Canvas not found or access denied', 'NOT_FOUND')
+    if (targetUserId === canvas.userId) {
+      throw new CanvasError('The owner already has full access', 'VALIDATION_ERROR')
     }
 
+    const existing = await prisma.canvasShare.findUnique({
+      where: { canvasId_userId: { canvasId, userId: targetUserId } }
+    })
+    assertCanManageShareLevel(isOwner, permissionLevel, existing?.permissionLevel)
+
     // Create or update share
     const share = await prisma.canvasShare.upsert({
       where: {
@@ -282,7 +625,7 @@ export async function shareCanvas(
         canvasId,
         userId: targetUserId,
         permissionLevel,
-        sharedBy: ownerId
+        sharedBy: userId
       }
     })
 
@@ -303,28 +646,25 @@ export async function shareCanvas(
 
 // Remove canvas share
 export async function removeCanvasShare(
-  ownerId: string,
+  userId: string,
   canvasId: string,
   targetUserId: string
 ): Promise<void> {
   try {
-    // Check if current user owns this canvas
-    const canvas = await prisma.canvas.findUnique({
-      where: { id: canvasId, userId: ownerId }
-    })
+    // Owners and ADMIN collaborators manage sharing
+    const { isOwner } = await getSharingCanvas(userId, canvasId)
 
-    if (!canvas) {
-      throw new CanvasError('Canvas not found or access denied', 'NOT_FOUND')
+    const share = await prisma.canvasShare.findUnique({
+      where: { canvasId_userId: { canvasId, userId: targetUserId } }
+    })
+    if (!share) {
+      throw new CanvasError('Share not found', 'NOT_FOUND')
     }
+    assertCanManageShareLevel(isOwner, share.permissionLevel)
 
     // Remove share
     await prisma.canvasShare.delete({
-      where: {
-        canvasId_userId: {
-          canvasId,
-          userId: targetUserId
-        }
-      }
+      where: { id: share.id }
     })
   } catch (error) {
     if (error instanceof CanvasError) throw error
@@ -333,63 +673,145 @@ export async function removeCanvasShare(
   }
 }
 
-// Check if user has permission to access a canvas
-export async function checkCanvasPermission(
-  userId: string,
+// Hand a canvas to another user; the previous owner stays on as an ADMIN collaborator
+// Its files move to the new owner's storage quota
+export async function transferCanvasOwnership(
+  ownerId: string,
   canvasId: string,
-  requiredLevel: PermissionLevel
-): Promise<boolean> {
+  newOwnerEmail: string
+): Promise<CanvasMetadata> {
+  try {
+    const { isOwner } = await getSharingCanvas(ownerId, canvasId)
+    if (!isOwner) {
+      throw new CanvasError('Only the owner can transfer a canvas', 'PERMISSION_DENIED')
+    }
+
+    const newOwner = await prisma.user.findFirst({
+      where: { email: { equals: newOwnerEmail.trim(), mode: 'insensitive' } },
+      select: { id: true }
+    })
+    if (!newOwner) {
+      throw new CanvasError('No user with that email address', 'NOT_FOUND')
+    }
+    if (newOwner.id === ownerId) {
+      throw new CanvasError('You already own this canvas', 'VALIDATION_ERROR')
+    }
+
+    const [quota, used, canvasFiles] = await Promise.all([
+      getStorageQuota(newOwner.id),
+      getStorageUsed(newOwner.id),
+      prisma.canvasAsset.aggregate({ where: { canvasId }, _sum: { fileSize: true } })
+    ])
+    if (used + Number(canvasFiles._sum.fileSize ?? 0) > quota) {
+      throw new CanvasError('The new owner does not have enough storage for this canvas', 'QUOTA_EXCEEDED')
+    }
+
+    const [, canvas] = await prisma.$transaction([
+      // The new owner's own share would be redundant
+      prisma.canvasShare.deleteMany({
+        where: { canvasId, userId: newOwner.id }
+      }),
+      prisma.canvas.update({
+        where: { id: canvasId, userId: ownerId },
+        data: { userId: newOwner.id }
+      }),
+      prisma.canvasShare.upsert({
+        where: {
+          canvasId_userId: {
+            canvasId,
+            userId: ownerId
+          }
+        },
+        update: {
+          permissionLevel: 'ADMIN'
+        },
+        create: {
+          canvasId,
+          userId: ownerId,
+          permissionLevel: 'ADMIN',
+          sharedBy: newOwner.id
+        }
+      })
+    ])
+
+    return {
+      id: canvas.id,
+      name: canvas.name,
+      description: canvas.description || undefined,
+      thumbnailUrl: toCanvasThumbnailUrl(canvas),
+      isPublic: canvas.isPublic,
+      createdAt: canvas.createdAt,
+      updatedAt: canvas.updatedAt,
+      version: canvas.version,
+      userId: canvas.userId
+    }
+  } catch (error) {
+    if (error instanceof CanvasError) throw error
+    console.error('Error transferring canvas ownership:', error)
+    throw new CanvasError('Failed to transfer canvas')
+  }
+}
+
+// Permission hierarchy: ADMIN > EDIT > VIEW
+const PERMISSION_RANK: Record<PermissionLevel, number> = { 'VIEW': 1, 'EDIT': 2, 'ADMIN': 3 }
+
+// Get the effective permission a user has on a canvas (null if no access)
+export async function getCanvasPermission(
+  userId: string,
+  canvasId: string
+): Promise<PermissionLevel | null> {
   try {
     const canvas = await prisma.canvas.findUnique({
       where: { id: canvasId },
       include: {
         shares: {
-          where: { userId }
+          where: shareAccessFilter(userId)
         }
       }
     })
 
-    if (!canvas) return false
+    if (!canvas) return null
 
     // Owner has all permissions
-    if (canvas.userId === userId) return true
+    if (canvas.userId === userId) return 'ADMIN'
 
-    // Public canvases allow VIEW access
-    if (canvas.isPublic && requiredLevel === 'VIEW') return true
-
-    // Check shared permissions
+    // Shared permissions
     const share = canvas.shares[0]
-    if (!share) return false
+    if (share) return share.permissionLevel as PermissionLevel
 
-    // Permission hierarchy: ADMIN > EDIT > VIEW
-    const permissionLevels = { 'VIEW': 1, 'EDIT': 2, 'ADMIN': 3 }
-    const userLevel = permissionLevels[share.permissionLevel as PermissionLevel]
-    const requiredLevelValue = permissionLevels[requiredLevel]
+    // Public canvases allow VIEW access
+    if (canvas.isPublic) return 'VIEW'
 
-    return userLevel >= requiredLevelValue
+    return null
   } catch (error) {
-    console.error('Error checking canvas permission:', error)
-    return false
+    console.error('Error getting canvas permission:', error)
+    return null
   }
 }
 
-// Get canvas shares (for owners)
+// Check if user has permission to access a canvas
+export async function checkCanvasPermission(
+  userId: string,
+  canvasId: string,
+  requiredLevel: PermissionLevel
+): Promise<boolean> {
+  const permission = await getCanvasPermission(userId, canvasId)
+  if (!permission) return false
+
+  return PERMISSION_RANK[permission] >= PERMISSION_RANK[requiredLevel]
+}
+
+// Get canvas shares (for owners and admins)
 export async function getCanvasShares(
-  ownerId: string,
+  userId: string,
   canvasId: string
 ): Promise<CanvasShareData[]> {
   try {
-    // Check if current user owns this canvas
-    const canvas = await prisma.canvas.findUnique({
-      where: { id: canvasId, userId: ownerId }
-    })
-
-    if (!canvas) {
-      throw new CanvasError('Canvas not found or access denied', 'NOT_FOUND')
-    }
+    // Owners and ADMIN collaborators manage sharing
+    await getSharingCanvas(userId, canvasId)
 
     const shares = await prisma.canvasShare.findMany({
-      where: { canvasId },
+      where: { canvasId, token: null },
       include: {
         user: {
           select: { id: true, email: true, name: true }
@@ -401,6 +823,9 @@ export async function getCanvasShares(
       id: share.id,
       canvasId: share.canvasId,
       userId: share.userId || undefined,
+      email: share.user?.email ?? share.inviteEmail ?? undefined,
+      name: share.user?.name || undefined,
+      pending: !share.userId,
       permissionLevel: share.permissionLevel as PermissionLevel,
       sharedBy: share.sharedBy,
       createdAt: share.createdAt
@@ -410,4 +835,443 @@ export async function getCanvasShares(
     console.error('Error getting canvas shares:', error)
     throw new CanvasError('Failed to get canvas shares')
   }
-} 
\ No newline at end of file
+}
+
+// Everything the share dialog shows: owner, visibility, shares and links
+export async function getCanvasSharing(
+  userId: string,
+  canvasId: string
+): Promise<CanvasSharesResponse> {
+  try {
+    const { canvas, isOwner } = await getSharingCanvas(userId, canvasId)
+
+    const [owner, shares, links] = await Promise.all([
+      prisma.user.findUniqueOrThrow({
+        where: { id: canvas.userId },
+        select: { id: true, name: true, email: true }
+      }),
+      getCanvasShares(userId, canvasId),
+      getCanvasLinkShares(userId, canvasId)
+    ])
+
+    return {
+      owner: { id: owner.id, name: owner.name || undefined, email: owner.email },
+      isOwner,
+      isPublic: canvas.isPublic,
+      shares,
+      links
+    }
+  } catch (error) {
+    if (error instanceof CanvasError) throw error
+    console.error('Error getting canvas sharing:', error)
+    throw new CanvasError('Failed to get canvas sharing')
+  }
+}
+
+// Make a canvas viewable by anyone with its link, or private again
+export async function setCanvasPublic(
+  userId: string,
+  canvasId: string,
+  isPublic: boolean
+): Promise<void> {
+  try {
+    // Owners and ADMIN collaborators manage sharing
+    await getSharingCanvas(userId, canvasId)
+
+    await prisma.canvas.update({
+      where: { id: canvasId },
+      data: { isPublic }
+    })
+  } catch (error) {
+    if (error instanceof CanvasError) throw error
+    console.error('Error updating canvas visibility:', error)
+    throw new CanvasError('Failed to update canvas visibility')
+  }
+}
+
+// Convert a link share row for API responses
+function toLinkShareData(share: CanvasShare): CanvasLinkShareData {
+  return {
+    id: share.id,
+    canvasId: share.canvasId,
+    token: share.token!,
+    url: `${process.env.NEXT_PUBLIC_URL ?? ''}/s/${share.token}`,
+    permissionLevel: share.permissionLevel as PermissionLevel,
+    sharedBy: share.sharedBy,
+    createdAt: share.createdAt,
+    expiresAt: share.expiresAt ?? undefined,
+    hasPasscode: share.passcodeHash !== null,
+    maxUses: share.maxUses ?? undefined,
+    useCount: share.useCount
+  }
+}
+
+// Create a link that gives anyone who opens it access to the canvas
+export async function createLinkShare(
+  userId: string,
+  canvasId: string,
+  options: CreateLinkShareRequest
+): Promise<CanvasLinkShareData> {
+  try {
+    // Owners and ADMIN collaborators manage sharing
+    await getSharingCanvas(userId, canvasId)
+
+    const share = await prisma.canvasShare.create({
+      data: {
+        canvasId,
+        permissionLevel: options.permissionLevel,
+        sharedBy: userId,
+        token: randomBytes(24).toString('base64url'),
+        expiresAt: options.expiresAt ? new Date(options.expiresAt) : null,
+        passcodeHash: options.passcode ? await bcrypt.hash(options.passcode, 10) : null,
+        maxUses: options.maxUses ?? null
+      }
+    })
+
+    return toLinkShareData(share)
+  } catch (error) {
+    if (error instanceof CanvasError) throw error
+    console.error('Error creating link share:', error)
+    throw new CanvasError('Failed to create share link')
+  }
+}
+
+// Get canvas link shares (for owners and admins)
+export async function getCanvasLinkShares(
+  userId: string,
+  canvasId: string
+): Promise<CanvasLinkShareData[]> {
+  try {
+    // Owners and ADMIN collaborators manage sharing
+    await getSharingCanvas(userId, canvasId)
+
+    const shares = await prisma.canvasShare.findMany({
+      where: { canvasId, token: { not: null } },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return shares.map(toLinkShareData)
+  } catch (error) {
+    if (error instanceof CanvasError) throw error
+    console.error('Error getting link shares:', error)
+    throw new CanvasError('Failed to get share links')
+  }
+}
+
+// Revoke a link; users who already redeemed it keep their own share
+export async function revokeLinkShare(
+  userId: string,
+  canvasId: string,
+  shareId: string
+): Promise<void> {
+  try {
+    // Owners and ADMIN collaborators manage sharing
+    await getSharingCanvas(userId, canvasId)
+
+    const { count } = await prisma.canvasShare.deleteMany({
+      where: { id: shareId, canvasId, token: { not: null } }
+    })
+
+    if (count === 0) {
+      throw new CanvasError('Share link not found', 'NOT_FOUND')
+    }
+  } catch (error) {
+    if (error instanceof CanvasError) throw error
+    console.error('Error revoking link share:', error)
+    throw new CanvasError('Failed to revoke share link')
+  }
+}
+
+// Link passcodes can be guessed by anyone with the link, so wrong ones lock it for a while
+export const PASSCODE_MIN_LENGTH = 8
+const PASSCODE_MAX_ATTEMPTS = 5
+const PASSCODE_LOCKOUT = 15 * 60 * 1000 // 15 minutes, doubling with each further lockout
+const PASSCODE_MAX_LOCKOUT = 24 * 60 * 60 * 1000 // 1 day
+
+// Count a wrong passcode, locking the link after every PASSCODE_MAX_ATTEMPTS of them
+async function recordFailedPasscode(shareId: string): Promise<void> {
+  const { failedAttempts } = await prisma.canvasShare.update({
+    where: { id: shareId },
+    data: { failedAttempts: { increment: 1 } },
+    select: { failedAttempts: true }
+  })
+  if (failedAttempts % PASSCODE_MAX_ATTEMPTS !== 0) return
+
+  const lockouts = failedAttempts / PASSCODE_MAX_ATTEMPTS
+  const duration = Math.min(PASSCODE_LOCKOUT * 2 ** (lockouts - 1), PASSCODE_MAX_LOCKOUT)
+  await prisma.canvasShare.update({
+    where: { id: shareId },
+    data: { lockedUntil: new Date(Date.now() + duration) }
+  })
+}
+
+// Find a link share that has not been revoked or expired
+async function findLinkShare(token: string) {
+  const share = await prisma.canvasShare.findUnique({
+    where: { token },
+    include: { canvas: { select: { name: true } } }
+  })
+
+  if (!share) {
+    throw new CanvasError('Share link not found or revoked', 'NOT_FOUND')
+  }
+  if (share.expiresAt && share.expiresAt <= new Date()) {
+    throw new CanvasError('Share link has expired', 'LINK_EXPIRED')
+  }
+  return share
+}
+
+// Details shown on a link's landing page
+export async function getLinkShareInfo(token: string): Promise<LinkShareInfo> {
+  try {
+    const share = await findLinkShare(token)
+    return {
+      canvasId: share.canvasId,
+      canvasName: share.canvas.name,
+      permissionLevel: share.permissionLevel as PermissionLevel,
+      requiresPasscode: share.passcodeHash !== null,
+      expiresAt: share.expiresAt ?? undefined
+    }
+  } catch (error) {
+    if (error instanceof CanvasError) throw error
+    console.error('Error getting link share:', error)
+    throw new CanvasError('Failed to get share link')
+  }
+}
+
+// Redeem a link for a signed-in user (who gets a share of their own) or a guest (VIEW links only)
+// userId is null for guests, who get a signed grant for the link cookie instead
+// Signed-in users who already have the access it grants are let through without using it up
+export async function redeemLinkShare(
+  token: string,
+  userId: string | null,
+  passcode?: string
+): Promise<LinkShareRedemption & { grant?: string }> {
+  try {
+    const share = await findLinkShare(token)
+    const permissionLevel = share.permissionLevel as PermissionLevel
+    const guest = !userId
+    const redemption = { canvasId: share.canvasId, permissionLevel, guest }
+
+    const current = userId ? await getCanvasPermission(userId, share.canvasId) : null
+    if (current && PERMISSION_RANK[current] >= PERMISSION_RANK[permissionLevel]) {
+      return redemption
+    }
+
+    if (share.maxUses !== null && share.useCount >= share.maxUses) {
+      throw new CanvasError('Share link has been used the maximum number of times', 'LINK_EXHAUSTED')
+    }
+
+    if (share.passcodeHash) {
+      if (share.lockedUntil && share.lockedUntil > new Date()) {
+        throw new CanvasError('Too many incorrect passcodes. Try again later', 'LINK_LOCKED')
+      }
+      if (!(passcode && await bcrypt.compare(passcode, share.passcodeHash))) {
+        await recordFailedPasscode(share.id)
+        throw new CanvasError('Incorrect passcode', 'INVALID_PASSCODE')
+      }
+      if (share.failedAttempts > 0) {
+        await prisma.canvasShare.update({
+          where: { id: share.id },
+          data: { failedAttempts: 0, lockedUntil: null }
+        })
+      }
+    }
+
+    if (guest && permissionLevel !== 'VIEW') {
+      throw new CanvasError('Sign in to open this link', 'SIGN_IN_REQUIRED')
+    }
+
+    // Claim a use first so concurrent redemptions can't exceed maxUses
+    const { count } = await prisma.canvasShare.updateMany({
+      where: {
+        id: share.id,
+        ...(share.maxUses !== null ? { useCount: { lt: share.maxUses } } : {})
+      },
+      data: { useCount: { increment: 1 } }
+    })
+    if (count === 0) {
+      throw new CanvasError('Share link has been used the maximum number of times', 'LINK_EXHAUSTED')
+    }
+
+    if (guest) {
+      return { ...redemption, grant: createLinkGrant(share.id) }
+    }
+
+    await prisma.canvasShare.upsert({
+      where: {
+        canvasId_userId: {
+          canvasId: share.canvasId,
+          userId: userId!
+        }
+      },
+      update: {
+        permissionLevel
+      },
+      create: {
+        canvasId: share.canvasId,
+        userId: userId!,
+        permissionLevel,
+        sharedBy: share.sharedBy
+      }
+    })
+
+    return redemption
+  } catch (error) {
+    if (error instanceof CanvasError) throw error
+    console.error('Error redeeming link share:', error)
+    throw new CanvasError('Failed to open share link')
+  }
+}
+
+// List saved versions of a canvas (newest first, without document data)
+export async function listCanvasVersions(
+  userId: string,
+  canvasId: string,
+  page: number = 1,
+  limit: number = 20
+): Promise<CanvasVersionListResponse> {
+  try {
+    const hasPermission = await checkCanvasPermission(userId, canvasId, 'VIEW')
+    if (!hasPermission) {
+      throw new CanvasError('Canvas not found or access denied', 'NOT_FOUND')
+    }
+
+    const offset = (page - 1) * limit
+
+    const [versions, totalCount] = await Promise.all([
+      prisma.canvasVersion.findMany({
+        where: { canvasId },
+        select: {
+          id: true,
+          canvasId: true,
+          version: true,
+          createdAt: true,
+          author: {
+            select: { id: true, name: true, email: true }
+          }
+        },
+        orderBy: { version: 'desc' },
+        skip: offset,
+        take: limit
+      }),
+      prisma.canvasVersion.count({ where: { canvasId } })
+    ])
+
+    const versionItems: CanvasVersionData[] = versions.map((version) => ({
+      id: version.id,
+      canvasId: version.canvasId,
+      version: version.version,
+      createdAt: version.createdAt,
+      author: version.author || undefined
+    }))
+
+    return {
+      versions: versionItems,
+      totalCount
+    }
+  } catch (error) {
+    if (error instanceof CanvasError) throw error
+    console.error('Error listing canvas versions:', error)
+    throw new CanvasError('Failed to list canvas versions')
+  }
+}
+
+// Load a single saved version including its document snapshot
+export async function getCanvasVersion(
+  userId: string,
+  canvasId: string,
+  version: number
+): Promise<CanvasVersionDetail> {
+  try {
+    const hasPermission = await checkCanvasPermission(userId, canvasId, 'VIEW')
+    if (!hasPermission) {
+      throw new CanvasError('Canvas not found or access denied', 'NOT_FOUND')
+    }
+
+    const canvasVersion = await prisma.canvasVersion.findUnique({
+      where: {
+        canvasId_version: {
+          canvasId,
+          version
+        }
+      },
+      include: {
+        author: {
+          select: { id: true, name: true, email: true }
+        },
+        canvas: {
+          select: { assets: { select: { assetId: true, publicUrl: true } } }
+        }
+      }
+    })
+
+    if (!canvasVersion) {
+      throw new CanvasError('Canvas version not found', 'NOT_FOUND')
+    }
+
+    return {
+      id: canvasVersion.id,
+      canvasId: canvasVersion.canvasId,
+      version: canvasVersion.version,
+      createdAt: canvasVersion.createdAt,
+      author: canvasVersion.author || undefined,
+      // Older versions link straight to storage, like older head documents
+      document: toAssetFileSources(
+        canvasVersion.documentData,
+        canvasId,
+        canvasVersion.canvas.assets
+      ) as unknown as Record<string, TLRecord>
+    }
+  } catch (error) {
+    if (error instanceof CanvasError) throw error
+    console.error('Error getting canvas version:', error)
+    throw new CanvasError('Failed to get canvas version')
+  }
+}
+
+// Restore a saved version by saving its document as the new head version
+export async function restoreCanvasVersion(
+  userId: string,
+  canvasId: string,
+  version: number
+): Promise<CanvasMetadata> {
+  try {
+    const hasPermission = await checkCanvasPermission(userId, canvasId, 'EDIT')
+    if (!hasPermission) {
+      throw new CanvasError('Insufficient permissions to restore canvas', 'PERMISSION_DENIED')
+    }
+
+    const canvasVersion = await prisma.canvasVersion.findUnique({
+      where: {
+        canvasId_version: {
+          canvasId,
+          version
+        }
+      },
+      include: {
+        canvas: {
+          select: { assets: { select: { assetId: true, publicUrl: true } } }
+        }
+      }
+    })
+
+    if (!canvasVersion) {
+      throw new CanvasError('Canvas version not found', 'NOT_FOUND')
+    }
+
+    return await saveCanvas(
+      userId,
+      canvasId,
+      toAssetFileSources(
+        canvasVersion.documentData,
+        canvasId,
+        canvasVersion.canvas.assets
+      ) as unknown as Record<string, TLRecord>
+    )
+  } catch (error) {
+    if (error instanceof CanvasError) throw error
+    console.error('Error restoring canvas version:', error)
+    throw new CanvasError('Failed to restore canvas version')
+  }
+}
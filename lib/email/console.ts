@@ -0,0 +1,10 @@
+import type { EmailMessage, EmailTransport } from './types'
+
+// Prints mail to the server log instead of sending it; the local development default
+export class ConsoleEmailTransport implements EmailTransport {
+  readonly name = 'console'
+
+  async send(message: EmailMessage): Promise<void> {
+    console.log(`📧 Email to ${message.to}: ${message.subject}\n${message.text}`)
+  }
+}
@@ -0,0 +1,49 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import { EmailError, EmailMessage, EmailTransport } from './types'
+
+// Writes each message to EMAIL_OUTBOX_DIR as an .eml file that mail clients can open
+export class FileEmailTransport implements EmailTransport {
+  readonly name = 'file'
+  private readonly directory: string
+
+  constructor(directory = process.env.EMAIL_OUTBOX_DIR || '.outbox') {
+    this.directory = path.resolve(directory)
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    const boundary = `outbox-${randomUUID()}`
+    const headers = [
+      `From: ${process.env.EMAIL_FROM || 'noreply@localhost'}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'MIME-Version: 1.0'
+    ]
+    const body = message.html
+      ? [
+          `Content-Type: multipart/alternative; boundary="${boundary}"`,
+          '',
+          `--${boundary}`,
+          'Content-Type: text/plain; charset=utf-8',
+          '',
+          message.text,
+          `--${boundary}`,
+          'Content-Type: text/html; charset=utf-8',
+          '',
+          message.html,
+          `--${boundary}--`
+        ]
+      : ['Content-Type: text/plain; charset=utf-8', '', message.text]
+
+    try {
+      await fs.mkdir(this.directory, { recursive: true })
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID().slice(0, 8)}.eml`
+      await fs.writeFile(path.join(this.directory, fileName), [...headers, ...body].join('\r\n'))
+    } catch (error) {
+      console.error('Error writing email to outbox:', error)
+      throw new EmailError('Failed to write email to outbox')
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import { SmtpEmailTransport } from './smtp'
+import { FileEmailTransport } from './file'
+import { ConsoleEmailTransport } from './console'
+import type { EmailMessage, EmailTransport } from './types'
+
+export * from './types'
+
+export type EmailTransportName = 'smtp' | 'file' | 'console'
+
+// EMAIL_TRANSPORT picks the transport; without it SMTP is used when configured, the console otherwise
+export function getEmailTransportName(): EmailTransportName {
+  const configured = process.env.EMAIL_TRANSPORT?.toLowerCase()
+  if (configured === 'smtp' || configured === 'file' || configured === 'console') return configured
+  if (configured) {
+    console.warn(`Unknown EMAIL_TRANSPORT "${configured}", falling back to automatic selection`)
+  }
+  return SmtpEmailTransport.isConfigured() ? 'smtp' : 'console'
+}
+
+let transport: EmailTransport | null = null
+
+// Get the email transport selected by configuration
+export function getEmailTransport(): EmailTransport {
+  if (!transport) {
+    const name = getEmailTransportName()
+    transport = name === 'smtp'
+      ? new SmtpEmailTransport()
+      : name === 'file'
+        ? new FileEmailTransport()
+        : new ConsoleEmailTransport()
+  }
+  return transport
+}
+
+export function sendEmail(message: EmailMessage): Promise<void> {
+  return getEmailTransport().send(message)
+}
@@ -0,0 +1,20 @@
+// Error class for email delivery
+export class EmailError extends Error {
+  constructor(message: string, public code?: string) {
+    super(message)
+    this.name = 'EmailError'
+  }
+}
+
+export interface EmailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+// Delivers outgoing mail, e.g. share invitations
+export interface EmailTransport {
+  readonly name: string
+  send(message: EmailMessage): Promise<void>
+}
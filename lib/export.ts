@@ -0,0 +1,249 @@
+import { prisma } from './prisma'
+import { CanvasError, checkCanvasPermission } from './canvas'
+import { readAssetObject } from './assets'
+import { renderRecordsToSvg } from './svgExport'
+import { createTLSchema } from 'tldraw'
+import type { TLAsset, TLPage, TLRecord, StoreSnapshot } from 'tldraw'
+
+export type ExportFormat = 'svg' | 'png' | 'json' | 'tldr'
+export const EXPORT_FORMATS: ExportFormat[] = ['svg', 'png', 'json', 'tldr']
+
+// Version of the .tldr file format written by tldraw itself
+const TLDRAW_FILE_FORMAT_VERSION = 1
+
+// Total size of the files inlined into one export, before base64 encoding
+// Files past it, and all videos, keep linking to the asset file route
+const MAX_INLINED_ASSET_BYTES = 25 * 1024 * 1024 // 25MB
+
+export interface ExportOptions {
+  format: ExportFormat
+  pageId?: string // Defaults to the first page
+  shapeIds?: string[] // Export only these shapes (e.g. the current selection)
+  frameId?: string // Export a single frame and its contents
+  background?: boolean
+}
+
+export interface CanvasExportFile {
+  body: Buffer | string
+  contentType: string
+  fileName: string
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  json: 'application/json',
+  tldr: 'application/vnd.tldraw+json'
+}
+
+// Turn a canvas name into a safe download file name
+function toFileName(name: string, extension: string): string {
+  const base = name.trim().replace(/[^a-zA-Z0-9-_ ]/g, '').replace(/\s+/g, '-') || 'canvas'
+  return `${base}.${extension}`
+}
+
+// Load the stored document of a canvas, migrated to the current tldraw schema
+export async function loadCanvasRecords(canvasId: string): Promise<{
+  name: string
+  records: TLRecord[]
+}> {
+  const canvas = await prisma.canvas.findUnique({
+    where: { id: canvasId },
+    select: { name: true, documentData: true }
+  })
+
+  if (!canvas) {
+    throw new CanvasError('Canvas not found', 'NOT_FOUND')
+  }
+
+  const snapshot = canvas.documentData as unknown as Partial<StoreSnapshot<TLRecord>>
+  if (!snapshot?.store || !snapshot.schema) {
+    return { name: canvas.name, records: [] }
+  }
+
+  const migrated = createTLSchema().migrateStoreSnapshot(snapshot as StoreSnapshot<TLRecord>)
+  if (migrated.type === 'error') {
+    throw new CanvasError(`Stored document could not be migrated: ${migrated.reason}`, 'MIGRATION_FAILED')
+  }
+
+  return { name: canvas.name, records: Object.values(migrated.value) }
+}
+
+// Replace asset sources with data URLs so exports do not depend on R2 or our session
+// Videos are too large to inline, and images only until MAX_INLINED_ASSET_BYTES is used up
+async function inlineAssets(canvasId: string, records: TLRecord[]): Promise<Map<string, string>> {
+  const assets = records.filter((record): record is TLAsset => record.typeName === 'asset' && record.type !== 'video')
+  const inlined = new Map<string, string>()
+  if (assets.length === 0) return inlined
+
+  const uploads = await prisma.canvasAsset.findMany({ where: { canvasId } })
+
+  // Decide what fits from the recorded sizes before reading anything
+  let remaining = MAX_INLINED_ASSET_BYTES
+  const selected = assets.flatMap((asset) => {
+    const props = asset.props as { src?: string | null, mimeType?: string | null }
+    if (!props.src || props.src.startsWith('data:')) return []
+
+    const upload = uploads.find((row) => row.assetId === asset.id || row.publicUrl === props.src)
+    if (!upload || Number(upload.fileSize) > remaining) return []
+    remaining -= Number(upload.fileSize)
+    return [{ asset, upload, mimeType: props.mimeType || upload.fileType }]
+  })
+
+  await Promise.all(selected.map(async ({ asset, upload, mimeType }) => {
+    try {
+      const bytes = await readAssetObject(upload.r2Key)
+      inlined.set(asset.id, `data:${mimeType};base64,${bytes.toString('base64')}`)
+    } catch (error) {
+      console.error(`Failed to inline asset ${asset.id}:`, error)
+    }
+  }))
+
+  return inlined
+}
+
+// Records needed to reproduce the exported shapes on their own
+function selectRecords(records: TLRecord[], pageId: string | null, shapeIds: string[] | null): TLRecord[] {
+  if (!pageId) return records
+
+  const shapes = records.filter((record) => record.typeName === 'shape')
+  const included = new Set<string>(shapeIds ?? shapes.filter((shape) => shape.parentId === pageId).map((shape) => shape.id))
+
+  // Pull in descendants of included shapes
+  let added = true
+  while (added) {
+    added = false
+    for (const shape of shapes) {
+      if (!included.has(shape.id) && included.has(shape.parentId)) {
+        included.add(shape.id)
+        added = true
+      }
+    }
+  }
+
+  const assetIds = new Set(
+    shapes
+      .filter((shape) => included.has(shape.id))
+      .map((shape) => (shape.props as { assetId?: string | null }).assetId)
+      .filter(Boolean)
+  )
+
+  return records.filter((record) => {
+    switch (record.typeName) {
+      case 'document': return true
+      case 'page': return record.id === pageId
+      case 'shape': return included.has(record.id)
+      case 'binding': return included.has(record.fromId) && included.has(record.toId)
+      case 'asset': return assetIds.has(record.id)
+      default: return false
+    }
+  })
+}
+
+// Export a canvas (or part of it) as a self-contained file
+export async function exportCanvas(
+  userId: string,
+  canvasId: string,
+  options: ExportOptions
+): Promise<CanvasExportFile> {
+  try {
+    const hasPermission = await checkCanvasPermission(userId, canvasId, 'VIEW')
+    if (!hasPermission) {
+      throw new CanvasError('Canvas not found or access denied', 'NOT_FOUND')
+    }
+
+    const { name, records } = await loadCanvasRecords(canvasId)
+    const pages = records
+      .filter((record): record is TLPage => record.typeName === 'page')
+      .sort((a, b) => (a.index < b.index ? -1 : 1))
+
+    // Resolve page, frame and selection filters
+    let pageId: string | null = options.pageId ?? null
+    let shapeIds: string[] | null = options.shapeIds?.length ? options.shapeIds : null
+    if (options.frameId) {
+      const frame = records.find((record) => record.id === options.frameId)
+      if (!frame || frame.typeName !== 'shape' || frame.type !== 'frame') {
+        throw new CanvasError('Frame not found', 'NOT_FOUND')
+      }
+      shapeIds = [frame.id]
+    }
+    if (shapeIds) {
+      const shape = records.find((record) => record.id === shapeIds![0])
+      if (!shape || shape.typeName !== 'shape') {
+        throw new CanvasError('Shape not found', 'NOT_FOUND')
+      }
+      // Shapes may be nested, so walk up to the page that contains them
+      let parentId: string = shape.parentId
+      while (!parentId.startsWith('page:')) {
+        const parent = records.find((record) => record.id === parentId)
+        if (!parent || parent.typeName !== 'shape') break
+        parentId = parent.parentId
+      }
+      if (pageId && pageId !== parentId) {
+        throw new CanvasError('Shapes are not on the requested page', 'VALIDATION_ERROR')
+      }
+      pageId = parentId
+    }
+    if (pageId && !pages.some((page) => page.id === pageId)) {
+      throw new CanvasError('Page not found', 'NOT_FOUND')
+    }
+
+    const assetSrcs = await inlineAssets(canvasId, records)
+
+    if (options.format === 'svg' || options.format === 'png') {
+      const renderPageId = pageId ?? pages[0]?.id
+      const rendered = renderPageId && renderRecordsToSvg(records, {
+        pageId: renderPageId,
+        shapeIds: shapeIds ?? undefined,
+        background: options.background,
+        assetSrcs
+      })
+      if (!rendered) {
+        throw new CanvasError('Nothing to export on this page', 'EMPTY_EXPORT')
+      }
+
+      if (options.format === 'svg') {
+        return {
+          body: rendered.svg,
+          contentType: CONTENT_TYPES.svg,
+          fileName: toFileName(name, 'svg')
+        }
+      }
+
+      // Loaded lazily since the native renderer is only needed for PNG exports
+      const { Resvg } = await import('@resvg/resvg-js')
+      const png = new Resvg(rendered.svg, {
+        fitTo: { mode: 'zoom', value: 2 },
+        font: { loadSystemFonts: true }
+      }).render().asPng()
+      return {
+        body: Buffer.from(png),
+        contentType: CONTENT_TYPES.png,
+        fileName: toFileName(name, 'png')
+      }
+    }
+
+    // Document formats carry the records with their assets inlined
+    const exported = selectRecords(records, pageId, shapeIds).map((record) => {
+      const src = assetSrcs.get(record.id)
+      return src && record.typeName === 'asset'
+        ? { ...record, props: { ...record.props, src } } as TLRecord
+        : record
+    })
+    const schema = createTLSchema().serialize()
+
+    const file = options.format === 'tldr'
+      ? { tldrawFileFormatVersion: TLDRAW_FILE_FORMAT_VERSION, schema, records: exported }
+      : { store: Object.fromEntries(exported.map((record) => [record.id, record])), schema }
+
+    return {
+      body: JSON.stringify(file),
+      contentType: CONTENT_TYPES[options.format],
+      fileName: toFileName(name, options.format)
+    }
+  } catch (error) {
+    if (error instanceof CanvasError) throw error
+    console.error('Error exporting canvas:', error)
+    throw new CanvasError('Failed to export canvas')
+  }
+}
@@ -0,0 +1,104 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { Jimp } from 'jimp'
+import { getStorage } from './storage'
+import { readMediaInfo } from './mediaInfo'
+import { VARIANT_WIDTHS } from './assetUrl'
+import type { Prisma } from '@prisma/client'
+import type { CanvasAssetVariant } from '../types/tldraw'
+
+// Raster formats that are worth downscaling; SVGs scale by themselves
+export const RESIZABLE_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'image/gif']
+
+// Decoding holds the whole image in memory as RGBA, so huge ones are served as they are
+const MAX_SOURCE_PIXELS = 50_000_000
+const VARIANT_QUALITY = 80
+
+// Variants never change once written
+const VARIANT_CACHE_CONTROL = 'public, max-age=31536000, immutable'
+
+interface WebpCodec {
+  encode: (image: ImageData, options?: { quality?: number }) => Promise<ArrayBuffer>
+  decode: (data: ArrayBuffer) => Promise<ImageData>
+}
+
+let codecPromise: Promise<WebpCodec> | null = null
+
+// The codec loads its .wasm with fetch(), which only works in browsers, so compile it from disk
+// init() also accepts a compiled module (see its source), though its types only list options
+function loadWebpCodec(): Promise<WebpCodec> {
+  codecPromise ??= (async () => {
+    const [encoder, decoder, { simd }] = await Promise.all([
+      import('@jsquash/webp/encode.js'),
+      import('@jsquash/webp/decode.js'),
+      import('wasm-feature-detect')
+    ])
+    const codecDir = path.join(process.cwd(), 'node_modules', '@jsquash', 'webp', 'codec')
+    const encoderFile = (await simd()) ? 'webp_enc_simd.wasm' : 'webp_enc.wasm'
+    const compile = async (file: string) => WebAssembly.compile(await readFile(path.join(codecDir, file)))
+
+    await Promise.all([
+      (encoder.init as (module: WebAssembly.Module) => Promise<unknown>)(await compile(`enc/${encoderFile}`)),
+      (decoder.init as (module: WebAssembly.Module) => Promise<unknown>)(await compile('dec/webp_dec.wasm'))
+    ])
+    return { encode: encoder.default, decode: decoder.default }
+  })().catch((error) => {
+    codecPromise = null
+    throw error
+  })
+  return codecPromise
+}
+
+// Variants sit next to the original so they share its prefix
+export function getVariantKey(key: string, width: number): string {
+  return `${key}_w${width}.webp`
+}
+
+export function parseVariants(value: Prisma.JsonValue | null): CanvasAssetVariant[] | undefined {
+  return Array.isArray(value) ? value as unknown as CanvasAssetVariant[] : undefined
+}
+
+async function decodeImage(data: Buffer, fileType: string) {
+  if (fileType !== 'image/webp') {
+    return Jimp.read(data)
+  }
+  const { decode } = await loadWebpCodec()
+  const image = await decode(new Uint8Array(data).buffer)
+  return Jimp.fromBitmap({ data: Buffer.from(image.data.buffer), width: image.width, height: image.height })
+}
+
+// Write downscaled WebP copies of a stored image next to the original
+// Images that are animated, too large to decode or already small get none
+export async function renderImageVariants(key: string, fileType: string): Promise<CanvasAssetVariant[]> {
+  const storage = getStorage()
+  const { body } = await storage.get(key)
+
+  // Resizing would keep only the first frame
+  const info = readMediaInfo(body)
+  if (!info?.width || !info.height || info.isAnimated || info.width * info.height > MAX_SOURCE_PIXELS) {
+    return []
+  }
+  const widths = VARIANT_WIDTHS.filter((width) => width < info.width!)
+  if (widths.length === 0) return []
+
+  const { encode } = await loadWebpCodec()
+  let image = await decodeImage(body, fileType)
+  const variants: CanvasAssetVariant[] = []
+
+  // Largest first, each one scaled down from the previous
+  for (const width of [...widths].reverse()) {
+    image = image.clone().resize({ w: width })
+    const data = Buffer.from(await encode({
+      data: new Uint8ClampedArray(image.bitmap.data),
+      width: image.width,
+      height: image.height,
+      colorSpace: 'srgb'
+    } as ImageData, { quality: VARIANT_QUALITY }))
+
+    const variantKey = getVariantKey(key, width)
+    await storage.put(variantKey, data, { contentType: 'image/webp', cacheControl: VARIANT_CACHE_CONTROL })
+    variants.unshift({ width: image.width, height: image.height, r2Key: variantKey, fileSize: data.length })
+  }
+
+  return variants
+}
@@ -0,0 +1,155 @@
+import { prisma } from './prisma'
+import { CanvasError, createCanvas, saveCanvas } from './canvas'
+import { AssetError, releaseAssetObject, uploadAssetContent } from './assets'
+import { getAssetFileUrl } from './assetUrl'
+import { createTLSchema, parseTldrawJsonFile } from 'tldraw'
+import type { TLAsset, TLRecord, TLStoreSnapshot } from 'tldraw'
+import type { CanvasMetadata } from '../types/tldraw'
+
+// Imported files are JSON with assets inlined, so allow more than a single asset
+export const IMPORT_MAX_SIZE = 50 * 1024 * 1024 // 50MB
+
+const DATA_URL_PATTERN = /^data:([^;,]+)?((?:;[^;,]+)*?)(;base64)?,([\s\S]*)$/
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+  'image/webp': 'webp',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/quicktime': 'mov'
+}
+
+// Describe why a file could not be read as a tldraw document
+function describeParseError(error: { type: string, reason?: string }): string {
+  switch (error.type) {
+    case 'v1File':
+      return 'Files from tldraw v1 are not supported'
+    case 'fileFormatVersionTooNew':
+      return 'File was created by a newer version of tldraw'
+    case 'migrationFailed':
+      return `File could not be migrated to the current tldraw version (${error.reason})`
+    case 'invalidRecords':
+      return 'File contains invalid records'
+    default:
+      return 'File is not a tldraw document'
+  }
+}
+
+// Parse a .tldr file or a raw store snapshot, validated and migrated to the current schema
+export function parseCanvasFile(json: string): TLStoreSnapshot {
+  let data: any
+  try {
+    data = JSON.parse(json)
+  } catch {
+    throw new CanvasError('File is not valid JSON', 'INVALID_FILE')
+  }
+
+  // Raw snapshots ({ store, schema }) are converted to the .tldr layout
+  if (data && typeof data === 'object' && data.store && data.schema && !data.records) {
+    json = JSON.stringify({
+      tldrawFileFormatVersion: 1,
+      schema: data.schema,
+      records: Object.values(data.store)
+    })
+  }
+
+  const result = parseTldrawJsonFile({ json, schema: createTLSchema() })
+  if (!result.ok) {
+    throw new CanvasError(describeParseError(result.error as { type: string, reason?: string }), 'INVALID_FILE')
+  }
+
+  return result.value.getStoreSnapshot('document')
+}
+
+// Decode a data URL into its bytes and MIME type
+function decodeDataUrl(src: string): { fileType: string, data: Buffer } | null {
+  const match = src.match(DATA_URL_PATTERN)
+  if (!match) return null
+  const [, fileType = 'application/octet-stream', , base64, payload] = match
+  return {
+    fileType: fileType.toLowerCase(),
+    data: base64 ? Buffer.from(payload, 'base64') : Buffer.from(decodeURIComponent(payload))
+  }
+}
+
+// Move assets embedded as data URLs into R2 and point the records at the uploads
+async function uploadEmbeddedAssets(
+  userId: string,
+  canvasId: string,
+  snapshot: TLStoreSnapshot
+): Promise<TLStoreSnapshot> {
+  const store: Record<string, TLRecord> = { ...snapshot.store }
+
+  for (const record of Object.values(store)) {
+    if (record.typeName !== 'asset') continue
+    const asset = record as TLAsset
+    const src = (asset.props as { src?: string | null }).src
+    if (!src?.startsWith('data:')) continue
+
+    const decoded = decodeDataUrl(src)
+    if (!decoded) {
+      throw new CanvasError(`Asset ${asset.id} has an invalid data URL`, 'INVALID_FILE')
+    }
+
+    const extension = EXTENSIONS[decoded.fileType] ?? 'bin'
+    const name = (asset.props as { name?: string }).name
+    await uploadAssetContent(userId, canvasId, asset.id, {
+      fileName: name || `${asset.id.replace('asset:', '')}.${extension}`,
+      fileType: decoded.fileType,
+      data: decoded.data
+    })
+
+    store[asset.id] = { ...asset, props: { ...asset.props, src: getAssetFileUrl(canvasId, asset.id) } } as TLRecord
+  }
+
+  return { ...snapshot, store }
+}
+
+// Create a new canvas for the user from an imported tldraw file
+export async function importCanvas(
+  userId: string,
+  name: string,
+  json: string,
+  description?: string
+): Promise<CanvasMetadata> {
+  // Validate before creating anything
+  const snapshot = parseCanvasFile(json)
+
+  let canvasId: string | null = null
+  try {
+    const canvas = await createCanvas(userId, name, description)
+    canvasId = canvas.id
+
+    const document = await uploadEmbeddedAssets(userId, canvasId, snapshot)
+    return await saveCanvas(userId, canvasId, document as unknown as Record<string, TLRecord>)
+  } catch (error) {
+    // Don't leave half-imported canvases behind
+    if (canvasId) {
+      // Every asset row of the new canvas was written by this import
+      const uploadedKeys = await prisma.canvasAsset.findMany({
+        where: { canvasId },
+        select: { r2Key: true }
+      }).then((assets) => assets.map((asset) => asset.r2Key), () => [] as string[])
+
+      await prisma.canvas.delete({ where: { id: canvasId } }).catch((cleanupError) => {
+        console.error('Error removing failed import:', cleanupError)
+      })
+      // Deleting the canvas drops its asset rows; files shared with other canvases are kept
+      for (const key of uploadedKeys) {
+        await releaseAssetObject(key).catch((cleanupError) => {
+          console.error(`Error removing imported file ${key}:`, cleanupError)
+        })
+      }
+    }
+
+    if (error instanceof CanvasError) throw error
+    if (error instanceof AssetError) {
+      throw new CanvasError(`Failed to import asset: ${error.message}`, error.code)
+    }
+    console.error('Error importing canvas:', error)
+    throw new CanvasError('Failed to import canvas')
+  }
+}
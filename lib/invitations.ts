@@ -0,0 +1,235 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { prisma } from './prisma'
+import { shareCanvas, getSharingCanvas, assertCanManageShareLevel, CanvasError } from './canvas'
+import { sendEmail } from './email'
+import type { CanvasInvitationInfo, CanvasShareData, PermissionLevel } from '../types/tldraw'
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+function getAppUrl(path: string): string {
+  return `${process.env.NEXT_PUBLIC_URL ?? ''}${path}`
+}
+
+function getInvitationSecret(): string {
+  const secret = process.env.AUTH_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('AUTH_SECRET not configured')
+  }
+  return secret
+}
+
+function signInvitation(invitationId: string): string {
+  return createHmac('sha256', getInvitationSecret()).update(`invitation:${invitationId}`).digest('base64url')
+}
+
+// Token in the link of an invitation email: `<invitationId>.<signature>`
+// Only the mailbox the invitation was sent to receives it, so holding it proves the address
+function createInvitationToken(invitationId: string): string {
+  return `${invitationId}.${signInvitation(invitationId)}`
+}
+
+// Invitation id of a token, or null if it was not issued by this server
+function verifyInvitationToken(token: string): string | null {
+  const [invitationId, signature] = token.split('.')
+  if (!invitationId || !signature) return null
+
+  const expected = Buffer.from(signInvitation(invitationId))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null
+  }
+  return invitationId
+}
+
+// Mail about a new share; a failed delivery doesn't undo the share
+async function sendShareEmail(
+  to: string,
+  sharerName: string,
+  canvasName: string,
+  link: string,
+  registered: boolean
+): Promise<void> {
+  const action = registered
+    ? 'Open it here'
+    : 'Sign in or create an account with this email address to accept the invitation'
+  try {
+    await sendEmail({
+      to,
+      subject: `${sharerName} shared "${canvasName}" with you`,
+      text: `${sharerName} shared the canvas "${canvasName}" with you.\n\n${action}: ${link}\n`
+    })
+  } catch (error) {
+    console.error('Error sending share email:', error)
+  }
+}
+
+// Share a canvas by email: people with an account get the share right away,
+// anyone else gets a pending invitation, claimed through the link in the email
+export async function shareCanvasByEmail(
+  userId: string,
+  canvasId: string,
+  email: string,
+  permissionLevel: PermissionLevel
+): Promise<CanvasShareData> {
+  try {
+    const inviteEmail = normalizeEmail(email)
+
+    // Owners and ADMIN collaborators manage sharing
+    const { canvas, isOwner } = await getSharingCanvas(userId, canvasId)
+
+    const sharer = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { name: true, email: true }
+    })
+    const sharerName = sharer?.name || sharer?.email || 'Someone'
+
+    const user = await prisma.user.findFirst({
+      where: { email: { equals: inviteEmail, mode: 'insensitive' } },
+      select: { id: true, email: true }
+    })
+
+    if (user) {
+      const existing = await prisma.canvasShare.findUnique({
+        where: { canvasId_userId: { canvasId, userId: user.id } }
+      })
+      const share = await shareCanvas(userId, canvasId, user.id, permissionLevel)
+      if (!existing) {
+        await sendShareEmail(user.email, sharerName, canvas.name, getAppUrl(`/canvas/${canvasId}`), true)
+      }
+      return { ...share, email: user.email, pending: false }
+    }
+
+    const existing = await prisma.canvasShare.findUnique({
+      where: { canvasId_inviteEmail: { canvasId, inviteEmail } }
+    })
+    assertCanManageShareLevel(isOwner, permissionLevel, existing?.permissionLevel)
+
+    const invitation = await prisma.canvasShare.upsert({
+      where: { canvasId_inviteEmail: { canvasId, inviteEmail } },
+      update: { permissionLevel },
+      create: {
+        canvasId,
+        inviteEmail,
+        permissionLevel,
+        sharedBy: userId
+      }
+    })
+    if (!existing) {
+      const claimUrl = getAppUrl(`/invitations/${createInvitationToken(invitation.id)}`)
+      await sendShareEmail(inviteEmail, sharerName, canvas.name, claimUrl, false)
+    }
+
+    return {
+      id: invitation.id,
+      canvasId: invitation.canvasId,
+      email: inviteEmail,
+      pending: true,
+      permissionLevel: invitation.permissionLevel as PermissionLevel,
+      sharedBy: invitation.sharedBy,
+      createdAt: invitation.createdAt
+    }
+  } catch (error) {
+    if (error instanceof CanvasError) throw error
+    console.error('Error sharing canvas by email:', error)
+    throw new CanvasError('Failed to share canvas')
+  }
+}
+
+// Withdraw an invitation that hasn't been claimed yet
+export async function removeCanvasInvitation(
+  userId: string,
+  canvasId: string,
+  email: string
+): Promise<void> {
+  try {
+    // Owners and ADMIN collaborators manage sharing
+    const { isOwner } = await getSharingCanvas(userId, canvasId)
+
+    const invitation = await prisma.canvasShare.findUnique({
+      where: { canvasId_inviteEmail: { canvasId, inviteEmail: normalizeEmail(email) } }
+    })
+    if (!invitation || invitation.userId) {
+      throw new CanvasError('Invitation not found', 'NOT_FOUND')
+    }
+    assertCanManageShareLevel(isOwner, invitation.permissionLevel)
+
+    await prisma.canvasShare.delete({
+      where: { id: invitation.id }
+    })
+  } catch (error) {
+    if (error instanceof CanvasError) throw error
+    console.error('Error removing canvas invitation:', error)
+    throw new CanvasError('Failed to remove invitation')
+  }
+}
+
+// Pending invitation behind an invitation link, shown before the visitor signs in
+export async function getCanvasInvitation(token: string): Promise<CanvasInvitationInfo> {
+  try {
+    const invitationId = verifyInvitationToken(token)
+    const invitation = invitationId ? await prisma.canvasShare.findFirst({
+      where: { id: invitationId, userId: null, inviteEmail: { not: null } },
+      include: { canvas: { select: { name: true } } }
+    }) : null
+    if (!invitation) {
+      throw new CanvasError('Invitation not found', 'NOT_FOUND')
+    }
+
+    return {
+      canvasId: invitation.canvasId,
+      canvasName: invitation.canvas.name,
+      email: invitation.inviteEmail!,
+      permissionLevel: invitation.permissionLevel as PermissionLevel
+    }
+  } catch (error) {
+    if (error instanceof CanvasError) throw error
+    console.error('Error getting canvas invitation:', error)
+    throw new CanvasError('Failed to get invitation')
+  }
+}
+
+// Turn the invitation behind an invitation link into a share for the signed-in user
+// Only accounts with the invited email address may claim it; returns the canvas id
+export async function claimCanvasInvitation(userId: string, token: string): Promise<string> {
+  try {
+    const invitationId = verifyInvitationToken(token)
+    const invitation = invitationId
+      ? await prisma.canvasShare.findUnique({ where: { id: invitationId } })
+      : null
+
+    // Opening the link again after accepting just leads to the canvas
+    if (invitation?.userId === userId) return invitation.canvasId
+    if (!invitation || invitation.userId || !invitation.inviteEmail) {
+      throw new CanvasError('Invitation not found', 'NOT_FOUND')
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true }
+    })
+    if (!user || normalizeEmail(user.email) !== invitation.inviteEmail) {
+      throw new CanvasError('Invitation was sent to another email address', 'EMAIL_MISMATCH')
+    }
+
+    // Owners and existing collaborators keep the access they have
+    const canvas = await prisma.canvas.findUnique({
+      where: { id: invitation.canvasId },
+      select: { userId: true, shares: { where: { userId }, select: { id: true } } }
+    })
+    if (canvas?.userId === userId || canvas?.shares.length) {
+      await prisma.canvasShare.delete({ where: { id: invitation.id } })
+    } else {
+      await prisma.canvasShare.update({
+        where: { id: invitation.id },
+        data: { userId, inviteEmail: null }
+      })
+    }
+    return invitation.canvasId
+  } catch (error) {
+    if (error instanceof CanvasError) throw error
+    console.error('Error claiming canvas invitation:', error)
+    throw new CanvasError('Failed to claim invitation')
+  }
+}
@@ -0,0 +1,99 @@
+import type { TLAssetStore } from 'tldraw'
+import { readFileMediaInfo, type CanvasAssetStoreOptions } from './assetStore'
+
+// Local canvases have no account behind them, so their files never leave the browser:
+// they are kept in IndexedDB and the asset src is the tldraw asset id (an asset: URL)
+const DB_NAME = 'canvas-local-assets'
+const STORE_NAME = 'files'
+
+// Browser storage is limited, and the document itself lives in localStorage
+export const LOCAL_ASSET_MAX_SIZE = 10 * 1024 * 1024 // 10MB
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1)
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME)
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    // Let a later call try again, e.g. after the user allows storage
+    databasePromise.catch(() => {
+      databasePromise = null
+    })
+  }
+  return databasePromise
+}
+
+async function runTransaction<T = void>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> {
+  const database = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(STORE_NAME, mode)
+    const request = action(transaction.objectStore(STORE_NAME))
+    transaction.oncomplete = () => resolve(request ? request.result : undefined as T)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error ?? new Error('Local asset storage was aborted'))
+  })
+}
+
+// Object URLs of stored files, created once per page
+const objectUrls = new Map<string, Promise<string | null>>()
+
+function getObjectUrl(assetId: string): Promise<string | null> {
+  let url = objectUrls.get(assetId)
+  if (!url) {
+    url = runTransaction<Blob | undefined>('readonly', (store) => store.get(assetId))
+      .then((blob) => blob ? URL.createObjectURL(blob) : null)
+    url.catch(() => objectUrls.delete(assetId))
+    objectUrls.set(assetId, url)
+  }
+  return url
+}
+
+// Asset store for local canvases; same callbacks as the server one so the UI can share them
+export function createLocalAssetStore(options: CanvasAssetStoreOptions = {}): TLAssetStore {
+  return {
+    async upload(asset, file) {
+      options.onUploadStart?.(asset.id, file)
+      try {
+        const media = await readFileMediaInfo(file)
+        await runTransaction('readwrite', (store) => {
+          store.put(file, asset.id)
+        })
+        options.onUploadProgress?.(asset.id, file.size, file.size)
+        options.onUploadEnd?.(asset.id)
+
+        const meta: Record<string, number | boolean> = {}
+        if (media.duration !== undefined) meta.duration = media.duration
+        if (media.orientation !== undefined) meta.orientation = media.orientation
+        if (media.isAnimated !== undefined) meta.isAnimated = media.isAnimated
+        return { src: asset.id, meta }
+      } catch (error) {
+        const uploadError = error instanceof Error ? error : new Error('Failed to store file in this browser')
+        options.onUploadEnd?.(asset.id, uploadError)
+        throw uploadError
+      }
+    },
+    resolve(asset) {
+      const src = asset.props.src
+      // Older local canvases may still link to files uploaded elsewhere
+      if (!src?.startsWith('asset:')) return src
+      return getObjectUrl(asset.id)
+    },
+    async remove(assetIds) {
+      await runTransaction('readwrite', (store) => {
+        assetIds.forEach((assetId) => store.delete(assetId))
+      })
+      for (const assetId of assetIds) {
+        const url = objectUrls.get(assetId)
+        objectUrls.delete(assetId)
+        url?.then((objectUrl) => objectUrl && URL.revokeObjectURL(objectUrl)).catch(() => {})
+      }
+    }
+  }
+}
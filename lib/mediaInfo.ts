@@ -0,0 +1,241 @@
+// Media type and dimension detection from file bytes
+// Pure functions over the start of a file, shared by the browser and the server
+
+// Enough to reach the dimensions of almost every image, including JPEGs with large EXIF blocks
+export const MEDIA_HEADER_SIZE = 64 * 1024
+
+export interface MediaInfo {
+  mimeType: string // Detected from the content, not the declared type
+  width?: number // Display size, after EXIF orientation is applied
+  height?: number
+  orientation?: number // EXIF orientation (1-8), JPEG only
+  isAnimated?: boolean // Only certain when the whole file was inspected
+}
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...Array.from(bytes.subarray(start, start + length)))
+}
+
+function uint16(bytes: Uint8Array, offset: number, littleEndian = false): number {
+  return littleEndian
+    ? bytes[offset] | (bytes[offset + 1] << 8)
+    : (bytes[offset] << 8) | bytes[offset + 1]
+}
+
+function uint24le(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16)
+}
+
+function uint32(bytes: Uint8Array, offset: number, littleEndian = false): number {
+  return littleEndian
+    ? (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0
+    : ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0
+}
+
+// Treat aliases of the same format as equal
+export function normalizeMimeType(mimeType: string): string {
+  const type = mimeType.toLowerCase().split(';')[0].trim()
+  return type === 'image/jpg' ? 'image/jpeg' : type
+}
+
+function isSvg(bytes: Uint8Array): boolean {
+  const text = new TextDecoder().decode(bytes.subarray(0, 4096)).replace(/^\uFEFF/, '').trimStart()
+  return /^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE svg[^>]*>\s*)?<svg[\s>]/i.test(text)
+}
+
+// Detect the real type of a file from its magic bytes
+export function sniffMimeType(bytes: Uint8Array): string | null {
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg'
+  if (bytes.length >= 8 && uint32(bytes, 0) === 0x89504e47 && uint32(bytes, 4) === 0x0d0a1a0a) return 'image/png'
+  if (bytes.length >= 6 && (ascii(bytes, 0, 6) === 'GIF87a' || ascii(bytes, 0, 6) === 'GIF89a')) return 'image/gif'
+  if (bytes.length >= 12 && ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'image/webp'
+  if (bytes.length >= 4 && uint32(bytes, 0) === 0x1a45dfa3) return 'video/webm'
+  if (bytes.length >= 12 && ascii(bytes, 4, 4) === 'ftyp') {
+    return ascii(bytes, 8, 4) === 'qt  ' ? 'video/quicktime' : 'video/mp4'
+  }
+  if (isSvg(bytes)) return 'image/svg+xml'
+  return null
+}
+
+// Whether the content of a file is acceptable for its declared type
+// MP4 and QuickTime share a container, so either is accepted for the other
+export function matchesDeclaredType(detected: string | null, declared: string): boolean {
+  if (!detected) return false
+  const type = normalizeMimeType(declared)
+  if (type === detected) return true
+  const isoMedia = ['video/mp4', 'video/quicktime']
+  return isoMedia.includes(type) && isoMedia.includes(detected)
+}
+
+function readPng(bytes: Uint8Array): Partial<MediaInfo> {
+  const info: Partial<MediaInfo> = {}
+  if (bytes.length >= 24 && ascii(bytes, 12, 4) === 'IHDR') {
+    info.width = uint32(bytes, 16)
+    info.height = uint32(bytes, 20)
+  }
+  // Animated PNGs declare an acTL chunk before the image data
+  for (let offset = 8; offset + 8 <= bytes.length;) {
+    const type = ascii(bytes, offset + 4, 4)
+    if (type === 'acTL') {
+      info.isAnimated = true
+      break
+    }
+    if (type === 'IDAT' || type === 'IEND') {
+      info.isAnimated = false
+      break
+    }
+    offset += 12 + uint32(bytes, offset)
+  }
+  return info
+}
+
+function readGif(bytes: Uint8Array): Partial<MediaInfo> {
+  if (bytes.length < 13) return {}
+  const info: Partial<MediaInfo> = {
+    width: uint16(bytes, 6, true),
+    height: uint16(bytes, 8, true)
+  }
+
+  const skipSubBlocks = (offset: number) => {
+    while (offset < bytes.length && bytes[offset] !== 0) offset += bytes[offset] + 1
+    return offset + 1
+  }
+
+  // Count image descriptors; more than one frame means animation
+  let offset = 13 + (bytes[10] & 0x80 ? 3 * 2 ** ((bytes[10] & 0x07) + 1) : 0)
+  let frames = 0
+  while (offset < bytes.length) {
+    const block = bytes[offset]
+    if (block === 0x21) {
+      offset = skipSubBlocks(offset + 2)
+    } else if (block === 0x2c) {
+      if (++frames > 1) break
+      const flags = bytes[offset + 9]
+      offset += 10 + (flags & 0x80 ? 3 * 2 ** ((flags & 0x07) + 1) : 0)
+      offset = skipSubBlocks(offset + 1)
+    } else {
+      break
+    }
+  }
+  if (frames > 1) info.isAnimated = true
+  else if (offset < bytes.length && bytes[offset] === 0x3b) info.isAnimated = false
+  return info
+}
+
+function readWebp(bytes: Uint8Array): Partial<MediaInfo> {
+  if (bytes.length < 30) return {}
+  const chunk = ascii(bytes, 12, 4)
+  if (chunk === 'VP8X') {
+    return {
+      width: uint24le(bytes, 24) + 1,
+      height: uint24le(bytes, 27) + 1,
+      isAnimated: (bytes[20] & 0x02) !== 0
+    }
+  }
+  if (chunk === 'VP8 ') {
+    return {
+      width: uint16(bytes, 26, true) & 0x3fff,
+      height: uint16(bytes, 28, true) & 0x3fff,
+      isAnimated: false
+    }
+  }
+  if (chunk === 'VP8L') {
+    const bits = uint32(bytes, 21, true)
+    return {
+      width: (bits & 0x3fff) + 1,
+      height: ((bits >> 14) & 0x3fff) + 1,
+      isAnimated: false
+    }
+  }
+  return {}
+}
+
+// Orientation tag from an APP1 Exif segment
+function readExifOrientation(bytes: Uint8Array, start: number, end: number): number | undefined {
+  const tiff = start + 6
+  if (tiff + 8 > end || ascii(bytes, start, 4) !== 'Exif') return undefined
+  const littleEndian = ascii(bytes, tiff, 2) === 'II'
+  const ifd = tiff + uint32(bytes, tiff + 4, littleEndian)
+  if (ifd + 2 > end) return undefined
+  const entries = uint16(bytes, ifd, littleEndian)
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12
+    if (entry + 12 > end) break
+    if (uint16(bytes, entry, littleEndian) === 0x0112) {
+      return uint16(bytes, entry + 8, littleEndian)
+    }
+  }
+  return undefined
+}
+
+function readJpeg(bytes: Uint8Array): Partial<MediaInfo> {
+  const info: Partial<MediaInfo> = { isAnimated: false }
+  let offset = 2
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) break
+    const marker = bytes[offset + 1]
+    if (marker === 0xff) {
+      offset++
+      continue
+    }
+    const length = uint16(bytes, offset + 2)
+    if (marker === 0xe1 && info.orientation === undefined) {
+      info.orientation = readExifOrientation(bytes, offset + 4, Math.min(offset + 2 + length, bytes.length))
+    }
+    // Start-of-frame markers, excluding DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      if (offset + 9 > bytes.length) break
+      info.height = uint16(bytes, offset + 5)
+      info.width = uint16(bytes, offset + 7)
+      break
+    }
+    offset += 2 + length
+  }
+
+  // Orientations 5-8 rotate the image by 90 degrees
+  if (info.orientation && info.orientation >= 5 && info.width && info.height) {
+    [info.width, info.height] = [info.height, info.width]
+  }
+  return info
+}
+
+function readSvg(bytes: Uint8Array): Partial<MediaInfo> {
+  const text = new TextDecoder().decode(bytes.subarray(0, MEDIA_HEADER_SIZE))
+  const tag = text.match(/<svg[^>]*>/i)?.[0]
+  if (!tag) return {}
+  const attribute = (name: string) => tag.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, 'i'))?.[1]
+  const length = (value?: string) => {
+    const match = value?.match(/^\s*([\d.]+)\s*(px)?\s*$/)
+    return match ? Math.round(parseFloat(match[1])) : undefined
+  }
+
+  let width = length(attribute('width'))
+  let height = length(attribute('height'))
+  const viewBox = attribute('viewBox')?.trim().split(/[\s,]+/).map(Number)
+  if ((!width || !height) && viewBox?.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+    width ??= height ? Math.round(height * viewBox[2] / viewBox[3]) : Math.round(viewBox[2])
+    height ??= Math.round(width * viewBox[3] / viewBox[2])
+  }
+  return { width, height, isAnimated: false }
+}
+
+// Inspect the start (or all) of a file; returns null when the format is not recognised
+export function readMediaInfo(bytes: Uint8Array): MediaInfo | null {
+  const mimeType = sniffMimeType(bytes)
+  if (!mimeType) return null
+
+  const details =
+    mimeType === 'image/png' ? readPng(bytes) :
+    mimeType === 'image/gif' ? readGif(bytes) :
+    mimeType === 'image/webp' ? readWebp(bytes) :
+    mimeType === 'image/jpeg' ? readJpeg(bytes) :
+    mimeType === 'image/svg+xml' ? readSvg(bytes) :
+    { isAnimated: true } // Videos; their size comes from the browser
+
+  const info: MediaInfo = { mimeType, ...details }
+  if (!info.width || !info.height) {
+    delete info.width
+    delete info.height
+  }
+  return info
+}
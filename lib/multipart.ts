@@ -0,0 +1,183 @@
+import { getStorage, StorageError } from './storage'
+import { checkCanvasPermission } from './canvas'
+import {
+  AssetError,
+  findStoredBlob,
+  generateAssetKey,
+  resolveUploadHandle,
+  toDeduplicatedUpload,
+  validateFileSize,
+  validateFileType,
+  validateStorageQuota
+} from './assets'
+import { createUploadHandle } from './uploadHandle'
+import type {
+  DeduplicatedUpload,
+  MultipartUploadPart,
+  MultipartUploadResponse,
+  PresignedUploadPart,
+  UploadRequest
+} from '../types/tldraw'
+
+// S3 and R2 require parts of at least 5MB (except the last) and at most 10,000 of them
+export const MULTIPART_PART_SIZE = 8 * 1024 * 1024 // 8MB
+const MAX_PARTS = 10000
+
+// Part URLs are fetched in batches, so keep them valid long enough for slow connections
+const PART_URL_EXPIRY = 3600 // 1 hour
+
+// Only editors may upload
+async function checkUploadAccess(userId: string, canvasId: string): Promise<void> {
+  const hasPermission = await checkCanvasPermission(userId, canvasId, 'EDIT')
+  if (!hasPermission) {
+    throw new AssetError('Canvas not found or insufficient permissions', 'PERMISSION_DENIED')
+  }
+}
+
+// Storage key of an upload started on this canvas, for an editor of it
+async function getUploadKey(userId: string, canvasId: string, uploadHandle: string): Promise<string> {
+  await checkUploadAccess(userId, canvasId)
+  const key = resolveUploadHandle(uploadHandle, canvasId)
+  if (!key.startsWith(`canvases/${canvasId}/`)) {
+    throw new AssetError('Upload does not belong to this canvas', 'VALIDATION_ERROR')
+  }
+  return key
+}
+
+function toAssetError(error: unknown, fallback: string): AssetError {
+  if (error instanceof AssetError) return error
+  if (error instanceof StorageError && error.code) {
+    return new AssetError(error.message, error.code)
+  }
+  console.error(`${fallback}:`, error)
+  return new AssetError(fallback)
+}
+
+// Start a multipart upload for a large file
+export async function initiateMultipartUpload(
+  userId: string,
+  canvasId: string,
+  uploadRequest: UploadRequest
+): Promise<MultipartUploadResponse | DeduplicatedUpload> {
+  try {
+    if (!validateFileType(uploadRequest.fileType)) {
+      throw new AssetError(
+        'Unsupported file type. Supported: JPEG, PNG, GIF, SVG, WebP, MP4, WebM, MOV',
+        'INVALID_FILE_TYPE'
+      )
+    }
+    await validateFileSize(userId, uploadRequest.fileSize)
+    await checkUploadAccess(userId, canvasId)
+    await validateStorageQuota(canvasId, uploadRequest.fileSize)
+
+    // Nothing to upload if the user already stored the same file on one of their canvases
+    if (uploadRequest.sha256) {
+      const storedKey = await findStoredBlob(uploadRequest.sha256, uploadRequest.fileType, userId)
+      if (storedKey) return toDeduplicatedUpload(canvasId, storedKey)
+    }
+
+    const key = generateAssetKey(canvasId, uploadRequest.fileName)
+    const uploadId = await getStorage().createMultipartUpload(key, {
+      contentType: uploadRequest.fileType,
+      metadata: {
+        canvasId,
+        userId,
+        originalName: uploadRequest.fileName
+      }
+    })
+
+    const partSize = Math.max(MULTIPART_PART_SIZE, Math.ceil(uploadRequest.fileSize / MAX_PARTS))
+    return {
+      uploadId,
+      uploadHandle: createUploadHandle(canvasId, key),
+      partSize,
+      partCount: Math.max(1, Math.ceil(uploadRequest.fileSize / partSize))
+    }
+  } catch (error) {
+    throw toAssetError(error, 'Failed to start multipart upload')
+  }
+}
+
+// Presign URLs for uploading parts
+export async function presignUploadParts(
+  userId: string,
+  canvasId: string,
+  uploadHandle: string,
+  uploadId: string,
+  partNumbers: number[]
+): Promise<PresignedUploadPart[]> {
+  try {
+    const key = await getUploadKey(userId, canvasId, uploadHandle)
+    return await Promise.all(partNumbers.map(async (partNumber) => ({
+      partNumber,
+      url: await getStorage().presignUploadPart(key, uploadId, partNumber, PART_URL_EXPIRY)
+    })))
+  } catch (error) {
+    throw toAssetError(error, 'Failed to presign upload parts')
+  }
+}
+
+// Parts already stored, so an interrupted upload can continue where it stopped
+export async function listUploadedParts(
+  userId: string,
+  canvasId: string,
+  uploadHandle: string,
+  uploadId: string
+): Promise<MultipartUploadPart[]> {
+  try {
+    const key = await getUploadKey(userId, canvasId, uploadHandle)
+    const parts = await getStorage().listParts(key, uploadId)
+    if (!parts) {
+      throw new AssetError('Upload not found or already finished', 'NOT_FOUND')
+    }
+    return parts
+  } catch (error) {
+    throw toAssetError(error, 'Failed to list uploaded parts')
+  }
+}
+
+// Join the uploaded parts into the final object
+export async function completeMultipartUpload(
+  userId: string,
+  canvasId: string,
+  uploadHandle: string,
+  uploadId: string,
+  parts: MultipartUploadPart[]
+): Promise<{ uploadHandle: string }> {
+  try {
+    const key = await getUploadKey(userId, canvasId, uploadHandle)
+    const storage = getStorage()
+    await storage.completeMultipartUpload(key, uploadId, parts)
+
+    // The size given when starting was only a claim
+    const object = await storage.head(key)
+    try {
+      await validateFileSize(userId, object?.size ?? 0)
+      await validateStorageQuota(canvasId, object?.size ?? 0)
+    } catch (error) {
+      await storage.delete(key).catch((deleteError) => {
+        console.error('Error deleting oversized upload:', deleteError)
+      })
+      throw error
+    }
+
+    return { uploadHandle }
+  } catch (error) {
+    throw toAssetError(error, 'Failed to complete multipart upload')
+  }
+}
+
+// Discard an unfinished upload and its parts
+export async function abortMultipartUpload(
+  userId: string,
+  canvasId: string,
+  uploadHandle: string,
+  uploadId: string
+): Promise<void> {
+  try {
+    const key = await getUploadKey(userId, canvasId, uploadHandle)
+    await getStorage().abortMultipartUpload(key, uploadId)
+  } catch (error) {
+    throw toAssetError(error, 'Failed to abort multipart upload')
+  }
+}
@@ -0,0 +1,40 @@
+// Fixed-window request counters kept in this server's memory
+// Good enough to slow down guessing from one client; limits are per server instance
+interface RateLimitWindow {
+  count: number
+  resetAt: number // ms timestamp
+}
+
+const windows = new Map<string, RateLimitWindow>()
+
+// Drop finished windows now and then so the map doesn't grow without bound
+const SWEEP_INTERVAL = 60 * 1000 // 1 minute
+let lastSweep = 0
+
+function sweep(now: number): void {
+  if (now - lastSweep < SWEEP_INTERVAL) return
+  lastSweep = now
+  windows.forEach((window, key) => {
+    if (window.resetAt <= now) windows.delete(key)
+  })
+}
+
+// Count a request against key; returns false once more than limit arrive within windowMs
+export function checkRateLimit(key: string, limit: number, windowMs: number): boolean {
+  const now = Date.now()
+  sweep(now)
+
+  const window = windows.get(key)
+  if (!window || window.resetAt <= now) {
+    windows.set(key, { count: 1, resetAt: now + windowMs })
+    return true
+  }
+
+  window.count++
+  return window.count <= limit
+}
+
+// Best guess at the client address behind the proxy (request.headers or next/headers headers())
+export function getClientAddress(headers: { get(name: string): string | null }): string {
+  return headers.get('x-forwarded-for')?.split(',')[0].trim() || headers.get('x-real-ip') || 'unknown'
+}
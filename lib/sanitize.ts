@@ -0,0 +1,298 @@
+import { normalizeMimeType, readMediaInfo } from './mediaInfo'
+
+// Post-upload cleaning: active content out of SVGs, private metadata out of photos
+// Pure byte processing, so it can run anywhere and be tested without storage
+
+// Error class for files that cannot be made safe
+export class SanitizeError extends Error {
+  constructor(message: string, public code?: string) {
+    super(message)
+    this.name = 'SanitizeError'
+  }
+}
+
+// SVG elements that only draw; anything else is dropped along with its children
+const SVG_ELEMENTS = new Set([
+  'svg', 'g', 'defs', 'symbol', 'use', 'title', 'desc', 'style',
+  'path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon', 'image',
+  'text', 'tspan', 'textPath',
+  'linearGradient', 'radialGradient', 'stop', 'pattern', 'clipPath', 'mask', 'marker',
+  'filter', 'feBlend', 'feColorMatrix', 'feComponentTransfer', 'feComposite', 'feConvolveMatrix',
+  'feDiffuseLighting', 'feDisplacementMap', 'feDistantLight', 'feDropShadow', 'feFlood',
+  'feFuncA', 'feFuncB', 'feFuncG', 'feFuncR', 'feGaussianBlur', 'feMerge', 'feMergeNode',
+  'feMorphology', 'feOffset', 'fePointLight', 'feSpecularLighting', 'feSpotLight', 'feTile', 'feTurbulence'
+])
+
+// Wrappers whose children are kept when the element itself is removed
+const UNWRAPPED_ELEMENTS = new Set(['a', 'switch'])
+
+// Namespaced attributes that are safe to keep (xmlns:* declarations are always kept)
+const NAMESPACED_ATTRIBUTES = new Set(['xlink:href', 'xml:space', 'xml:lang'])
+
+// Embedded raster images are the only non-fragment references allowed
+const SAFE_DATA_IMAGE = /^data:image\/(png|jpe?g|gif|webp);base64,[a-z0-9+/=\s]*$/i
+
+const TOKEN = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<!DOCTYPE(?:[^[>]|\[[\s\S]*?\])*>|<\?[\s\S]*?\?>|<\/?[A-Za-z][^\s/>]*(?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*\s*\/?>|[^<]+/gi
+const TAG = /^<(\/?)([A-Za-z][^\s/>]*)([\s\S]*?)(\/?)>$/
+const ATTRIBUTE = /([^\s=/>]+)(?:\s*=\s*("[^"]*"|'[^']*'|[^\s"'>]+))?/g
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_match, entity: string) => {
+    const lower = entity.toLowerCase()
+    if (lower.startsWith('#x')) return String.fromCodePoint(parseInt(lower.slice(2), 16))
+    if (lower.startsWith('#')) return String.fromCodePoint(parseInt(lower.slice(1), 10))
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[lower]!
+  })
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+// Text keeps the standard entities; custom ones would have come from the removed DOCTYPE
+function escapeText(text: string): string {
+  return text.replace(/&(?!(?:amp|lt|gt|quot|apos|#\d+|#x[0-9a-f]+);)/gi, '&amp;').replace(/>/g, '&gt;')
+}
+
+function isSafeReference(url: string): boolean {
+  const trimmed = url.trim()
+  return trimmed.startsWith('#') || SAFE_DATA_IMAGE.test(trimmed)
+}
+
+function hasScriptUrl(value: string): boolean {
+  return /(javascript|vbscript):|data:text\//i.test(value.replace(/\s+/g, ''))
+}
+
+// Remove imports and external url() references from a stylesheet or style attribute
+export function sanitizeCss(css: string): string {
+  // Escapes can spell out url( or expression( in ways the checks below would miss
+  if (css.includes('\\') || hasScriptUrl(css)) return ''
+  return css
+    .replace(/@import[^;]*;?/gi, '')
+    .replace(/url\s*\(\s*(['"]?)([\s\S]*?)\1\s*\)/gi, (match, _quote, url: string) => isSafeReference(url) ? match : 'none')
+    .replace(/expression\s*\(|-moz-binding|behavior\s*:/gi, '')
+}
+
+function sanitizeAttributes(element: string, source: string): string {
+  let result = ''
+  for (const [, name, raw] of Array.from(source.matchAll(ATTRIBUTE))) {
+    const lower = name.toLowerCase()
+    if (lower.startsWith('on')) continue
+    if (lower.includes(':') && !lower.startsWith('xmlns:') && !NAMESPACED_ATTRIBUTES.has(lower)) continue
+
+    let value = decodeEntities(raw === undefined ? '' : raw.replace(/^["']|["']$/g, ''))
+    if (lower === 'href' || lower === 'xlink:href') {
+      // Internal references only, plus embedded rasters on <image>
+      if (!value.trim().startsWith('#') && !(element === 'image' && SAFE_DATA_IMAGE.test(value.trim()))) continue
+    } else if (lower !== 'xmlns' && !lower.startsWith('xmlns:')) {
+      if (hasScriptUrl(value)) continue
+      if (lower === 'style' || /url\s*\(|@import/i.test(value)) {
+        value = sanitizeCss(value)
+      }
+    }
+    result += ` ${name}="${escapeAttribute(value)}"`
+  }
+  return result
+}
+
+// Rebuild an SVG from allowed elements and attributes only
+// Throws when the markup cannot be parsed with confidence
+export function sanitizeSvg(data: Buffer): Buffer {
+  const source = data.toString('utf8').replace(/^﻿/, '')
+  const stack: { name: string, unwrapped: boolean }[] = []
+  let output = ''
+  let skipDepth = 0
+  let sawRoot = false
+  let offset = 0
+
+  TOKEN.lastIndex = 0
+  for (let match = TOKEN.exec(source); match; match = TOKEN.exec(source)) {
+    if (match.index !== offset) break
+    offset = TOKEN.lastIndex
+    const token = match[0]
+
+    // Comments, doctypes (and their entities), processing instructions such as xml-stylesheet
+    if (token.startsWith('<!--') || token.startsWith('<?') || /^<!DOCTYPE/i.test(token)) continue
+
+    const parent = stack[stack.length - 1]
+    if (token.startsWith('<![CDATA[')) {
+      if (skipDepth > 0) continue
+      const text = token.slice(9, -3)
+      output += parent?.name === 'style' ? `<![CDATA[${sanitizeCss(text).replace(/\]\]>/g, '')}]]>` : escapeText(text.replace(/&/g, '&amp;').replace(/</g, '&lt;'))
+      continue
+    }
+
+    if (!token.startsWith('<')) {
+      if (skipDepth > 0) continue
+      if (!parent) {
+        if (token.trim()) throw new SanitizeError('SVG has text outside its root element', 'INVALID_SVG')
+        continue
+      }
+      output += escapeText(parent.name === 'style' ? sanitizeCss(decodeEntities(token)) : token)
+      continue
+    }
+
+    const tag = TAG.exec(token)
+    if (!tag) throw new SanitizeError('SVG contains a malformed tag', 'INVALID_SVG')
+    const [, closing, name, attributes, selfClosing] = tag
+
+    if (closing) {
+      if (skipDepth > 0) {
+        skipDepth--
+        continue
+      }
+      const open = stack.pop()
+      if (!open || open.name !== name) throw new SanitizeError('SVG has mismatched tags', 'INVALID_SVG')
+      if (!open.unwrapped) output += `</${name}>`
+      continue
+    }
+
+    if (skipDepth > 0) {
+      if (!selfClosing) skipDepth++
+      continue
+    }
+
+    if (!parent) {
+      if (sawRoot || name !== 'svg') throw new SanitizeError('File is not a single SVG document', 'INVALID_SVG')
+      sawRoot = true
+    }
+
+    if (!SVG_ELEMENTS.has(name)) {
+      if (UNWRAPPED_ELEMENTS.has(name)) {
+        if (!selfClosing) stack.push({ name, unwrapped: true })
+      } else if (!selfClosing) {
+        skipDepth = 1
+      }
+      continue
+    }
+
+    output += `<${name}${sanitizeAttributes(name, attributes)}${selfClosing ? '/>' : '>'}`
+    if (!selfClosing) stack.push({ name, unwrapped: false })
+  }
+
+  if (offset !== source.length || stack.length > 0 || skipDepth > 0 || !sawRoot) {
+    throw new SanitizeError('SVG could not be parsed', 'INVALID_SVG')
+  }
+  return Buffer.from(output, 'utf8')
+}
+
+// Minimal APP1 Exif segment carrying only the orientation, so photos stay upright
+function orientationSegment(orientation: number): Buffer {
+  const tiff = [0x4d, 0x4d, 0, 0x2a, 0, 0, 0, 8, 0, 1, 0x01, 0x12, 0, 3, 0, 0, 0, 1, 0, orientation, 0, 0, 0, 0, 0, 0]
+  const payload = Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), Buffer.from(tiff)])
+  const length = payload.length + 2
+  return Buffer.concat([Buffer.from([0xff, 0xe1, length >> 8, length & 0xff]), payload])
+}
+
+function isJpegMetadata(marker: number, segment: Buffer): boolean {
+  if (marker === 0xfe) return true // Comment
+  if (marker < 0xe1 || marker > 0xef) return false
+  // Colour profile and Adobe colour transform change how the image looks
+  if (marker === 0xe2 && segment.subarray(4, 16).toString('latin1') === 'ICC_PROFILE\0') return false
+  return marker !== 0xee
+}
+
+// Drop Exif (GPS, camera, thumbnails), XMP, IPTC and comments without re-encoding
+export function stripJpegMetadata(data: Buffer): Buffer {
+  if (data[0] !== 0xff || data[1] !== 0xd8) throw new SanitizeError('File is not a JPEG', 'INVALID_IMAGE')
+
+  const orientation = readMediaInfo(data)?.orientation
+  const parts: Buffer[] = [data.subarray(0, 2)]
+  if (orientation && orientation !== 1 && orientation <= 8) parts.push(orientationSegment(orientation))
+
+  let offset = 2
+  while (offset + 2 <= data.length) {
+    if (data[offset] !== 0xff) break
+    const marker = data[offset + 1]
+    if (marker === 0xff) {
+      offset++ // Fill byte
+      continue
+    }
+    // Image data starts here and runs to the end
+    if (marker === 0xda || marker === 0xd9) {
+      parts.push(data.subarray(offset))
+      return Buffer.concat(parts)
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      parts.push(data.subarray(offset, offset + 2))
+      offset += 2
+      continue
+    }
+
+    const end = offset + 2 + (offset + 4 <= data.length ? data.readUInt16BE(offset + 2) : 0)
+    if (end <= offset + 2 || end > data.length) break
+    const segment = data.subarray(offset, end)
+    if (!isJpegMetadata(marker, segment)) parts.push(segment)
+    offset = end
+  }
+  throw new SanitizeError('JPEG is truncated or corrupt', 'INVALID_IMAGE')
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+const PNG_METADATA_CHUNKS = new Set(['tEXt', 'zTXt', 'iTXt', 'eXIf', 'tIME'])
+
+// Drop text, Exif and timestamp chunks
+export function stripPngMetadata(data: Buffer): Buffer {
+  if (!data.subarray(0, 8).equals(PNG_SIGNATURE)) throw new SanitizeError('File is not a PNG', 'INVALID_IMAGE')
+
+  const parts: Buffer[] = [PNG_SIGNATURE]
+  let offset = 8
+  while (offset + 12 <= data.length) {
+    const type = data.subarray(offset + 4, offset + 8).toString('latin1')
+    const end = offset + 12 + data.readUInt32BE(offset)
+    if (end > data.length) break
+    if (!PNG_METADATA_CHUNKS.has(type)) parts.push(data.subarray(offset, end))
+    offset = end
+    if (type === 'IEND') return Buffer.concat(parts)
+  }
+  throw new SanitizeError('PNG is truncated or corrupt', 'INVALID_IMAGE')
+}
+
+// Drop EXIF and XMP chunks from an extended WebP and clear their flags
+export function stripWebpMetadata(data: Buffer): Buffer {
+  if (data.subarray(0, 4).toString('latin1') !== 'RIFF' || data.subarray(8, 12).toString('latin1') !== 'WEBP') {
+    throw new SanitizeError('File is not a WebP', 'INVALID_IMAGE')
+  }
+
+  const chunks: Buffer[] = []
+  let offset = 12
+  while (offset + 8 <= data.length) {
+    const type = data.subarray(offset, offset + 4).toString('latin1')
+    const size = data.readUInt32LE(offset + 4)
+    const end = offset + 8 + size + (size & 1) // Chunks are padded to an even size
+    if (end > data.length) throw new SanitizeError('WebP is truncated or corrupt', 'INVALID_IMAGE')
+
+    if (type === 'VP8X') {
+      const chunk = Buffer.from(data.subarray(offset, end))
+      chunk[8] &= ~(0x08 | 0x04) // EXIF and XMP flags
+      chunks.push(chunk)
+    } else if (type !== 'EXIF' && type !== 'XMP ') {
+      chunks.push(data.subarray(offset, end))
+    }
+    offset = end
+  }
+  if (chunks.length === 0) throw new SanitizeError('WebP has no image data', 'INVALID_IMAGE')
+
+  const body = Buffer.concat(chunks)
+  const header = Buffer.alloc(12)
+  header.write('RIFF', 0, 'latin1')
+  header.writeUInt32LE(body.length + 4, 4)
+  header.write('WEBP', 8, 'latin1')
+  return Buffer.concat([header, body])
+}
+
+// Cleaned copy of an uploaded file, or the file itself for types that need no cleaning
+export function sanitizeFile(data: Buffer, fileType: string): Buffer {
+  switch (normalizeMimeType(fileType)) {
+    case 'image/svg+xml':
+      return sanitizeSvg(data)
+    case 'image/jpeg':
+      return stripJpegMetadata(data)
+    case 'image/png':
+      return stripPngMetadata(data)
+    case 'image/webp':
+      return stripWebpMetadata(data)
+    default:
+      return data
+  }
+}
@@ -0,0 +1,68 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import type { Prisma } from '@prisma/client'
+
+// Visitors who open a VIEW link without signing in act as `link:<shareId>` in place of a user id
+const LINK_GUEST_PREFIX = 'link:'
+
+export function isLinkGuest(userId: string): boolean {
+  return userId.startsWith(LINK_GUEST_PREFIX)
+}
+
+// Cookie that remembers an opened VIEW link, one per canvas
+export function getLinkCookieName(canvasId: string): string {
+  return `canvas-link-${canvasId}`
+}
+
+function getGrantSecret(): string {
+  const secret = process.env.AUTH_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('AUTH_SECRET not configured')
+  }
+  return secret
+}
+
+function signGrant(data: string): string {
+  return createHmac('sha256', getGrantSecret()).update(data).digest('base64url')
+}
+
+// Signed proof that a guest redeemed a link share: `<shareId>.<redemptionId>.<signature>`
+// Only issued once the passcode and use limit have been checked, and kept in the link cookie
+export function createLinkGrant(shareId: string): string {
+  const data = `${shareId}.${randomBytes(16).toString('base64url')}`
+  return `${data}.${signGrant(data)}`
+}
+
+// Share id of a grant, or null if it was not issued by this server
+function verifyLinkGrant(grant: string): string | null {
+  const [shareId, redemptionId, signature] = grant.split('.')
+  if (!shareId || !redemptionId || !signature) return null
+
+  const expected = Buffer.from(signGrant(`${shareId}.${redemptionId}`))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null
+  }
+  return shareId
+}
+
+// Guest id from the link cookie of a canvas (request.cookies or next/headers cookies())
+export function getLinkGuestId(
+  cookies: { get(name: string): { value: string } | undefined },
+  canvasId: string
+): string | null {
+  const grant = cookies.get(getLinkCookieName(canvasId))?.value
+  const shareId = grant ? verifyLinkGrant(grant) : null
+  return shareId ? `${LINK_GUEST_PREFIX}${shareId}` : null
+}
+
+// Shares that give userId access to a canvas: their own, or for guests the VIEW link they redeemed
+// Guest ids only come from verified grants, and revoking or expiring the link ends the access
+export function shareAccessFilter(userId: string): Prisma.CanvasShareWhereInput {
+  if (!isLinkGuest(userId)) return { userId }
+  return {
+    id: userId.slice(LINK_GUEST_PREFIX.length),
+    token: { not: null },
+    permissionLevel: 'VIEW',
+    OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }]
+  }
+}
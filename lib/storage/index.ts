@@ -0,0 +1,29 @@
+import { R2StorageDriver } from './r2'
+import { LocalStorageDriver } from './local'
+import type { StorageDriver } from './types'
+
+export * from './types'
+
+export type StorageDriverName = 'r2' | 'local'
+
+// STORAGE_DRIVER picks the backend; without it R2 is used when configured, local disk otherwise
+export function getStorageDriverName(): StorageDriverName {
+  const configured = process.env.STORAGE_DRIVER?.toLowerCase()
+  if (configured === 'r2' || configured === 'local') return configured
+  if (configured) {
+    console.warn(`Unknown STORAGE_DRIVER "${configured}", falling back to automatic selection`)
+  }
+  return R2StorageDriver.isConfigured() ? 'r2' : 'local'
+}
+
+let storage: StorageDriver | null = null
+
+// Get the storage driver selected by configuration
+export function getStorage(): StorageDriver {
+  if (!storage) {
+    storage = getStorageDriverName() === 'r2'
+      ? new R2StorageDriver()
+      : new LocalStorageDriver()
+  }
+  return storage
+}
@@ -0,0 +1,365 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { createHash, createHmac, randomUUID, timingSafeEqual } from 'crypto'
+import {
+  StorageError,
+  StorageDriver,
+  StorageObject,
+  StorageObjectInfo,
+  PutObjectOptions,
+  PresignPutOptions,
+  ListObjectsResult,
+  UploadedPart,
+  CreateMultipartOptions
+} from './types'
+
+// Route that serves and accepts local objects
+export const LOCAL_STORAGE_ROUTE = '/api/storage'
+
+const META_SUFFIX = '.meta.json'
+
+// Parts of unfinished multipart uploads are staged here, outside the key space
+const MULTIPART_DIR = '.multipart'
+const UPLOAD_ID_PATTERN = /^[0-9a-f-]{36}$/
+
+interface LocalMultipartUpload extends CreateMultipartOptions {
+  key: string
+}
+
+interface LocalObjectMeta {
+  contentType?: string
+  cacheControl?: string
+  metadata?: Record<string, string>
+}
+
+// Parameters carried by a presigned local URL
+export interface LocalSignedRequest {
+  key: string
+  method: 'GET' | 'PUT'
+  expires: number
+  contentType?: string
+  metadata?: string
+  uploadId?: string // Set for multipart part uploads
+  partNumber?: number
+  signature: string
+}
+
+function getSigningSecret(): string {
+  const secret = process.env.STORAGE_SIGNING_SECRET || process.env.AUTH_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new StorageError('STORAGE_SIGNING_SECRET not configured', 'CONFIG_ERROR')
+  }
+  return secret
+}
+
+function sign(request: Omit<LocalSignedRequest, 'signature'>): string {
+  const payload = [
+    request.method,
+    request.key,
+    request.expires,
+    request.contentType ?? '',
+    request.metadata ?? '',
+    request.uploadId ?? '',
+    request.partNumber ?? ''
+  ].join('\n')
+  return createHmac('sha256', getSigningSecret()).update(payload).digest('hex')
+}
+
+// Check a presigned local URL; returns false when expired or tampered with
+export function verifyLocalSignature(request: LocalSignedRequest): boolean {
+  if (!Number.isFinite(request.expires) || request.expires < Math.floor(Date.now() / 1000)) {
+    return false
+  }
+  const expected = Buffer.from(sign(request), 'hex')
+  const actual = Buffer.from(request.signature, 'hex')
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+function md5(data: Buffer): string {
+  return `"${createHash('md5').update(data).digest('hex')}"`
+}
+
+function encodeKey(key: string): string {
+  return key.split('/').map(encodeURIComponent).join('/')
+}
+
+// Files on disk under LOCAL_STORAGE_DIR (default .storage), for offline development and tests
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local'
+  readonly root: string
+
+  constructor(root: string = process.env.LOCAL_STORAGE_DIR || path.join(process.cwd(), '.storage')) {
+    this.root = path.resolve(root)
+  }
+
+  // Resolve a key to a path, refusing anything that escapes the root
+  private resolve(key: string): string {
+    const parts = key.split('/')
+    if (!key || key.endsWith(META_SUFFIX) || parts[0] === MULTIPART_DIR || parts.some((part) => !part || part === '.' || part === '..')) {
+      throw new StorageError(`Invalid object key ${key}`, 'INVALID_KEY')
+    }
+    const filePath = path.resolve(this.root, key)
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new StorageError(`Invalid object key ${key}`, 'INVALID_KEY')
+    }
+    return filePath
+  }
+
+  private async readMeta(filePath: string): Promise<LocalObjectMeta> {
+    try {
+      return JSON.parse(await fs.readFile(filePath + META_SUFFIX, 'utf8'))
+    } catch {
+      return {}
+    }
+  }
+
+  async put(key: string, body: Buffer | Uint8Array, options: PutObjectOptions = {}): Promise<void> {
+    const filePath = this.resolve(key)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, body)
+    const meta: LocalObjectMeta = {
+      contentType: options.contentType,
+      cacheControl: options.cacheControl,
+      metadata: options.metadata
+    }
+    await fs.writeFile(filePath + META_SUFFIX, JSON.stringify(meta))
+  }
+
+  private presign(request: Omit<LocalSignedRequest, 'signature'>): string {
+    this.resolve(request.key)
+    const params = new URLSearchParams({
+      method: request.method,
+      expires: String(request.expires)
+    })
+    if (request.contentType) params.set('contentType', request.contentType)
+    if (request.metadata) params.set('metadata', request.metadata)
+    if (request.uploadId) params.set('uploadId', request.uploadId)
+    if (request.partNumber) params.set('partNumber', String(request.partNumber))
+    params.set('signature', sign(request))
+    return `${process.env.NEXT_PUBLIC_URL ?? ''}${LOCAL_STORAGE_ROUTE}/${encodeKey(request.key)}?${params}`
+  }
+
+  async presignPut(key: string, options: PresignPutOptions): Promise<string> {
+    return this.presign({
+      key,
+      method: 'PUT',
+      expires: Math.floor(Date.now() / 1000) + (options.expiresIn ?? 3600),
+      contentType: options.contentType,
+      metadata: options.metadata ? JSON.stringify(options.metadata) : undefined
+    })
+  }
+
+  async get(key: string): Promise<StorageObject> {
+    const filePath = this.resolve(key)
+    try {
+      const [body, stat, meta] = await Promise.all([
+        fs.readFile(filePath),
+        fs.stat(filePath),
+        this.readMeta(filePath)
+      ])
+      return {
+        body,
+        info: {
+          key,
+          size: stat.size,
+          contentType: meta.contentType,
+          lastModified: stat.mtime,
+          metadata: meta.metadata
+        }
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new StorageError(`Object ${key} not found`, 'NOT_FOUND')
+      }
+      throw error
+    }
+  }
+
+  async readHeader(key: string, length: number): Promise<Buffer> {
+    const filePath = this.resolve(key)
+    let file
+    try {
+      file = await fs.open(filePath, 'r')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new StorageError(`Object ${key} not found`, 'NOT_FOUND')
+      }
+      throw error
+    }
+    try {
+      const buffer = Buffer.alloc(length)
+      const { bytesRead } = await file.read(buffer, 0, length, 0)
+      return buffer.subarray(0, bytesRead)
+    } finally {
+      await file.close()
+    }
+  }
+
+  async presignGet(key: string, expiresIn: number = 3600): Promise<string> {
+    return this.presign({
+      key,
+      method: 'GET',
+      expires: Math.floor(Date.now() / 1000) + expiresIn
+    })
+  }
+
+  async delete(key: string): Promise<void> {
+    const filePath = this.resolve(key)
+    await fs.rm(filePath, { force: true })
+    await fs.rm(filePath + META_SUFFIX, { force: true })
+  }
+
+  async list(prefix: string, options: { maxKeys?: number, cursor?: string } = {}): Promise<ListObjectsResult> {
+    const keys: string[] = []
+    const walk = async (dir: string) => {
+      let entries
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true })
+      } catch {
+        return
+      }
+      for (const entry of entries) {
+        const entryPath = path.join(dir, entry.name)
+        if (entry.isDirectory()) {
+          if (dir === this.root && entry.name === MULTIPART_DIR) continue
+          await walk(entryPath)
+        } else if (!entry.name.endsWith(META_SUFFIX)) {
+          const key = path.relative(this.root, entryPath).split(path.sep).join('/')
+          if (key.startsWith(prefix)) keys.push(key)
+        }
+      }
+    }
+    await walk(this.root)
+
+    // Same ordering and cursor semantics as S3: keys after the cursor, lexicographically
+    keys.sort()
+    const start = options.cursor ? keys.findIndex((key) => key > options.cursor!) : 0
+    const remaining = start === -1 ? [] : keys.slice(start)
+    const maxKeys = options.maxKeys ?? 1000
+    const page = remaining.slice(0, maxKeys)
+
+    const objects = await Promise.all(page.map(async (key) => (await this.head(key))!))
+    return {
+      objects: objects.filter(Boolean),
+      cursor: remaining.length > maxKeys ? page[page.length - 1] : undefined
+    }
+  }
+
+  async head(key: string): Promise<StorageObjectInfo | null> {
+    const filePath = this.resolve(key)
+    try {
+      const [stat, meta] = await Promise.all([fs.stat(filePath), this.readMeta(filePath)])
+      return {
+        key,
+        size: stat.size,
+        contentType: meta.contentType,
+        lastModified: stat.mtime,
+        metadata: meta.metadata
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+  }
+
+  // Cache headers stored with an object, used when serving it
+  async getCacheControl(key: string): Promise<string | undefined> {
+    return (await this.readMeta(this.resolve(key))).cacheControl
+  }
+
+  getPublicUrl(key: string): string {
+    return `${process.env.NEXT_PUBLIC_URL ?? ''}${LOCAL_STORAGE_ROUTE}/${encodeKey(key)}`
+  }
+
+  private uploadDir(uploadId: string): string {
+    if (!UPLOAD_ID_PATTERN.test(uploadId)) {
+      throw new StorageError('Invalid upload id', 'INVALID_UPLOAD')
+    }
+    return path.join(this.root, MULTIPART_DIR, uploadId)
+  }
+
+  private async readUpload(key: string, uploadId: string): Promise<LocalMultipartUpload | null> {
+    try {
+      const upload: LocalMultipartUpload = JSON.parse(
+        await fs.readFile(path.join(this.uploadDir(uploadId), 'upload.json'), 'utf8')
+      )
+      return upload.key === key ? upload : null
+    } catch (error) {
+      if (error instanceof StorageError) throw error
+      return null
+    }
+  }
+
+  async createMultipartUpload(key: string, options: CreateMultipartOptions): Promise<string> {
+    this.resolve(key)
+    const uploadId = randomUUID()
+    const dir = this.uploadDir(uploadId)
+    await fs.mkdir(dir, { recursive: true })
+    const upload: LocalMultipartUpload = { key, ...options }
+    await fs.writeFile(path.join(dir, 'upload.json'), JSON.stringify(upload))
+    return uploadId
+  }
+
+  async presignUploadPart(key: string, uploadId: string, partNumber: number, expiresIn: number = 3600): Promise<string> {
+    this.uploadDir(uploadId)
+    return this.presign({
+      key,
+      method: 'PUT',
+      expires: Math.floor(Date.now() / 1000) + expiresIn,
+      uploadId,
+      partNumber
+    })
+  }
+
+  // Store one part of a multipart upload; returns its ETag like S3 does
+  async uploadPart(key: string, uploadId: string, partNumber: number, body: Buffer): Promise<string> {
+    if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > 10000) {
+      throw new StorageError('Invalid part number', 'INVALID_PART')
+    }
+    if (!await this.readUpload(key, uploadId)) {
+      throw new StorageError('Multipart upload not found', 'NOT_FOUND')
+    }
+    await fs.writeFile(path.join(this.uploadDir(uploadId), String(partNumber)), body)
+    return md5(body)
+  }
+
+  async listParts(key: string, uploadId: string): Promise<UploadedPart[] | null> {
+    if (!await this.readUpload(key, uploadId)) return null
+    const dir = this.uploadDir(uploadId)
+    const parts: UploadedPart[] = []
+    for (const name of await fs.readdir(dir)) {
+      if (!/^\d+$/.test(name)) continue
+      const data = await fs.readFile(path.join(dir, name))
+      parts.push({ partNumber: Number(name), etag: md5(data), size: data.length })
+    }
+    return parts.sort((a, b) => a.partNumber - b.partNumber)
+  }
+
+  async completeMultipartUpload(key: string, uploadId: string, parts: UploadedPart[]): Promise<void> {
+    const upload = await this.readUpload(key, uploadId)
+    if (!upload) {
+      throw new StorageError('Multipart upload not found', 'NOT_FOUND')
+    }
+
+    const dir = this.uploadDir(uploadId)
+    const chunks: Buffer[] = []
+    for (const part of [...parts].sort((a, b) => a.partNumber - b.partNumber)) {
+      const data = await fs.readFile(path.join(dir, String(part.partNumber))).catch(() => null)
+      if (!data || md5(data) !== part.etag) {
+        throw new StorageError(`Part ${part.partNumber} is missing or does not match its ETag`, 'INVALID_PART')
+      }
+      chunks.push(data)
+    }
+
+    await this.put(key, Buffer.concat(chunks), {
+      contentType: upload.contentType,
+      metadata: upload.metadata
+    })
+    await fs.rm(dir, { recursive: true, force: true })
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    if (!await this.readUpload(key, uploadId)) return
+    await fs.rm(this.uploadDir(uploadId), { recursive: true, force: true })
+  }
+}
@@ -0,0 +1,250 @@
+import {
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  ListPartsCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand
+} from '@aws-sdk/client-s3'
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner'
+import { r2Client, R2_BUCKET_NAME, isR2Configured } from '../r2'
+import {
+  StorageError,
+  StorageDriver,
+  StorageObject,
+  StorageObjectInfo,
+  PutObjectOptions,
+  PresignPutOptions,
+  ListObjectsResult,
+  UploadedPart,
+  CreateMultipartOptions
+} from './types'
+
+// Cloudflare R2 (or any S3-compatible bucket) through the shared S3 client
+export class R2StorageDriver implements StorageDriver {
+  readonly name = 'r2'
+
+  static isConfigured(): boolean {
+    return isR2Configured()
+  }
+
+  private get client() {
+    if (!r2Client || !R2_BUCKET_NAME) {
+      throw new StorageError('R2 storage not configured', 'CONFIG_ERROR')
+    }
+    return r2Client
+  }
+
+  async put(key: string, body: Buffer | Uint8Array, options: PutObjectOptions = {}): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: R2_BUCKET_NAME,
+      Key: key,
+      Body: body,
+      ContentType: options.contentType,
+      CacheControl: options.cacheControl,
+      Metadata: options.metadata
+    }))
+  }
+
+  async presignPut(key: string, options: PresignPutOptions): Promise<string> {
+    const command = new PutObjectCommand({
+      Bucket: R2_BUCKET_NAME,
+      Key: key,
+      ContentType: options.contentType,
+      ContentLength: options.contentLength,
+      Metadata: options.metadata
+    })
+    return getSignedUrl(this.client, command, { expiresIn: options.expiresIn ?? 3600 })
+  }
+
+  async get(key: string): Promise<StorageObject> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({
+        Bucket: R2_BUCKET_NAME,
+        Key: key
+      }))
+      if (!response.Body) {
+        throw new StorageError(`Object ${key} is empty`, 'NOT_FOUND')
+      }
+      return {
+        body: Buffer.from(await response.Body.transformToByteArray()),
+        info: {
+          key,
+          size: response.ContentLength ?? 0,
+          contentType: response.ContentType,
+          lastModified: response.LastModified,
+          metadata: response.Metadata
+        }
+      }
+    } catch (error) {
+      if (isNotFound(error)) {
+        throw new StorageError(`Object ${key} not found`, 'NOT_FOUND')
+      }
+      throw error
+    }
+  }
+
+  async readHeader(key: string, length: number): Promise<Buffer> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({
+        Bucket: R2_BUCKET_NAME,
+        Key: key,
+        Range: `bytes=0-${length - 1}`
+      }))
+      return response.Body ? Buffer.from(await response.Body.transformToByteArray()) : Buffer.alloc(0)
+    } catch (error) {
+      if (isNotFound(error)) {
+        throw new StorageError(`Object ${key} not found`, 'NOT_FOUND')
+      }
+      throw error
+    }
+  }
+
+  async presignGet(key: string, expiresIn: number = 3600): Promise<string> {
+    const command = new GetObjectCommand({
+      Bucket: R2_BUCKET_NAME,
+      Key: key
+    })
+    return getSignedUrl(this.client, command, { expiresIn })
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: R2_BUCKET_NAME,
+      Key: key
+    }))
+  }
+
+  async list(prefix: string, options: { maxKeys?: number, cursor?: string } = {}): Promise<ListObjectsResult> {
+    const response = await this.client.send(new ListObjectsV2Command({
+      Bucket: R2_BUCKET_NAME,
+      Prefix: prefix,
+      MaxKeys: options.maxKeys,
+      ContinuationToken: options.cursor
+    }))
+
+    return {
+      objects: (response.Contents ?? []).map((object) => ({
+        key: object.Key!,
+        size: object.Size ?? 0,
+        lastModified: object.LastModified
+      })),
+      cursor: response.IsTruncated ? response.NextContinuationToken : undefined
+    }
+  }
+
+  async head(key: string): Promise<StorageObjectInfo | null> {
+    try {
+      const response = await this.client.send(new HeadObjectCommand({
+        Bucket: R2_BUCKET_NAME,
+        Key: key
+      }))
+      return {
+        key,
+        size: response.ContentLength ?? 0,
+        contentType: response.ContentType,
+        lastModified: response.LastModified,
+        metadata: response.Metadata
+      }
+    } catch (error) {
+      if (isNotFound(error)) return null
+      throw error
+    }
+  }
+
+  getPublicUrl(key: string): string {
+    const domain = process.env.R2_PUBLIC_DOMAIN
+    if (!domain) {
+      throw new StorageError('R2_PUBLIC_DOMAIN not configured', 'CONFIG_ERROR')
+    }
+    return `https://${domain}/${key}`
+  }
+
+  async createMultipartUpload(key: string, options: CreateMultipartOptions): Promise<string> {
+    const response = await this.client.send(new CreateMultipartUploadCommand({
+      Bucket: R2_BUCKET_NAME,
+      Key: key,
+      ContentType: options.contentType,
+      Metadata: options.metadata
+    }))
+    if (!response.UploadId) {
+      throw new StorageError('Storage did not return an upload id')
+    }
+    return response.UploadId
+  }
+
+  // Browsers can only read the part's ETag if the bucket's CORS rules expose it
+  async presignUploadPart(key: string, uploadId: string, partNumber: number, expiresIn: number = 3600): Promise<string> {
+    const command = new UploadPartCommand({
+      Bucket: R2_BUCKET_NAME,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber
+    })
+    return getSignedUrl(this.client, command, { expiresIn })
+  }
+
+  async listParts(key: string, uploadId: string): Promise<UploadedPart[] | null> {
+    const parts: UploadedPart[] = []
+    let marker: string | undefined
+    try {
+      do {
+        const response = await this.client.send(new ListPartsCommand({
+          Bucket: R2_BUCKET_NAME,
+          Key: key,
+          UploadId: uploadId,
+          PartNumberMarker: marker
+        }))
+        for (const part of response.Parts ?? []) {
+          parts.push({ partNumber: part.PartNumber!, etag: part.ETag!, size: part.Size })
+        }
+        marker = response.IsTruncated ? response.NextPartNumberMarker : undefined
+      } while (marker)
+    } catch (error) {
+      if (isNotFound(error) || (error as { name?: string })?.name === 'NoSuchUpload') return null
+      throw error
+    }
+    return parts
+  }
+
+  async completeMultipartUpload(key: string, uploadId: string, parts: UploadedPart[]): Promise<void> {
+    try {
+      await this.client.send(new CompleteMultipartUploadCommand({
+        Bucket: R2_BUCKET_NAME,
+        Key: key,
+        UploadId: uploadId,
+        MultipartUpload: {
+          Parts: [...parts]
+            .sort((a, b) => a.partNumber - b.partNumber)
+            .map((part) => ({ PartNumber: part.partNumber, ETag: part.etag }))
+        }
+      }))
+    } catch (error) {
+      const name = (error as { name?: string })?.name
+      if (name === 'NoSuchUpload') {
+        throw new StorageError('Multipart upload not found', 'NOT_FOUND')
+      }
+      if (name === 'InvalidPart' || name === 'InvalidPartOrder' || name === 'EntityTooSmall') {
+        throw new StorageError('Uploaded parts are missing or invalid', 'INVALID_PART')
+      }
+      throw error
+    }
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    await this.client.send(new AbortMultipartUploadCommand({
+      Bucket: R2_BUCKET_NAME,
+      Key: key,
+      UploadId: uploadId
+    }))
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  const err = error as { name?: string, $metadata?: { httpStatusCode?: number } }
+  return err?.name === 'NotFound' || err?.name === 'NoSuchKey' || err?.$metadata?.httpStatusCode === 404
+}
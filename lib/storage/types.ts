@@ -0,0 +1,70 @@
+// Error class for storage operations
+export class StorageError extends Error {
+  constructor(message: string, public code?: string) {
+    super(message)
+    this.name = 'StorageError'
+  }
+}
+
+export interface StorageObjectInfo {
+  key: string
+  size: number
+  contentType?: string
+  lastModified?: Date
+  metadata?: Record<string, string>
+}
+
+export interface StorageObject {
+  body: Buffer
+  info: StorageObjectInfo
+}
+
+export interface PutObjectOptions {
+  contentType?: string
+  cacheControl?: string
+  metadata?: Record<string, string>
+}
+
+export interface PresignPutOptions {
+  contentType: string
+  contentLength?: number
+  metadata?: Record<string, string>
+  expiresIn?: number // Seconds
+}
+
+export interface ListObjectsResult {
+  objects: StorageObjectInfo[]
+  cursor?: string // Pass back to list() for the next page
+}
+
+export interface UploadedPart {
+  partNumber: number
+  etag: string
+  size?: number
+}
+
+export interface CreateMultipartOptions {
+  contentType: string
+  metadata?: Record<string, string>
+}
+
+// Object storage used for canvas assets, thumbnails and test uploads
+export interface StorageDriver {
+  readonly name: string
+  put(key: string, body: Buffer | Uint8Array, options?: PutObjectOptions): Promise<void>
+  presignPut(key: string, options: PresignPutOptions): Promise<string>
+  get(key: string): Promise<StorageObject>
+  readHeader(key: string, length: number): Promise<Buffer> // First bytes of an object, e.g. to sniff its type
+  presignGet(key: string, expiresIn?: number): Promise<string>
+  delete(key: string): Promise<void>
+  list(prefix: string, options?: { maxKeys?: number, cursor?: string }): Promise<ListObjectsResult>
+  head(key: string): Promise<StorageObjectInfo | null>
+  getPublicUrl(key: string): string
+
+  // Multipart uploads: parts are uploaded with presigned URLs and joined on completion
+  createMultipartUpload(key: string, options: CreateMultipartOptions): Promise<string> // Returns the upload id
+  presignUploadPart(key: string, uploadId: string, partNumber: number, expiresIn?: number): Promise<string>
+  listParts(key: string, uploadId: string): Promise<UploadedPart[] | null> // null when the upload no longer exists
+  completeMultipartUpload(key: string, uploadId: string, parts: UploadedPart[]): Promise<void>
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>
+}
@@ -0,0 +1,258 @@
+import { prisma } from './prisma'
+import { getStorage, StorageError, type StorageObjectInfo } from './storage'
+import { VARIANT_WIDTHS, parseAssetFileUrl } from './assetUrl'
+import { getVariantKey } from './imageVariants'
+import { getThumbnailKey } from './thumbnails'
+import type {
+  StorageGarbageAsset,
+  StorageGarbageObject,
+  StorageGarbageReason,
+  StorageGcReport
+} from '../types/tldraw'
+
+// Prefixes that are collected; anything else, such as quarantine/, is left alone
+const CANVAS_PREFIX = 'canvases/'
+const TEST_UPLOAD_PREFIX = 'test-uploads/'
+
+// Uploads are registered right after they finish, so a day is plenty for slow or resumed ones
+export const DEFAULT_GC_GRACE_PERIOD_HOURS = 24
+export const MIN_GC_GRACE_PERIOD_HOURS = 1
+
+// Documents are large, so canvases and versions are read a few at a time
+const DOCUMENT_BATCH_SIZE = 20
+
+export interface StorageGcOptions {
+  dryRun?: boolean // Report what would be deleted without deleting it
+  gracePeriodHours?: number
+}
+
+// What the documents of all canvases and their versions still point at
+interface DocumentReferences {
+  assets: Set<string> // assetReference() of canvas and tldraw asset id pairs
+  keys: Set<string> // Storage keys linked directly by older documents
+}
+
+function assetReference(canvasId: string, assetId: string): string {
+  return `${canvasId}\n${assetId}`
+}
+
+// Storage URL prefix of older asset sources, or null when storage has no public URLs
+function getPublicUrlPrefix(): string | null {
+  try {
+    return getStorage().getPublicUrl('')
+  } catch {
+    return null
+  }
+}
+
+// Documents are stored as tldraw store snapshots; older ones are plain record maps
+function addDocumentReferences(
+  references: DocumentReferences,
+  canvasId: string,
+  document: unknown,
+  publicUrlPrefix: string | null
+) {
+  if (!document || typeof document !== 'object') return
+  const records = (document as { store?: Record<string, any> }).store ?? document as Record<string, any>
+
+  for (const record of Object.values(records)) {
+    if (record?.typeName !== 'asset') continue
+    references.assets.add(assetReference(canvasId, record.id))
+
+    const src = record.props?.src
+    if (typeof src !== 'string') continue
+    // Duplicated canvases may keep pointing at the files of the canvas they came from
+    const file = parseAssetFileUrl(src)
+    if (file) {
+      references.assets.add(assetReference(file.canvasId, file.assetId))
+    } else if (publicUrlPrefix && src.startsWith(publicUrlPrefix)) {
+      try {
+        references.keys.add(decodeURIComponent(src.slice(publicUrlPrefix.length).split('?')[0]))
+      } catch {
+        // Not a URL this app made
+      }
+    }
+  }
+}
+
+async function collectDocumentReferences(publicUrlPrefix: string | null): Promise<DocumentReferences> {
+  const references: DocumentReferences = { assets: new Set(), keys: new Set() }
+
+  // Restoring an old version brings its assets back, so versions count as references too
+  let cursor: string | undefined
+  do {
+    const canvases = await prisma.canvas.findMany({
+      select: { id: true, documentData: true },
+      orderBy: { id: 'asc' },
+      take: DOCUMENT_BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {})
+    })
+    canvases.forEach((canvas) => addDocumentReferences(references, canvas.id, canvas.documentData, publicUrlPrefix))
+    cursor = canvases.length === DOCUMENT_BATCH_SIZE ? canvases[canvases.length - 1].id : undefined
+  } while (cursor)
+
+  do {
+    const versions = await prisma.canvasVersion.findMany({
+      select: { id: true, canvasId: true, documentData: true },
+      orderBy: { id: 'asc' },
+      take: DOCUMENT_BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {})
+    })
+    versions.forEach((version) => addDocumentReferences(references, version.canvasId, version.documentData, publicUrlPrefix))
+    cursor = versions.length === DOCUMENT_BATCH_SIZE ? versions[versions.length - 1].id : undefined
+  } while (cursor)
+
+  return references
+}
+
+async function listObjects(prefix: string): Promise<StorageObjectInfo[]> {
+  const storage = getStorage()
+  const objects: StorageObjectInfo[] = []
+  let cursor: string | undefined
+  do {
+    const page = await storage.list(prefix, { maxKeys: 1000, cursor })
+    objects.push(...page.objects)
+    cursor = page.cursor
+  } while (cursor)
+  return objects
+}
+
+function withVariantKeys(key: string): string[] {
+  return [key, ...VARIANT_WIDTHS.map((width) => getVariantKey(key, width))]
+}
+
+// The canvas id of a key under canvases/, e.g. canvases/<id>/assets/...
+function getKeyCanvasId(key: string): string | null {
+  const canvasId = key.slice(CANVAS_PREFIX.length).split('/')[0]
+  return canvasId || null
+}
+
+// Asset records whose canvas document may have started using them again since the scan
+async function stillUnreferenced(assets: StorageGarbageAsset[], publicUrlPrefix: string | null): Promise<StorageGarbageAsset[]> {
+  const canvasIds = Array.from(new Set(assets.map((asset) => asset.canvasId)))
+  const canvases = await prisma.canvas.findMany({
+    where: { id: { in: canvasIds } },
+    select: { id: true, documentData: true }
+  })
+  const references: DocumentReferences = { assets: new Set(), keys: new Set() }
+  for (const canvas of canvases) {
+    addDocumentReferences(references, canvas.id, canvas.documentData, publicUrlPrefix)
+  }
+  return assets.filter((asset) => !references.assets.has(assetReference(asset.canvasId, asset.assetId)))
+}
+
+// Find (and unless dryRun, delete) storage objects and asset records nothing uses any more
+// Covers unregistered uploads, files of deleted canvases, unused assets and old test uploads
+export async function collectStorageGarbage(options: StorageGcOptions = {}): Promise<StorageGcReport> {
+  const dryRun = options.dryRun ?? true
+  const gracePeriodHours = Math.max(options.gracePeriodHours ?? DEFAULT_GC_GRACE_PERIOD_HOURS, MIN_GC_GRACE_PERIOD_HOURS)
+  const cutoff = new Date(Date.now() - gracePeriodHours * 60 * 60 * 1000)
+
+  try {
+    const storage = getStorage()
+    const publicUrlPrefix = getPublicUrlPrefix()
+    const references = await collectDocumentReferences(publicUrlPrefix)
+
+    // Asset records no document uses; recent ones may belong to an unsaved drop
+    const assetRows = await prisma.canvasAsset.findMany({
+      select: { id: true, canvasId: true, assetId: true, r2Key: true, createdAt: true }
+    })
+    const assets: StorageGarbageAsset[] = []
+    const liveKeys = new Set<string>()
+    for (const asset of assetRows) {
+      if (asset.createdAt < cutoff && !references.assets.has(assetReference(asset.canvasId, asset.assetId))) {
+        assets.push(asset)
+      } else {
+        withVariantKeys(asset.r2Key).forEach((key) => liveKeys.add(key))
+      }
+    }
+    for (const key of Array.from(references.keys)) {
+      withVariantKeys(key).forEach((variantKey) => liveKeys.add(variantKey))
+    }
+
+    // Files of unused assets, keyed to the asset file they belong to
+    const assetKeys = new Map<string, string>()
+    for (const asset of assets) {
+      withVariantKeys(asset.r2Key).forEach((key) => assetKeys.set(key, asset.r2Key))
+    }
+
+    const canvasIds = new Set((await prisma.canvas.findMany({ select: { id: true } })).map((canvas) => canvas.id))
+    const objects: StorageGarbageObject[] = []
+    let scannedObjects = 0
+    let recentObjects = 0
+
+    const classify = (object: StorageObjectInfo, reason: StorageGarbageReason) => {
+      if (object.lastModified && object.lastModified >= cutoff) {
+        recentObjects++
+        return
+      }
+      objects.push({ key: object.key, size: object.size, lastModified: object.lastModified, reason })
+    }
+
+    for (const object of await listObjects(CANVAS_PREFIX)) {
+      scannedObjects++
+      if (liveKeys.has(object.key)) continue
+
+      const canvasId = getKeyCanvasId(object.key)
+      if (!canvasId || !canvasIds.has(canvasId)) {
+        classify(object, 'deleted-canvas')
+      } else if (object.key === getThumbnailKey(canvasId)) {
+        continue
+      } else {
+        classify(object, assetKeys.has(object.key) ? 'unreferenced-asset' : 'unregistered')
+      }
+    }
+
+    for (const object of await listObjects(TEST_UPLOAD_PREFIX)) {
+      scannedObjects++
+      classify(object, 'test-upload')
+    }
+
+    const report: StorageGcReport = {
+      dryRun,
+      gracePeriodHours,
+      scannedObjects,
+      recentObjects,
+      assets,
+      objects,
+      totalBytes: objects.reduce((total, object) => total + object.size, 0),
+      deletedAssets: 0,
+      deletedObjects: 0,
+      errors: []
+    }
+    if (dryRun) return report
+
+    // Records go first so their files are no longer shared when they are deleted
+    const removable = assets.length > 0 ? await stillUnreferenced(assets, publicUrlPrefix) : []
+    if (removable.length > 0) {
+      const { count } = await prisma.canvasAsset.deleteMany({
+        where: { id: { in: removable.map((asset) => asset.id) } }
+      })
+      report.deletedAssets = count
+    }
+    const removableKeys = new Set(removable.map((asset) => asset.r2Key))
+
+    for (const object of objects) {
+      try {
+        if (object.reason === 'unreferenced-asset') {
+          // Kept records, or new uploads deduplicated onto the file, still need it
+          const assetKey = assetKeys.get(object.key)!
+          if (!removableKeys.has(assetKey) || await prisma.canvasAsset.count({ where: { r2Key: assetKey } }) > 0) {
+            continue
+          }
+        }
+        await storage.delete(object.key)
+        report.deletedObjects++
+      } catch (error) {
+        console.error(`Failed to delete ${object.key}:`, error)
+        report.errors.push(`${object.key}: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+
+    return report
+  } catch (error) {
+    if (error instanceof StorageError) throw error
+    console.error('Error collecting storage garbage:', error)
+    throw new StorageError('Failed to collect storage garbage')
+  }
+}
@@ -0,0 +1,606 @@
+import { DefaultColorThemePalette } from 'tldraw'
+import type { TLArrowBinding, TLAsset, TLRecord, TLShape } from 'tldraw'
+
+// Server-side SVG rendering of stored tldraw records. It covers the default shapes
+// closely enough for previews and documents, without needing a browser editor.
+
+const THEME = DefaultColorThemePalette.lightMode
+const STROKE_SIZES: Record<string, number> = { s: 2, m: 3.5, l: 5, xl: 10 }
+const FONT_SIZES: Record<string, number> = { s: 18, m: 24, l: 36, xl: 44 }
+const FONT_FAMILIES: Record<string, string> = {
+  draw: "'Shantell Sans', 'Comic Sans MS', cursive",
+  sans: "'IBM Plex Sans', Arial, sans-serif",
+  serif: "'IBM Plex Serif', Georgia, serif",
+  mono: "'IBM Plex Mono', 'Courier New', monospace"
+}
+const LINE_HEIGHT = 1.35
+const EXPORT_PADDING = 32
+
+// Affine matrix [a, b, c, d, e, f] as used by SVG transforms
+type Matrix = [number, number, number, number, number, number]
+interface Bounds { minX: number, minY: number, maxX: number, maxY: number }
+
+export interface SvgRenderOptions {
+  pageId: string
+  shapeIds?: string[] // Only render these shapes (and their children)
+  background?: boolean
+  assetSrcs?: Map<string, string> // Asset id to the src to embed
+}
+
+export interface SvgRenderResult {
+  svg: string
+  width: number
+  height: number
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0]
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5]
+  ]
+}
+
+function invert(m: Matrix): Matrix {
+  const det = m[0] * m[3] - m[1] * m[2]
+  return [
+    m[3] / det,
+    -m[1] / det,
+    -m[2] / det,
+    m[0] / det,
+    (m[2] * m[5] - m[3] * m[4]) / det,
+    (m[1] * m[4] - m[0] * m[5]) / det
+  ]
+}
+
+function applyMatrix(m: Matrix, x: number, y: number): { x: number, y: number } {
+  return { x: m[0] * x + m[2] * y + m[4], y: m[1] * x + m[3] * y + m[5] }
+}
+
+function localMatrix(shape: TLShape): Matrix {
+  const cos = Math.cos(shape.rotation)
+  const sin = Math.sin(shape.rotation)
+  return [cos, sin, -sin, cos, shape.x, shape.y]
+}
+
+function formatMatrix(m: Matrix): string {
+  return `matrix(${m.map((value) => round(value)).join(' ')})`
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function getColor(name: string) {
+  return (THEME as any)[name] ?? THEME.black
+}
+
+// Flatten tldraw rich text (a TipTap document) into plain lines
+export function richTextToPlainText(richText: any): string {
+  if (!richText) return ''
+  if (typeof richText === 'string') return richText
+  const blocks: string[] = []
+  const collect = (node: any): string => {
+    if (node.type === 'text') return node.text ?? ''
+    if (node.type === 'hardBreak') return '\n'
+    return (node.content ?? []).map(collect).join('')
+  }
+  for (const block of richText.content ?? []) {
+    if (block.type === 'bulletList' || block.type === 'orderedList') {
+      (block.content ?? []).forEach((item: any) => blocks.push(`• ${collect(item)}`))
+    } else {
+      blocks.push(collect(block))
+    }
+  }
+  return blocks.join('\n')
+}
+
+// Rough word wrapping based on an average glyph width
+function wrapText(text: string, fontSize: number, maxWidth?: number): string[] {
+  const charWidth = fontSize * 0.55
+  return text.split('\n').flatMap((line) => {
+    if (!maxWidth || line.length * charWidth <= maxWidth) return [line]
+    const wrapped: string[] = []
+    let current = ''
+    for (const word of line.split(' ')) {
+      const next = current ? `${current} ${word}` : word
+      if (current && next.length * charWidth > maxWidth) {
+        wrapped.push(current)
+        current = word
+      } else {
+        current = next
+      }
+    }
+    wrapped.push(current)
+    return wrapped
+  })
+}
+
+function textHeight(text: string, fontSize: number, width?: number): number {
+  return wrapText(text, fontSize, width).length * fontSize * LINE_HEIGHT
+}
+
+function renderText(
+  text: string,
+  opts: {
+    x: number, y: number, w?: number, h?: number
+    fontSize: number, font: string, fill: string
+    align?: string, verticalAlign?: string
+  }
+): string {
+  if (!text.trim()) return ''
+  const lines = wrapText(text, opts.fontSize, opts.w ? opts.w - 16 : undefined)
+  const lineHeight = opts.fontSize * LINE_HEIGHT
+  const blockHeight = lines.length * lineHeight
+
+  const align = opts.align?.replace('-legacy', '') ?? 'middle'
+  const anchor = align === 'start' ? 'start' : align === 'end' ? 'end' : 'middle'
+  const x = opts.w === undefined ? opts.x
+    : anchor === 'start' ? opts.x + 8
+    : anchor === 'end' ? opts.x + opts.w - 8
+    : opts.x + opts.w / 2
+
+  let top = opts.y
+  if (opts.h !== undefined) {
+    top = opts.verticalAlign === 'start' ? opts.y + 8
+      : opts.verticalAlign === 'end' ? opts.y + opts.h - blockHeight - 8
+      : opts.y + (opts.h - blockHeight) / 2
+  }
+
+  const tspans = lines.map((line, i) =>
+    `<tspan x="${round(x)}" y="${round(top + i * lineHeight + opts.fontSize)}">${escapeXml(line)}</tspan>`
+  ).join('')
+  return `<text font-family="${escapeXml(FONT_FAMILIES[opts.font] ?? FONT_FAMILIES.draw)}" font-size="${opts.fontSize}" fill="${opts.fill}" text-anchor="${anchor}">${tspans}</text>`
+}
+
+function strokeAttributes(color: string, size: string, dash: string, scale = 1): string {
+  const width = (STROKE_SIZES[size] ?? STROKE_SIZES.m) * scale
+  const dashArray = dash === 'dashed' ? `${width * 2} ${width * 2}`
+    : dash === 'dotted' ? `0 ${width * 2}`
+    : null
+  return `stroke="${getColor(color).solid}" stroke-width="${round(width)}" stroke-linecap="round" stroke-linejoin="round"${dashArray ? ` stroke-dasharray="${dashArray}"` : ''}`
+}
+
+function fillColor(color: string, fill: string): string {
+  switch (fill) {
+    case 'semi': return THEME.solid
+    case 'solid': return getColor(color).semi
+    case 'pattern': return getColor(color).semi
+    case 'fill': return getColor(color).fill
+    default: return 'none'
+  }
+}
+
+function polygon(points: Array<[number, number]>): string {
+  return `M${points.map(([x, y]) => `${round(x)} ${round(y)}`).join(' L')} Z`
+}
+
+function regularPolygon(w: number, h: number, sides: number, offset = -Math.PI / 2): Array<[number, number]> {
+  return Array.from({ length: sides }, (_, i) => {
+    const angle = offset + (i * 2 * Math.PI) / sides
+    return [w / 2 + (Math.cos(angle) * w) / 2, h / 2 + (Math.sin(angle) * h) / 2] as [number, number]
+  })
+}
+
+function geoPath(geo: string, w: number, h: number): string {
+  switch (geo) {
+    case 'ellipse':
+    case 'oval':
+      return `M0 ${h / 2} a${w / 2} ${h / 2} 0 1 0 ${w} 0 a${w / 2} ${h / 2} 0 1 0 ${-w} 0 Z`
+    case 'triangle':
+      return polygon([[w / 2, 0], [w, h], [0, h]])
+    case 'diamond':
+      return polygon([[w / 2, 0], [w, h / 2], [w / 2, h], [0, h / 2]])
+    case 'rhombus':
+      return polygon([[w * 0.25, 0], [w, 0], [w * 0.75, h], [0, h]])
+    case 'rhombus-2':
+      return polygon([[0, 0], [w * 0.75, 0], [w, h], [w * 0.25, h]])
+    case 'trapezoid':
+      return polygon([[w * 0.25, 0], [w * 0.75, 0], [w, h], [0, h]])
+    case 'pentagon':
+      return polygon(regularPolygon(w, h, 5))
+    case 'hexagon':
+      return polygon(regularPolygon(w, h, 6, 0))
+    case 'octagon':
+      return polygon(regularPolygon(w, h, 8, Math.PI / 8))
+    case 'star': {
+      const outer = regularPolygon(w, h, 5)
+      const inner = regularPolygon(w * 0.4, h * 0.4, 5, -Math.PI / 2 + Math.PI / 5)
+        .map(([x, y]) => [x + w * 0.3, y + h * 0.3] as [number, number])
+      return polygon(outer.flatMap((point, i) => [point, inner[i]]))
+    }
+    default:
+      return `M0 0 H${round(w)} V${round(h)} H0 Z`
+  }
+}
+
+function pointsPath(points: Array<{ x: number, y: number }>, closed = false): string {
+  if (points.length === 0) return ''
+  if (points.length === 1) {
+    const [p] = points
+    return `M${round(p.x)} ${round(p.y)} L${round(p.x + 0.1)} ${round(p.y)}`
+  }
+  return `M${points.map((p) => `${round(p.x)} ${round(p.y)}`).join(' L')}${closed ? ' Z' : ''}`
+}
+
+// Renders a whole page (or a subset of its shapes) of a document to a standalone SVG
+class SvgRenderer {
+  private shapes = new Map<string, TLShape>()
+  private children = new Map<string, TLShape[]>()
+  private assets = new Map<string, TLAsset>()
+  private arrowBindings = new Map<string, TLArrowBinding[]>()
+  private clipPaths: string[] = []
+
+  constructor(records: TLRecord[], private options: SvgRenderOptions) {
+    for (const record of records) {
+      if (record.typeName === 'shape') {
+        this.shapes.set(record.id, record)
+        const siblings = this.children.get(record.parentId) ?? []
+        siblings.push(record)
+        this.children.set(record.parentId, siblings)
+      } else if (record.typeName === 'asset') {
+        this.assets.set(record.id, record)
+      } else if (record.typeName === 'binding' && record.type === 'arrow') {
+        const bindings = this.arrowBindings.get(record.fromId) ?? []
+        bindings.push(record as TLArrowBinding)
+        this.arrowBindings.set(record.fromId, bindings)
+      }
+    }
+    this.children.forEach((siblings) => siblings.sort((a, b) => (a.index < b.index ? -1 : a.index > b.index ? 1 : 0)))
+  }
+
+  render(): SvgRenderResult | null {
+    const roots = this.getRoots()
+    if (roots.length === 0) return null
+
+    const bounds = roots
+      .map((shape) => this.getPageBounds(shape))
+      .reduce((a, b) => ({
+        minX: Math.min(a.minX, b.minX),
+        minY: Math.min(a.minY, b.minY),
+        maxX: Math.max(a.maxX, b.maxX),
+        maxY: Math.max(a.maxY, b.maxY)
+      }))
+
+    const x = bounds.minX - EXPORT_PADDING
+    const y = bounds.minY - EXPORT_PADDING
+    const width = Math.ceil(bounds.maxX - bounds.minX + EXPORT_PADDING * 2)
+    const height = Math.ceil(bounds.maxY - bounds.minY + EXPORT_PADDING * 2)
+
+    const body = roots
+      .map((shape) => {
+        const parentTransform = this.getParentPageTransform(shape)
+        const content = this.renderShape(shape)
+        return parentTransform === IDENTITY ? content : `<g transform="${formatMatrix(parentTransform)}">${content}</g>`
+      })
+      .join('')
+
+    const background = this.options.background !== false
+      ? `<rect x="${round(x)}" y="${round(y)}" width="${width}" height="${height}" fill="${THEME.background}"/>`
+      : ''
+    const defs = this.clipPaths.length ? `<defs>${this.clipPaths.join('')}</defs>` : ''
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="${round(x)} ${round(y)} ${width} ${height}">${defs}${background}${body}</svg>`
+    return { svg, width, height }
+  }
+
+  // Top-level shapes to export, skipping selected shapes whose ancestor is also selected
+  private getRoots(): TLShape[] {
+    if (!this.options.shapeIds) {
+      return this.children.get(this.options.pageId) ?? []
+    }
+    const selected = new Set(this.options.shapeIds)
+    return this.options.shapeIds
+      .map((id) => this.shapes.get(id))
+      .filter((shape): shape is TLShape => !!shape)
+      .filter((shape) => {
+        let parentId: string = shape.parentId
+        while (this.shapes.has(parentId)) {
+          if (selected.has(parentId)) return false
+          parentId = this.shapes.get(parentId)!.parentId
+        }
+        return parentId === this.options.pageId
+      })
+  }
+
+  private getParentPageTransform(shape: TLShape): Matrix {
+    const parent = this.shapes.get(shape.parentId)
+    return parent ? this.getPageTransform(parent) : IDENTITY
+  }
+
+  private getPageTransform(shape: TLShape): Matrix {
+    return multiply(this.getParentPageTransform(shape), localMatrix(shape))
+  }
+
+  private getPageBounds(shape: TLShape): Bounds {
+    const transform = this.getPageTransform(shape)
+    const local = this.getLocalBounds(shape)
+    const corners = [
+      applyMatrix(transform, local.minX, local.minY),
+      applyMatrix(transform, local.maxX, local.minY),
+      applyMatrix(transform, local.maxX, local.maxY),
+      applyMatrix(transform, local.minX, local.maxY)
+    ]
+    let bounds: Bounds = {
+      minX: Math.min(...corners.map((p) => p.x)),
+      minY: Math.min(...corners.map((p) => p.y)),
+      maxX: Math.max(...corners.map((p) => p.x)),
+      maxY: Math.max(...corners.map((p) => p.y))
+    }
+    // Groups have no size of their own; frames clip their children
+    if (shape.type === 'group') {
+      const childBounds = (this.children.get(shape.id) ?? []).map((child) => this.getPageBounds(child))
+      if (childBounds.length) {
+        bounds = {
+          minX: Math.min(...childBounds.map((b) => b.minX)),
+          minY: Math.min(...childBounds.map((b) => b.minY)),
+          maxX: Math.max(...childBounds.map((b) => b.maxX)),
+          maxY: Math.max(...childBounds.map((b) => b.maxY))
+        }
+      }
+    }
+    if (shape.type === 'frame') {
+      bounds.minY -= 32 // Frame heading
+    }
+    return bounds
+  }
+
+  private getLocalBounds(shape: TLShape): Bounds {
+    const props = shape.props as any
+    const strokeWidth = STROKE_SIZES[props.size] ?? 0
+    switch (shape.type) {
+      case 'draw':
+      case 'highlight': {
+        const points = (props.segments ?? []).flatMap((segment: any) => segment.points)
+        return this.pointBounds(points, strokeWidth * (props.scale ?? 1) * (shape.type === 'highlight' ? 4 : 1))
+      }
+      case 'line':
+        return this.pointBounds(Object.values(props.points ?? {}), strokeWidth)
+      case 'arrow': {
+        const { start, end } = this.getArrowTerminals(shape)
+        return this.pointBounds([start, end, this.getArrowMiddle(start, end, props.bend)], strokeWidth * 4)
+      }
+      case 'text': {
+        const fontSize = FONT_SIZES[props.size] * (props.scale ?? 1)
+        const text = richTextToPlainText(props.richText)
+        const w = props.autoSize ? Math.max(...text.split('\n').map((line) => line.length * fontSize * 0.55), fontSize) + 16 : props.w
+        return { minX: 0, minY: 0, maxX: w, maxY: textHeight(text, fontSize, props.autoSize ? undefined : props.w) + 8 }
+      }
+      case 'note': {
+        const scale = props.scale ?? 1
+        return { minX: 0, minY: 0, maxX: 200 * scale, maxY: (200 + (props.growY ?? 0)) * scale }
+      }
+      case 'group':
+        return { minX: 0, minY: 0, maxX: 0, maxY: 0 }
+      default:
+        return { minX: 0, minY: 0, maxX: props.w ?? 0, maxY: (props.h ?? 0) + (props.growY ?? 0) }
+    }
+  }
+
+  private pointBounds(points: Array<{ x: number, y: number }>, padding: number): Bounds {
+    if (points.length === 0) return { minX: 0, minY: 0, maxX: 0, maxY: 0 }
+    return {
+      minX: Math.min(...points.map((p) => p.x)) - padding / 2,
+      minY: Math.min(...points.map((p) => p.y)) - padding / 2,
+      maxX: Math.max(...points.map((p) => p.x)) + padding / 2,
+      maxY: Math.max(...points.map((p) => p.y)) + padding / 2
+    }
+  }
+
+  private renderShape(shape: TLShape): string {
+    if (shape.opacity === 0) return ''
+    const content = this.renderShapeContent(shape)
+    const opacity = shape.opacity < 1 ? ` opacity="${shape.opacity}"` : ''
+    return `<g transform="${formatMatrix(localMatrix(shape))}"${opacity}>${content}</g>`
+  }
+
+  private renderChildren(shape: TLShape): string {
+    return (this.children.get(shape.id) ?? []).map((child) => this.renderShape(child)).join('')
+  }
+
+  private renderShapeContent(shape: TLShape): string {
+    const props = shape.props as any
+    switch (shape.type) {
+      case 'geo': {
+        const h = props.h + (props.growY ?? 0)
+        const path = `<path d="${geoPath(props.geo, props.w, h)}" fill="${fillColor(props.color, props.fill)}" ${strokeAttributes(props.color, props.size, props.dash, props.scale)}/>`
+        const label = renderText(richTextToPlainText(props.richText), {
+          x: 0, y: 0, w: props.w, h,
+          fontSize: FONT_SIZES[props.size] * (props.scale ?? 1),
+          font: props.font,
+          fill: getColor(props.labelColor).solid,
+          align: props.align,
+          verticalAlign: props.verticalAlign
+        })
+        return path + label
+      }
+      case 'note': {
+        const scale = props.scale ?? 1
+        const w = 200 * scale
+        const h = (200 + (props.growY ?? 0)) * scale
+        return `<rect width="${w}" height="${round(h)}" rx="${6 * scale}" fill="${getColor(props.color).note.fill}"/>` +
+          renderText(richTextToPlainText(props.richText), {
+            x: 0, y: 0, w, h,
+            fontSize: FONT_SIZES[props.size] * scale,
+            font: props.font,
+            fill: getColor(props.labelColor ?? 'black').note.text,
+            align: props.align,
+            verticalAlign: props.verticalAlign
+          })
+      }
+      case 'text': {
+        const bounds = this.getLocalBounds(shape)
+        return renderText(richTextToPlainText(props.richText), {
+          x: 0, y: 4, w: bounds.maxX,
+          fontSize: FONT_SIZES[props.size] * (props.scale ?? 1),
+          font: props.font,
+          fill: getColor(props.color).solid,
+          align: props.textAlign
+        })
+      }
+      case 'draw':
+      case 'highlight': {
+        const scale = props.scale ?? 1
+        const segments = (props.segments ?? []) as Array<{ points: Array<{ x: number, y: number }> }>
+        const d = segments.map((segment) => pointsPath(segment.points)).join(' ')
+        if (shape.type === 'highlight') {
+          const width = (STROKE_SIZES[props.size] ?? STROKE_SIZES.m) * 4 * scale
+          return `<path d="${d}" fill="none" stroke="${getColor(props.color).highlight.srgb}" stroke-width="${round(width)}" stroke-linecap="round" stroke-linejoin="round" opacity="0.7"/>`
+        }
+        const closed = props.isClosed && segments.length === 1
+        const fill = closed ? fillColor(props.color, props.fill) : 'none'
+        return `<path d="${closed ? `${d} Z` : d}" fill="${fill}" ${strokeAttributes(props.color, props.size, props.dash, scale)}/>`
+      }
+      case 'line': {
+        const points = Object.values(props.points ?? {}) as Array<{ index: string, x: number, y: number }>
+        points.sort((a, b) => (a.index < b.index ? -1 : 1))
+        return `<path d="${pointsPath(points)}" fill="none" ${strokeAttributes(props.color, props.size, props.dash, props.scale)}/>`
+      }
+      case 'arrow':
+        return this.renderArrow(shape)
+      case 'frame': {
+        const color = getColor(props.color ?? 'black').frame
+        const clipId = `clip-${shape.id.replace(/[^a-zA-Z0-9_-]/g, '_')}`
+        this.clipPaths.push(`<clipPath id="${clipId}"><rect width="${props.w}" height="${props.h}"/></clipPath>`)
+        return `<rect width="${props.w}" height="${props.h}" fill="${color.fill}" stroke="${color.stroke}" stroke-width="1"/>` +
+          `<text x="0" y="-10" font-family="${escapeXml(FONT_FAMILIES.sans)}" font-size="12" fill="${color.text}">${escapeXml(props.name || 'Frame')}</text>` +
+          `<g clip-path="url(#${clipId})">${this.renderChildren(shape)}</g>`
+      }
+      case 'group':
+        return this.renderChildren(shape)
+      case 'image':
+        return this.renderImage(shape)
+      case 'video':
+      case 'bookmark':
+      case 'embed': {
+        const asset = props.assetId ? this.assets.get(props.assetId) : undefined
+        const label = props.url || (asset?.props as any)?.name || shape.type
+        return `<rect width="${props.w}" height="${props.h}" fill="${THEME.black.semi}" stroke="${THEME.black.solid}" stroke-width="1"/>` +
+          renderText(label, {
+            x: 0, y: 0, w: props.w, h: props.h,
+            fontSize: 14, font: 'sans', fill: THEME.text
+          })
+      }
+      default:
+        // Unknown custom shapes still show up as their bounding box
+        if (props.w && props.h) {
+          return `<rect width="${props.w}" height="${props.h}" fill="none" stroke="${THEME.black.semi}" stroke-dasharray="4 4"/>`
+        }
+        return ''
+    }
+  }
+
+  private renderImage(shape: TLShape): string {
+    const props = shape.props as any
+    const asset = props.assetId ? this.assets.get(props.assetId) : undefined
+    const src = (asset && this.options.assetSrcs?.get(asset.id)) ?? (asset?.props as any)?.src
+    if (!src) {
+      return `<rect width="${props.w}" height="${props.h}" fill="${THEME.black.semi}"/>`
+    }
+
+    // Crop is stored as normalised corners of the full image
+    const crop = props.crop ?? { topLeft: { x: 0, y: 0 }, bottomRight: { x: 1, y: 1 } }
+    const cropW = crop.bottomRight.x - crop.topLeft.x || 1
+    const cropH = crop.bottomRight.y - crop.topLeft.y || 1
+    const fullW = props.w / cropW
+    const fullH = props.h / cropH
+    const flip = props.flipX || props.flipY
+      ? ` transform="translate(${props.flipX ? props.w : 0} ${props.flipY ? props.h : 0}) scale(${props.flipX ? -1 : 1} ${props.flipY ? -1 : 1})"`
+      : ''
+    const clipId = `clip-${shape.id.replace(/[^a-zA-Z0-9_-]/g, '_')}`
+    this.clipPaths.push(`<clipPath id="${clipId}"><rect width="${props.w}" height="${props.h}"${crop.isCircle ? ` rx="${props.w / 2}" ry="${props.h / 2}"` : ''}/></clipPath>`)
+    return `<g clip-path="url(#${clipId})"${flip}><image href="${escapeXml(src)}" xlink:href="${escapeXml(src)}" x="${round(-crop.topLeft.x * fullW)}" y="${round(-crop.topLeft.y * fullH)}" width="${round(fullW)}" height="${round(fullH)}" preserveAspectRatio="none"/></g>`
+  }
+
+  // Arrow end points in the arrow's own space, following bindings to other shapes
+  private getArrowTerminals(shape: TLShape): { start: { x: number, y: number }, end: { x: number, y: number } } {
+    const props = shape.props as any
+    const terminals = { start: props.start as { x: number, y: number }, end: props.end as { x: number, y: number } }
+    const bindings = this.arrowBindings.get(shape.id) ?? []
+    if (bindings.length === 0) return terminals
+
+    const toArrowSpace = invert(this.getPageTransform(shape))
+    for (const binding of bindings) {
+      const target = this.shapes.get(binding.toId)
+      if (!target) continue
+      const bounds = this.getLocalBounds(target)
+      const anchor = binding.props.normalizedAnchor
+      const pagePoint = applyMatrix(
+        this.getPageTransform(target),
+        bounds.minX + anchor.x * (bounds.maxX - bounds.minX),
+        bounds.minY + anchor.y * (bounds.maxY - bounds.minY)
+      )
+      terminals[binding.props.terminal] = applyMatrix(toArrowSpace, pagePoint.x, pagePoint.y)
+    }
+    return terminals
+  }
+
+  private getArrowMiddle(start: { x: number, y: number }, end: { x: number, y: number }, bend: number) {
+    const dx = end.x - start.x
+    const dy = end.y - start.y
+    const length = Math.hypot(dx, dy) || 1
+    return {
+      x: (start.x + end.x) / 2 + (dy / length) * bend,
+      y: (start.y + end.y) / 2 - (dx / length) * bend
+    }
+  }
+
+  private renderArrow(shape: TLShape): string {
+    const props = shape.props as any
+    const { start, end } = this.getArrowTerminals(shape)
+    const middle = this.getArrowMiddle(start, end, props.bend ?? 0)
+    const stroke = strokeAttributes(props.color, props.size, props.dash, props.scale)
+
+    // Quadratic curve through the bend point
+    const control = { x: 2 * middle.x - (start.x + end.x) / 2, y: 2 * middle.y - (start.y + end.y) / 2 }
+    const body = props.bend
+      ? `<path d="M${round(start.x)} ${round(start.y)} Q${round(control.x)} ${round(control.y)} ${round(end.x)} ${round(end.y)}" fill="none" ${stroke}/>`
+      : `<path d="M${round(start.x)} ${round(start.y)} L${round(end.x)} ${round(end.y)}" fill="none" ${stroke}/>`
+
+    const headSize = (STROKE_SIZES[props.size] ?? STROKE_SIZES.m) * 4 * (props.scale ?? 1)
+    const head = (tip: { x: number, y: number }, from: { x: number, y: number }, style: string) => {
+      if (!style || style === 'none') return ''
+      const angle = Math.atan2(tip.y - from.y, tip.x - from.x)
+      const left = { x: tip.x - headSize * Math.cos(angle - Math.PI / 6), y: tip.y - headSize * Math.sin(angle - Math.PI / 6) }
+      const right = { x: tip.x - headSize * Math.cos(angle + Math.PI / 6), y: tip.y - headSize * Math.sin(angle + Math.PI / 6) }
+      if (style === 'arrow') {
+        return `<path d="M${round(left.x)} ${round(left.y)} L${round(tip.x)} ${round(tip.y)} L${round(right.x)} ${round(right.y)}" fill="none" ${stroke}/>`
+      }
+      if (style === 'dot') {
+        return `<circle cx="${round(tip.x)}" cy="${round(tip.y)}" r="${round(headSize / 3)}" fill="${getColor(props.color).solid}"/>`
+      }
+      return `<path d="${polygon([[tip.x, tip.y], [left.x, left.y], [right.x, right.y]])}" fill="${getColor(props.color).solid}" ${stroke}/>`
+    }
+    const startFrom = props.bend ? control : end
+    const endFrom = props.bend ? control : start
+
+    const label = props.text
+      ? renderText(props.text, {
+          x: middle.x, y: middle.y - FONT_SIZES[props.size] * 0.7,
+          fontSize: FONT_SIZES[props.size] * (props.scale ?? 1),
+          font: props.font,
+          fill: getColor(props.labelColor ?? props.color).solid
+        })
+      : ''
+
+    return body + head(start, startFrom, props.arrowheadStart) + head(end, endFrom, props.arrowheadEnd) + label
+  }
+}
+
+// Render records of a stored document to SVG, or null when there is nothing to draw
+export function renderRecordsToSvg(records: TLRecord[], options: SvgRenderOptions): SvgRenderResult | null {
+  return new SvgRenderer(records, options).render()
+}
@@ -0,0 +1,341 @@
+import { createServer, IncomingMessage, Server } from 'http'
+import { WebSocketServer, WebSocket, RawData } from 'ws'
+import {
+  TLSocketRoom,
+  TLSyncErrorCloseEventCode,
+  TLSyncErrorCloseEventReason
+} from '@tldraw/sync-core'
+import type { TLRecord, TLStoreSnapshot } from 'tldraw'
+import type { PermissionLevel } from '../types/tldraw'
+
+// Who is connected to a room session
+export interface SyncSessionMeta {
+  userId: string
+  permission: PermissionLevel
+}
+
+// Stored document of a canvas and the version it was saved as
+export interface SyncRoomDocument {
+  snapshot: TLStoreSnapshot | null // null for a canvas that was never drawn on
+  version: number
+}
+
+// Storage and access control used by the sync server, so rooms can be
+// backed by the database in production and by memory in local tests
+export interface SyncRoomBackend {
+  authorize(token: string, canvasId: string): Promise<SyncSessionMeta | null>
+  // Current access of a user, re-checked while their session stays open
+  getPermission(userId: string, canvasId: string): Promise<PermissionLevel | null>
+  load(canvasId: string): Promise<SyncRoomDocument>
+  // Stored version of a canvas, or null once it is deleted
+  getVersion(canvasId: string): Promise<number | null>
+  // Save on top of baseVersion; returns the new version, or null if the canvas was saved elsewhere since
+  persist(
+    canvasId: string,
+    userId: string,
+    snapshot: TLStoreSnapshot,
+    baseVersion: number
+  ): Promise<number | null>
+}
+
+interface CanvasRoom {
+  room: TLSocketRoom<TLRecord, SyncSessionMeta>
+  version: number // canvas version the room holds
+  persistTimer: NodeJS.Timeout | null
+  checkTimer: NodeJS.Timeout | null
+  lastEditorId: string | null
+  dirty: boolean
+  closed: boolean
+  task: Promise<void> // persists and checks run one at a time
+}
+
+// Hosts one TLSocketRoom per canvas and persists room changes through the backend
+// Open rooms are checked every checkInterval for revoked access and for saves made
+// outside the room (REST writes, restored versions), which reload the room
+export class SyncRoomManager {
+  private rooms = new Map<string, Promise<CanvasRoom>>()
+
+  constructor(
+    private backend: SyncRoomBackend,
+    private persistDelay: number = 2000,
+    private checkInterval: number = 15000
+  ) {}
+
+  // Attach an authenticated websocket to the room of a canvas
+  async handleConnection(
+    socket: WebSocket,
+    canvasId: string,
+    sessionId: string,
+    token: string
+  ): Promise<void> {
+    // Buffer messages that arrive while the room is being loaded
+    const queued: string[] = []
+    const queue = (data: RawData) => queued.push(data.toString())
+    socket.on('message', queue)
+
+    const meta = await this.backend.authorize(token, canvasId)
+    if (!meta) {
+      socket.close(TLSyncErrorCloseEventCode, TLSyncErrorCloseEventReason.NOT_AUTHENTICATED)
+      return
+    }
+
+    // The room may have closed while we waited for it, so fetch a fresh one
+    let canvasRoom = await this.getRoom(canvasId)
+    if (canvasRoom.closed || canvasRoom.room.isClosed()) {
+      canvasRoom = await this.getRoom(canvasId)
+    }
+    const { room } = canvasRoom
+
+    // The room attaches its own message, close and error listeners
+    socket.off('message', queue)
+    room.handleSocketConnect({
+      sessionId,
+      socket,
+      meta,
+      isReadonly: meta.permission === 'VIEW'
+    })
+
+    queued.forEach((message) => room.handleSocketMessage(sessionId, message))
+  }
+
+  // Number of rooms currently held in memory
+  getRoomCount(): number {
+    return this.rooms.size
+  }
+
+  // Persist and close every open room
+  async closeAll(): Promise<void> {
+    const canvasIds = Array.from(this.rooms.keys())
+    await Promise.all(canvasIds.map((canvasId) => this.closeRoom(canvasId)))
+  }
+
+  private getRoom(canvasId: string): Promise<CanvasRoom> {
+    let canvasRoom = this.rooms.get(canvasId)
+    if (!canvasRoom) {
+      canvasRoom = this.createRoom(canvasId)
+      this.rooms.set(canvasId, canvasRoom)
+      // Allow a later connection to retry if loading failed
+      canvasRoom.catch(() => this.rooms.delete(canvasId))
+    }
+    return canvasRoom
+  }
+
+  private async createRoom(canvasId: string): Promise<CanvasRoom> {
+    const { snapshot, version } = await this.backend.load(canvasId)
+
+    const canvasRoom: CanvasRoom = {
+      room: null as unknown as TLSocketRoom<TLRecord, SyncSessionMeta>,
+      version,
+      persistTimer: null,
+      checkTimer: null,
+      lastEditorId: null,
+      dirty: false,
+      closed: false,
+      task: Promise.resolve()
+    }
+
+    canvasRoom.room = new TLSocketRoom<TLRecord, SyncSessionMeta>({
+      initialSnapshot: snapshot ?? undefined,
+      onDataChange: () => {
+        canvasRoom.dirty = true
+        this.schedulePersist(canvasId, canvasRoom)
+      },
+      onAfterReceiveMessage: ({ meta }) => {
+        if (meta.permission !== 'VIEW') {
+          canvasRoom.lastEditorId = meta.userId
+        }
+      },
+      onSessionRemoved: (_room, { numSessionsRemaining }) => {
+        // A reset room is already closed, and a newer room may have taken its place
+        if (numSessionsRemaining === 0 && !canvasRoom.closed) {
+          this.closeRoom(canvasId).catch((error) => {
+            console.error(`Error closing sync room ${canvasId}:`, error)
+          })
+        }
+      }
+    })
+
+    canvasRoom.checkTimer = setInterval(() => {
+      this.runTask(canvasRoom, () => this.checkRoom(canvasId, canvasRoom)).catch((error) => {
+        console.error(`Error checking sync room ${canvasId}:`, error)
+      })
+    }, this.checkInterval)
+    canvasRoom.checkTimer.unref()
+
+    return canvasRoom
+  }
+
+  // Queue work behind the room's running persist or check
+  private runTask(canvasRoom: CanvasRoom, task: () => Promise<void>): Promise<void> {
+    const run = canvasRoom.task.then(task)
+    canvasRoom.task = run.catch(() => undefined)
+    return run
+  }
+
+  private schedulePersist(canvasId: string, canvasRoom: CanvasRoom) {
+    if (canvasRoom.persistTimer || canvasRoom.closed) return
+    canvasRoom.persistTimer = setTimeout(() => {
+      canvasRoom.persistTimer = null
+      this.runTask(canvasRoom, () => this.persistRoom(canvasId, canvasRoom)).catch((error) => {
+        console.error(`Error persisting sync room ${canvasId}:`, error)
+      })
+    }, this.persistDelay)
+  }
+
+  // Disconnect sessions whose share was revoked, and reconnect downgraded editors read-only
+  // Returns the permissions that were looked up, by user id
+  private async checkSessions(
+    canvasId: string,
+    canvasRoom: CanvasRoom
+  ): Promise<Map<string, PermissionLevel | null>> {
+    const permissions = new Map<string, PermissionLevel | null>()
+
+    for (const session of canvasRoom.room.getSessions()) {
+      const { userId } = session.meta
+      if (!permissions.has(userId)) {
+        permissions.set(userId, await this.backend.getPermission(userId, canvasId))
+      }
+      const permission = permissions.get(userId)
+
+      if (!permission) {
+        canvasRoom.room.closeSession(session.sessionId, TLSyncErrorCloseEventReason.FORBIDDEN)
+      } else if (permission === 'VIEW' && !session.isReadonly) {
+        // The client reconnects and is authorized again with its current access
+        canvasRoom.room.closeSession(session.sessionId)
+      }
+    }
+
+    return permissions
+  }
+
+  private async checkRoom(canvasId: string, canvasRoom: CanvasRoom): Promise<void> {
+    if (canvasRoom.closed) return
+
+    await this.checkSessions(canvasId, canvasRoom)
+
+    // Saved outside the room since it loaded, or deleted
+    const version = await this.backend.getVersion(canvasId)
+    if (version !== canvasRoom.version) {
+      this.resetRoom(canvasId, canvasRoom)
+    }
+  }
+
+  private async persistRoom(canvasId: string, canvasRoom: CanvasRoom): Promise<void> {
+    if (!canvasRoom.dirty || !canvasRoom.lastEditorId) return
+    canvasRoom.dirty = false
+    const editorId = canvasRoom.lastEditorId
+
+    // Changes are saved as the last editor, so they only count while that user may still edit
+    const permissions = await this.checkSessions(canvasId, canvasRoom)
+    const permission = permissions.has(editorId)
+      ? permissions.get(editorId)
+      : await this.backend.getPermission(editorId, canvasId)
+    if (!permission || permission === 'VIEW') {
+      console.warn(`Sync room ${canvasId}: ${editorId} can no longer edit, discarding unsaved changes`)
+      this.resetRoom(canvasId, canvasRoom)
+      return
+    }
+
+    // Room snapshots only contain document records, never presence
+    const roomSnapshot = canvasRoom.room.getCurrentSnapshot()
+    const snapshot = {
+      store: Object.fromEntries(roomSnapshot.documents.map((doc) => [doc.state.id, doc.state])),
+      schema: roomSnapshot.schema
+    } as TLStoreSnapshot
+
+    let version: number | null
+    try {
+      version = await this.backend.persist(canvasId, editorId, snapshot, canvasRoom.version)
+    } catch (error) {
+      canvasRoom.dirty = true
+      throw error
+    }
+
+    if (version === null) {
+      // The stored canvas wins over the room, which would otherwise overwrite it
+      console.warn(`Sync room ${canvasId}: canvas was saved elsewhere, discarding unsaved changes`)
+      this.resetRoom(canvasId, canvasRoom)
+      return
+    }
+    canvasRoom.version = version
+  }
+
+  private stopTimers(canvasRoom: CanvasRoom) {
+    if (canvasRoom.persistTimer) {
+      clearTimeout(canvasRoom.persistTimer)
+      canvasRoom.persistTimer = null
+    }
+    if (canvasRoom.checkTimer) {
+      clearInterval(canvasRoom.checkTimer)
+      canvasRoom.checkTimer = null
+    }
+  }
+
+  // Close a room without saving it; its clients reconnect to a fresh room loaded from storage
+  private resetRoom(canvasId: string, canvasRoom: CanvasRoom) {
+    canvasRoom.closed = true
+    this.stopTimers(canvasRoom)
+
+    const pending = this.rooms.get(canvasId)
+    pending?.then((current) => {
+      if (current === canvasRoom && this.rooms.get(canvasId) === pending) {
+        this.rooms.delete(canvasId)
+      }
+    }, () => undefined)
+
+    canvasRoom.room.close()
+  }
+
+  private async closeRoom(canvasId: string): Promise<void> {
+    const pending = this.rooms.get(canvasId)
+    if (!pending) return
+    this.rooms.delete(canvasId)
+
+    const canvasRoom = await pending
+    canvasRoom.closed = true
+    this.stopTimers(canvasRoom)
+    await this.runTask(canvasRoom, () => this.persistRoom(canvasId, canvasRoom))
+    canvasRoom.room.close()
+  }
+}
+
+// Create an HTTP server that accepts websocket connections on /sync/:canvasId
+export function createSyncServer(manager: SyncRoomManager): Server {
+  const server = createServer((req, res) => {
+    if (req.url === '/health') {
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ ok: true, rooms: manager.getRoomCount() }))
+      return
+    }
+    res.writeHead(404)
+    res.end()
+  })
+
+  const wss = new WebSocketServer({ noServer: true })
+
+  server.on('upgrade', (req: IncomingMessage, socket, head) => {
+    const url = new URL(req.url || '/', 'http://localhost')
+    const match = url.pathname.match(/^\/sync\/([^/]+)$/)
+    const token = url.searchParams.get('token')
+    const sessionId = url.searchParams.get('sessionId')
+
+    if (!match || !token || !sessionId) {
+      socket.write('HTTP/1.1 400 Bad Request\r\n\r\n')
+      socket.destroy()
+      return
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      manager
+        .handleConnection(ws, decodeURIComponent(match[1]), sessionId, token)
+        .catch((error) => {
+          console.error('Error handling sync connection:', error)
+          ws.close(1011, 'Internal error')
+        })
+    })
+  })
+
+  server.on('close', () => wss.close())
+
+  return server
+}
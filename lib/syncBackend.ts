@@ -0,0 +1,114 @@
+import { randomUUID } from 'crypto'
+import { prisma } from './prisma'
+import { saveCanvas, getCanvasPermission, CanvasError } from './canvas'
+import { toAssetFileSources } from './assets'
+import { verifySyncToken } from './syncToken'
+import type { SyncRoomBackend } from './sync'
+import type { CollaboratorInfo } from '../types/tldraw'
+import type { TLRecord, TLStoreSnapshot } from 'tldraw'
+
+// Cursor and badge colours handed out to collaborators
+const COLLABORATOR_COLORS = [
+  '#e03131', '#f76707', '#f59f00', '#2f9e44', '#0c8599',
+  '#1971c2', '#6741d9', '#c2255c', '#5c940d', '#862e9c'
+]
+
+// Pick a stable colour for a user so they look the same in every session
+function getCollaboratorColor(userId: string): string {
+  let hash = 0
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0
+  }
+  return COLLABORATOR_COLORS[Math.abs(hash) % COLLABORATOR_COLORS.length]
+}
+
+// Name and colour shown on a user's cursor and participant badge
+export async function getCollaboratorInfo(userId: string): Promise<CollaboratorInfo | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, name: true, email: true }
+  })
+  if (!user) return null
+
+  return {
+    id: user.id,
+    name: user.name || user.email.split('@')[0],
+    color: getCollaboratorColor(user.id)
+  }
+}
+
+// Visitors on a share link get a fresh id per connection; the link token is never shown to others
+export function getGuestCollaboratorInfo(): CollaboratorInfo {
+  const id = `guest-${randomUUID()}`
+  return { id, name: 'Guest', color: getCollaboratorColor(id) }
+}
+
+// Sync backend that authorizes against canvas shares and persists through lib/canvas
+export const prismaSyncBackend: SyncRoomBackend = {
+  async authorize(token, canvasId) {
+    const payload = verifySyncToken(token)
+    if (!payload || payload.canvasId !== canvasId) return null
+
+    // Re-check access in case a share was revoked after the token was issued
+    const permission = await getCanvasPermission(payload.userId, canvasId)
+    if (!permission) return null
+
+    return { userId: payload.userId, permission }
+  },
+
+  getPermission(userId, canvasId) {
+    return getCanvasPermission(userId, canvasId)
+  },
+
+  async load(canvasId) {
+    const canvas = await prisma.canvas.findUnique({
+      where: { id: canvasId },
+      select: {
+        documentData: true,
+        version: true,
+        assets: { select: { assetId: true, publicUrl: true } }
+      }
+    })
+    if (!canvas) {
+      throw new CanvasError('Canvas not found', 'NOT_FOUND')
+    }
+
+    // Freshly created canvases have an empty document
+    // Older documents link straight to storage; the room persists the rewritten sources
+    const snapshot = toAssetFileSources(
+      canvas.documentData as unknown as TLStoreSnapshot | null,
+      canvasId,
+      canvas.assets
+    )
+    return {
+      snapshot: snapshot?.store && snapshot.schema ? snapshot : null,
+      version: canvas.version
+    }
+  },
+
+  async getVersion(canvasId) {
+    const canvas = await prisma.canvas.findUnique({
+      where: { id: canvasId },
+      select: { version: true }
+    })
+    return canvas?.version ?? null
+  },
+
+  async persist(canvasId, userId, snapshot, baseVersion) {
+    try {
+      const metadata = await saveCanvas(
+        userId,
+        canvasId,
+        snapshot as unknown as Record<string, TLRecord>,
+        undefined,
+        undefined,
+        undefined,
+        baseVersion
+      )
+      return metadata.version
+    } catch (error) {
+      if (error instanceof CanvasError && error.code === 'CONFLICT') return null
+      throw error
+    }
+  }
+}
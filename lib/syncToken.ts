@@ -0,0 +1,55 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import type { PermissionLevel } from '../types/tldraw'
+
+// Short-lived ticket that lets a browser join a canvas room on the sync server
+export interface SyncTokenPayload {
+  userId: string
+  canvasId: string
+  permission: PermissionLevel
+  exp: number // Expiry as a unix timestamp in seconds
+}
+
+function getSyncSecret(): string {
+  const secret = process.env.SYNC_TOKEN_SECRET || process.env.AUTH_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('SYNC_TOKEN_SECRET (or AUTH_SECRET) not configured')
+  }
+  return secret
+}
+
+function sign(data: string): string {
+  return createHmac('sha256', getSyncSecret()).update(data).digest('base64url')
+}
+
+// Create a signed sync token valid for ttlSeconds
+export function createSyncToken(
+  payload: Omit<SyncTokenPayload, 'exp'>,
+  ttlSeconds: number = 60
+): string {
+  const body: SyncTokenPayload = {
+    ...payload,
+    exp: Math.floor(Date.now() / 1000) + ttlSeconds
+  }
+  const data = Buffer.from(JSON.stringify(body)).toString('base64url')
+  return `${data}.${sign(data)}`
+}
+
+// Verify a sync token, returning its payload or null if invalid or expired
+export function verifySyncToken(token: string): SyncTokenPayload | null {
+  const [data, signature] = token.split('.')
+  if (!data || !signature) return null
+
+  const expected = Buffer.from(sign(data))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, 'base64url').toString()) as SyncTokenPayload
+    if (payload.exp < Math.floor(Date.now() / 1000)) return null
+    return payload
+  } catch {
+    return null
+  }
+}
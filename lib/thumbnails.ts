@@ -0,0 +1,150 @@
+import { prisma } from './prisma'
+import { getStorage } from './storage'
+import { CanvasError, checkCanvasPermission } from './canvas'
+import { getCanvasThumbnailUrl } from './assetUrl'
+import type { CanvasThumbnailResponse } from '../types/tldraw'
+
+// Thumbnails are small previews, so keep uploads well below the asset limit
+export const THUMBNAIL_MAX_SIZE = 1024 * 1024 // 1MB
+export const THUMBNAIL_TYPES = ['image/png', 'image/jpeg', 'image/webp']
+
+// Every canvas has a single thumbnail object that is overwritten in place
+export function getThumbnailKey(canvasId: string): string {
+  return `canvases/${canvasId}/thumbnail`
+}
+
+// Store a rendered thumbnail for a canvas
+// version is the canvas version the image was rendered from (defaults to the current one)
+export async function saveCanvasThumbnail(
+  userId: string,
+  canvasId: string,
+  image: Buffer,
+  contentType: string,
+  version?: number
+): Promise<CanvasThumbnailResponse> {
+  try {
+    if (!THUMBNAIL_TYPES.includes(contentType)) {
+      throw new CanvasError('Unsupported thumbnail type. Supported: PNG, JPEG, WebP', 'INVALID_FILE_TYPE')
+    }
+
+    if (image.length > THUMBNAIL_MAX_SIZE) {
+      throw new CanvasError('Thumbnail exceeds 1MB limit', 'FILE_TOO_LARGE')
+    }
+
+    const hasPermission = await checkCanvasPermission(userId, canvasId, 'EDIT')
+    if (!hasPermission) {
+      throw new CanvasError('Insufficient permissions to update thumbnail', 'PERMISSION_DENIED')
+    }
+
+    const canvas = await prisma.canvas.findUnique({
+      where: { id: canvasId },
+      select: { version: true, thumbnailUrl: true, thumbnailVersion: true }
+    })
+
+    if (!canvas) {
+      throw new CanvasError('Canvas not found', 'NOT_FOUND')
+    }
+
+    // Skip renders of documents that are no newer than the stored thumbnail
+    const renderedVersion = Math.min(version ?? canvas.version, canvas.version)
+    if (canvas.thumbnailVersion !== null && renderedVersion <= canvas.thumbnailVersion) {
+      return {
+        thumbnailUrl: canvas.thumbnailUrl,
+        thumbnailVersion: canvas.thumbnailVersion,
+        updated: false
+      }
+    }
+
+    const key = getThumbnailKey(canvasId)
+    await getStorage().put(key, image, {
+      contentType,
+      // Only reached through short-lived presigned URLs, never shared caches
+      cacheControl: 'private, max-age=3600',
+      metadata: {
+        canvasId,
+        version: String(renderedVersion)
+      }
+    })
+
+    const thumbnailUrl = getCanvasThumbnailUrl(canvasId, renderedVersion)
+    await prisma.canvas.update({
+      where: { id: canvasId },
+      data: { thumbnailUrl, thumbnailVersion: renderedVersion }
+    })
+
+    return { thumbnailUrl, thumbnailVersion: renderedVersion, updated: true }
+  } catch (error) {
+    if (error instanceof CanvasError) throw error
+    console.error('Error saving canvas thumbnail:', error)
+    throw new CanvasError('Failed to save canvas thumbnail')
+  }
+}
+
+// Short-lived URL of a canvas thumbnail for someone who can view the canvas
+export async function getCanvasThumbnailDownloadUrl(
+  userId: string,
+  canvasId: string,
+  expiresIn: number
+): Promise<string> {
+  try {
+    const hasPermission = await checkCanvasPermission(userId, canvasId, 'VIEW')
+    if (!hasPermission) {
+      throw new CanvasError('Canvas not found or access denied', 'NOT_FOUND')
+    }
+
+    const canvas = await prisma.canvas.findUnique({
+      where: { id: canvasId },
+      select: { thumbnailUrl: true }
+    })
+
+    if (!canvas?.thumbnailUrl) {
+      throw new CanvasError('Canvas has no thumbnail', 'NOT_FOUND')
+    }
+
+    return await getStorage().presignGet(getThumbnailKey(canvasId), expiresIn)
+  } catch (error) {
+    if (error instanceof CanvasError) throw error
+    console.error('Error getting canvas thumbnail:', error)
+    throw new CanvasError('Failed to get canvas thumbnail')
+  }
+}
+
+// Remove the thumbnail of a canvas whose pages have become empty
+export async function clearCanvasThumbnail(
+  userId: string,
+  canvasId: string
+): Promise<void> {
+  try {
+    const hasPermission = await checkCanvasPermission(userId, canvasId, 'EDIT')
+    if (!hasPermission) {
+      throw new CanvasError('Insufficient permissions to update thumbnail', 'PERMISSION_DENIED')
+    }
+
+    const canvas = await prisma.canvas.findUnique({
+      where: { id: canvasId },
+      select: { version: true, thumbnailUrl: true }
+    })
+
+    if (!canvas) {
+      throw new CanvasError('Canvas not found', 'NOT_FOUND')
+    }
+
+    if (!canvas.thumbnailUrl) return
+
+    try {
+      await getStorage().delete(getThumbnailKey(canvasId))
+    } catch (storageError) {
+      console.error('Error deleting thumbnail from storage:', storageError)
+      // Continue so the card falls back to the placeholder
+    }
+
+    await prisma.canvas.update({
+      where: { id: canvasId },
+      data: { thumbnailUrl: null, thumbnailVersion: canvas.version }
+    })
+  } catch (error) {
+    if (error instanceof CanvasError) throw error
+    console.error('Error clearing canvas thumbnail:', error)
+    throw new CanvasError('Failed to clear canvas thumbnail')
+  }
+}
@@ -0,0 +1,51 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+
+// Opaque reference to a stored object, handed to clients in place of its storage key
+// Encrypted so the key stays private, and bound to the canvas it was issued for
+interface UploadHandlePayload {
+  canvasId: string
+  key: string
+  exp: number // Expiry as a unix timestamp in seconds
+}
+
+// Multipart uploads can be resumed days later, so handles outlive a browser session
+const UPLOAD_HANDLE_TTL = 7 * 24 * 60 * 60 // 7 days
+
+function getHandleKey(): Buffer {
+  const secret = process.env.AUTH_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('AUTH_SECRET not configured')
+  }
+  return createHash('sha256').update(`upload-handle:${secret}`).digest()
+}
+
+// Handle for an object a client may register as an asset of canvasId
+export function createUploadHandle(canvasId: string, key: string): string {
+  const payload: UploadHandlePayload = {
+    canvasId,
+    key,
+    exp: Math.floor(Date.now() / 1000) + UPLOAD_HANDLE_TTL
+  }
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', getHandleKey(), iv)
+  const data = Buffer.concat([cipher.update(JSON.stringify(payload)), cipher.final()])
+  return [iv, data, cipher.getAuthTag()].map((part) => part.toString('base64url')).join('.')
+}
+
+// Storage key behind a handle, or null if it was not issued for canvasId or has expired
+export function readUploadHandle(handle: string, canvasId: string): string | null {
+  const [iv, data, tag] = handle.split('.').map((part) => Buffer.from(part, 'base64url'))
+  if (!iv?.length || !data?.length || tag?.length !== 16) return null
+
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', getHandleKey(), iv)
+    decipher.setAuthTag(tag)
+    const payload = JSON.parse(
+      Buffer.concat([decipher.update(data), decipher.final()]).toString()
+    ) as UploadHandlePayload
+    if (payload.canvasId !== canvasId || payload.exp < Math.floor(Date.now() / 1000)) return null
+    return payload.key
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,45 @@
+import { prisma } from './prisma'
+import type { UserSearchResult } from '../types/tldraw'
+
+export const USER_SEARCH_MIN_LENGTH = 2
+const USER_SEARCH_LIMIT = 8
+
+// Find people to share with, leaving out the searcher
+// Only people the searcher already shares canvases with are matched by name or partial email;
+// anyone else has to be typed in full, so the user directory can't be browsed
+export async function searchUsers(userId: string, query: string): Promise<UserSearchResult[]> {
+  const term = query.trim()
+  if (term.length < USER_SEARCH_MIN_LENGTH) return []
+
+  const users = await prisma.user.findMany({
+    where: {
+      id: { not: userId },
+      OR: [
+        { email: { equals: term, mode: 'insensitive' } },
+        {
+          OR: [
+            { email: { contains: term, mode: 'insensitive' } },
+            { name: { contains: term, mode: 'insensitive' } }
+          ],
+          AND: {
+            OR: [
+              // Collaborators on the searcher's canvases
+              { sharedCanvases: { some: { canvas: { userId } } } },
+              // Owners of canvases shared with the searcher
+              { canvases: { some: { shares: { some: { userId } } } } }
+            ]
+          }
+        }
+      ]
+    },
+    select: { id: true, name: true, email: true },
+    orderBy: { email: 'asc' },
+    take: USER_SEARCH_LIMIT
+  })
+
+  return users.map((user) => ({
+    id: user.id,
+    name: user.name || undefined,
+    email: user.email
+  }))
+}
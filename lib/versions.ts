@@ -0,0 +1,85 @@
+import { prisma } from './prisma'
+import type { Prisma } from '@prisma/client'
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+// Retention tiers: versions younger than maxAge are thinned to the newest
+// version per bucket. A bucket of 0 keeps every version in that tier.
+export const VERSION_RETENTION_TIERS = [
+  { maxAge: DAY, bucket: 0 },          // Keep every version for 24h
+  { maxAge: 7 * DAY, bucket: HOUR },   // Then one per hour for a week
+  { maxAge: 90 * DAY, bucket: DAY },   // Then one per day for 90 days
+  { maxAge: Infinity, bucket: 7 * DAY } // Then one per week
+]
+
+interface VersionStamp {
+  id: string
+  version: number
+  createdAt: Date
+}
+
+// Work out which versions fall outside the retention policy
+export function selectPrunableVersions(
+  versions: VersionStamp[],
+  now: Date = new Date()
+): string[] {
+  // Newest first so the first version seen in a bucket is the one we keep
+  const sorted = [...versions].sort((a, b) => b.version - a.version)
+  const keptBuckets = new Set<string>()
+  const prunable: string[] = []
+
+  sorted.forEach((entry, index) => {
+    // Never prune the latest version
+    if (index === 0) return
+
+    const age = now.getTime() - entry.createdAt.getTime()
+    const tierIndex = VERSION_RETENTION_TIERS.findIndex(tier => age < tier.maxAge)
+    const tier = VERSION_RETENTION_TIERS[tierIndex]
+    if (tier.bucket === 0) return
+
+    const bucketKey = `${tierIndex}:${Math.floor(entry.createdAt.getTime() / tier.bucket)}`
+    if (keptBuckets.has(bucketKey)) {
+      prunable.push(entry.id)
+    } else {
+      keptBuckets.add(bucketKey)
+    }
+  })
+
+  return prunable
+}
+
+// Record a snapshot for a freshly saved canvas version
+export async function recordCanvasVersion(
+  client: Prisma.TransactionClient,
+  canvasId: string,
+  version: number,
+  document: unknown,
+  userId?: string
+): Promise<void> {
+  await client.canvasVersion.create({
+    data: {
+      canvasId,
+      version,
+      documentData: document as any, // Prisma Json type
+      createdBy: userId
+    }
+  })
+}
+
+// Delete versions that fall outside the retention policy
+export async function pruneCanvasVersions(canvasId: string): Promise<number> {
+  const versions = await prisma.canvasVersion.findMany({
+    where: { canvasId },
+    select: { id: true, version: true, createdAt: true }
+  })
+
+  const prunable = selectPrunableVersions(versions)
+  if (prunable.length === 0) return 0
+
+  const result = await prisma.canvasVersion.deleteMany({
+    where: { id: { in: prunable } }
+  })
+
+  return result.count
+}
@@ -5,12 +5,15 @@ export default auth((req) => {
   const { pathname } = req.nextUrl
   
   // Routes that should be completely public (no redirect)
+  // Exact matches, except entries ending in '/', which cover everything below them
   const publicRoutes = [
     '/',
     '/auth/signin', 
     '/auth/register',
-    '/api/auth/register',
-    '/debug'
+    '/debug',
+    '/canvas/', // Local canvases; server canvases check their own access (share link guests have no session)
+    '/s/', // Share links; VIEW links work without an account
+    '/invitations/' // Invitation links; signed-out visitors are asked to sign in there
   ]
   
   // Protected routes that require authentication but don't redirect
@@ -21,12 +24,17 @@ export default auth((req) => {
   ]
   
   // Check if the current path is public
-  const isPublicRoute = publicRoutes.some(route => pathname === route || pathname.startsWith(route))
+  const isPublicRoute = publicRoutes.some(route => pathname === route || (route.endsWith('/') && route !== '/' && pathname.startsWith(route)))
   
   // Always allow access to NextAuth internal routes
   if (pathname.startsWith('/api/auth/')) {
     return NextResponse.next()
   }
+
+  // API routes check the session themselves and answer 401 rather than redirecting
+  if (pathname.startsWith('/api/')) {
+    return NextResponse.next()
+  }
   
   // If user is not authenticated and trying to access protected route
   if (!req.auth && !isPublicRoute) {
@@ -1,4 +1,7 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {}
+const nextConfig = {
+  // Native PNG renderer used by canvas exports, and the image resizer whose WASM is loaded from node_modules
+  serverExternalPackages: ['@resvg/resvg-js', '@jsquash/webp', 'jimp']
+}
 
 module.exports = nextConfig
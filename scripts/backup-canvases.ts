@@ -0,0 +1,96 @@
+#!/usr/bin/env tsx
+
+// Bulk backup and restore of canvases
+//
+// Usage:
+//   tsx scripts/backup-canvases.ts backup <user-email> [output-dir]
+//   tsx scripts/backup-canvases.ts restore <user-email> <backup.zip> [more.zip...]
+
+import { mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { prisma } from '../lib/prisma'
+import { createCanvasBackup, restoreCanvasBackup } from '../lib/backup'
+
+async function findUser(email: string) {
+  const user = await prisma.user.findUnique({ where: { email } })
+  if (!user) {
+    throw new Error(`No user with email ${email}`)
+  }
+  return user
+}
+
+// Back up every canvas owned by the user into one zip per canvas
+async function backupUser(email: string, outputDir: string) {
+  const user = await findUser(email)
+  const canvases = await prisma.canvas.findMany({
+    where: { userId: user.id },
+    select: { id: true, name: true },
+    orderBy: { createdAt: 'asc' }
+  })
+
+  console.log(`🗄️  Backing up ${canvases.length} canvas(es) of ${email} to ${outputDir}\n`)
+  mkdirSync(outputDir, { recursive: true })
+
+  let failed = 0
+  for (const canvas of canvases) {
+    try {
+      const backup = await createCanvasBackup(user.id, canvas.id)
+      writeFileSync(join(outputDir, backup.fileName), backup.data)
+      console.log(`✅ ${canvas.name} → ${backup.fileName} (${Math.round(backup.data.length / 1024)} KB)`)
+    } catch (error) {
+      failed++
+      console.error(`❌ ${canvas.name} (${canvas.id}):`, error instanceof Error ? error.message : error)
+    }
+  }
+
+  console.log(`\n🎉 Backed up ${canvases.length - failed} of ${canvases.length} canvas(es)`)
+  return failed === 0
+}
+
+// Restore backup archives as new canvases owned by the user
+async function restoreUser(email: string, files: string[]) {
+  const user = await findUser(email)
+  console.log(`♻️  Restoring ${files.length} backup(s) for ${email}\n`)
+
+  let failed = 0
+  for (const file of files) {
+    try {
+      const result = await restoreCanvasBackup(user.id, readFileSync(file))
+      console.log(`✅ ${file} → ${result.canvas.name} (${result.canvas.id}), ${result.restoredAssets} asset(s), ${result.restoredShares} share(s)`)
+      if (result.skippedShares.length) {
+        console.log(`   ⚠️  Skipped shares for unknown users: ${result.skippedShares.join(', ')}`)
+      }
+    } catch (error) {
+      failed++
+      console.error(`❌ ${file}:`, error instanceof Error ? error.message : error)
+    }
+  }
+
+  console.log(`\n🎉 Restored ${files.length - failed} of ${files.length} backup(s)`)
+  return failed === 0
+}
+
+async function main() {
+  const [command, email, ...rest] = process.argv.slice(2)
+
+  if (!email || (command !== 'backup' && command !== 'restore') || (command === 'restore' && rest.length === 0)) {
+    console.log('Usage:')
+    console.log('  tsx scripts/backup-canvases.ts backup <user-email> [output-dir]')
+    console.log('  tsx scripts/backup-canvases.ts restore <user-email> <backup.zip> [more.zip...]')
+    process.exit(1)
+  }
+
+  try {
+    const ok = command === 'backup'
+      ? await backupUser(email, rest[0] || join('backups', email))
+      : await restoreUser(email, rest)
+    process.exitCode = ok ? 0 : 1
+  } catch (error) {
+    console.error('❌', error instanceof Error ? error.message : error)
+    process.exitCode = 1
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+main()
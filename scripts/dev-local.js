@@ -40,9 +40,21 @@ switch (command) {
     cmd = 'prisma';
     cmdArgs = ['generate', ...args];
     break;
+  case 'sync':
+    cmd = 'tsx';
+    cmdArgs = ['scripts/sync-server.ts', ...args];
+    break;
+  case 'backup':
+    cmd = 'tsx';
+    cmdArgs = ['scripts/backup-canvases.ts', ...args];
+    break;
+  case 'gc':
+    cmd = 'tsx';
+    cmdArgs = ['scripts/storage-gc.ts', ...args];
+    break;
   default:
     console.error(`Unknown command: ${command}`);
-    console.log('Available commands: dev, db:push, db:studio, db:generate');
+    console.log('Available commands: dev, db:push, db:studio, db:generate, sync, backup, gc');
     process.exit(1);
 }
 
@@ -0,0 +1,71 @@
+#!/usr/bin/env tsx
+
+// Storage garbage collection: finds objects and asset records nothing uses any more
+// Reports only unless --delete is given; schedule it with --delete as a daily cron job
+//
+// Usage:
+//   tsx scripts/storage-gc.ts [--delete] [--grace-hours=<hours>] [--json]
+
+import { prisma } from '../lib/prisma'
+import { collectStorageGarbage, DEFAULT_GC_GRACE_PERIOD_HOURS, MIN_GC_GRACE_PERIOD_HOURS } from '../lib/storageGc'
+import type { StorageGarbageReason } from '../types/tldraw'
+
+const REASON_LABELS: Record<StorageGarbageReason, string> = {
+  'unregistered': 'Never registered',
+  'deleted-canvas': 'Deleted canvas',
+  'unreferenced-asset': 'Unused asset',
+  'test-upload': 'Test upload'
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024
+    ? `${Math.round(bytes / (1024 * 1024) * 10) / 10} MB`
+    : `${Math.round(bytes / 1024)} KB`
+}
+
+async function main() {
+  const args = process.argv.slice(2)
+  const graceArg = args.find((arg) => arg.startsWith('--grace-hours='))
+  const gracePeriodHours = graceArg ? Number(graceArg.split('=')[1]) : DEFAULT_GC_GRACE_PERIOD_HOURS
+  const unknown = args.filter((arg) => arg !== '--delete' && arg !== '--json' && arg !== graceArg)
+
+  if (unknown.length > 0 || !(gracePeriodHours >= MIN_GC_GRACE_PERIOD_HOURS)) {
+    console.log('Usage:')
+    console.log('  tsx scripts/storage-gc.ts [--delete] [--grace-hours=<hours>] [--json]')
+    console.log(`  The grace period defaults to ${DEFAULT_GC_GRACE_PERIOD_HOURS} hours and must be at least ${MIN_GC_GRACE_PERIOD_HOURS}`)
+    process.exit(1)
+  }
+
+  const dryRun = !args.includes('--delete')
+  try {
+    const report = await collectStorageGarbage({ dryRun, gracePeriodHours })
+
+    if (args.includes('--json')) {
+      console.log(JSON.stringify(report, null, 2))
+    } else {
+      console.log(`🧹 ${dryRun ? 'Dry run: nothing will be deleted' : 'Deleting unused storage'} (grace period ${gracePeriodHours}h)\n`)
+      for (const asset of report.assets) {
+        console.log(`   Unused asset record ${asset.assetId} on canvas ${asset.canvasId}`)
+      }
+      for (const object of report.objects) {
+        console.log(`   ${REASON_LABELS[object.reason].padEnd(18)} ${formatBytes(object.size).padStart(9)}  ${object.key}`)
+      }
+      console.log(`\n📦 Scanned ${report.scannedObjects} object(s), ${report.recentObjects} unused but within the grace period`)
+      console.log(`🗑️  ${report.objects.length} unused object(s), ${formatBytes(report.totalBytes)}; ${report.assets.length} unused asset record(s)`)
+      if (!dryRun) {
+        console.log(`✅ Deleted ${report.deletedObjects} object(s) and ${report.deletedAssets} asset record(s)`)
+      }
+      for (const error of report.errors) {
+        console.error(`❌ ${error}`)
+      }
+    }
+    process.exitCode = report.errors.length === 0 ? 0 : 1
+  } catch (error) {
+    console.error('❌', error instanceof Error ? error.message : error)
+    process.exitCode = 1
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+main()
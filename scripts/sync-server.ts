@@ -0,0 +1,29 @@
+#!/usr/bin/env tsx
+
+// Real-time collaboration server: hosts one tldraw room per canvas over websockets
+// and persists merged documents through lib/canvas
+
+import { SyncRoomManager, createSyncServer } from '../lib/sync'
+import { prismaSyncBackend } from '../lib/syncBackend'
+import { prisma } from '../lib/prisma'
+
+const port = parseInt(process.env.SYNC_PORT || '5858')
+
+const manager = new SyncRoomManager(prismaSyncBackend)
+const server = createSyncServer(manager)
+
+server.listen(port, () => {
+  console.log(`🔄 Sync server listening on ws://localhost:${port}/sync/:canvasId`)
+})
+
+// Persist open rooms before shutting down
+async function shutdown() {
+  console.log('Shutting down sync server...')
+  server.close()
+  await manager.closeAll()
+  await prisma.$disconnect()
+  process.exit(0)
+}
+
+process.on('SIGINT', shutdown)
+process.on('SIGTERM', shutdown)
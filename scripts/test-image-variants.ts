@@ -0,0 +1,87 @@
+#!/usr/bin/env tsx
+
+// Image variant rendering test: resized WebP copies of generated images
+// Runs against local storage in a temporary directory: no database or R2 needed
+
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { Jimp } from 'jimp'
+
+async function runTests() {
+  const root = await mkdtemp(path.join(tmpdir(), 'variants-test-'))
+  process.env.STORAGE_DRIVER = 'local'
+  process.env.LOCAL_STORAGE_DIR = root
+  process.env.NEXT_PUBLIC_URL = 'http://localhost:3000'
+
+  // Imported after the environment is set so the driver picks it up
+  const { getStorage } = await import('../lib/storage')
+  const { getVariantKey, renderImageVariants } = await import('../lib/imageVariants')
+  const { readMediaInfo } = await import('../lib/mediaInfo')
+  const storage = getStorage()
+
+  try {
+    console.log('🚀 Testing image variants\n')
+
+    // Test 1: Large images get every smaller width
+    console.log('🧪 Resizing a large JPEG...')
+    const photo = new Jimp({ width: 3000, height: 2000, color: 0x3366ffff })
+    await storage.put('canvases/a/assets/photo.jpg', await photo.getBuffer('image/jpeg'), { contentType: 'image/jpeg' })
+    const variants = await renderImageVariants('canvases/a/assets/photo.jpg', 'image/jpeg')
+    const widths = variants.map((variant) => variant.width).join(',')
+    if (widths !== '256,1024,2048') {
+      throw new Error(`Expected widths 256,1024,2048, got ${widths}`)
+    }
+    for (const variant of variants) {
+      const stored = await storage.get(variant.r2Key)
+      const info = readMediaInfo(stored.body)
+      if (info?.mimeType !== 'image/webp' || info.width !== variant.width || info.height !== variant.height) {
+        throw new Error(`Variant ${variant.r2Key} is not a ${variant.width}px WebP`)
+      }
+      if (variant.height !== Math.round(variant.width * 2 / 3) || stored.body.length !== variant.fileSize) {
+        throw new Error(`Variant ${variant.r2Key} has the wrong size`)
+      }
+    }
+    console.log(`✅ Created ${variants.length} WebP variants\n`)
+
+    // Test 2: Only widths below the original are made, WebP sources included
+    console.log('🧪 Resizing medium WebP and PNG images...')
+    const medium = new Jimp({ width: 1500, height: 500, color: 0xff0000ff })
+    // The 1024px variant from the first test doubles as a WebP upload
+    const { body: webp } = await storage.get(variants[1].r2Key)
+    await storage.put('canvases/a/assets/medium.webp', webp, { contentType: 'image/webp' })
+    await storage.put('canvases/a/assets/medium.png', await medium.getBuffer('image/png'), { contentType: 'image/png' })
+    const fromWebp = await renderImageVariants('canvases/a/assets/medium.webp', 'image/webp')
+    const fromPng = await renderImageVariants('canvases/a/assets/medium.png', 'image/png')
+    if (fromWebp.map((variant) => variant.width).join(',') !== '256' || fromPng.map((variant) => variant.width).join(',') !== '256,1024') {
+      throw new Error('Variants were made at or above the original width')
+    }
+    if (await storage.head(getVariantKey('canvases/a/assets/medium.png', 2048))) {
+      throw new Error('A variant wider than the original was stored')
+    }
+    console.log('✅ Only smaller widths are made\n')
+
+    // Test 3: Small and animated images are left alone
+    console.log('🧪 Skipping images that need no variants...')
+    const icon = new Jimp({ width: 200, height: 200, color: 0x00ff00ff })
+    await storage.put('canvases/a/assets/icon.png', await icon.getBuffer('image/png'), { contentType: 'image/png' })
+    const frame = [0x21, 0xf9, 4, 0, 0, 0, 0, 0, 0x2c, 0, 0, 0, 0, 0xb8, 0x0b, 0xd0, 0x07, 0, 2, 2, 0x4c, 0x01, 0]
+    const animated = Buffer.from([...Array.from(Buffer.from('GIF89a')), 0xb8, 0x0b, 0xd0, 0x07, 0, 0, 0, ...frame, ...frame, 0x3b])
+    await storage.put('canvases/a/assets/animated.gif', animated, { contentType: 'image/gif' })
+    const small = await renderImageVariants('canvases/a/assets/icon.png', 'image/png')
+    const moving = await renderImageVariants('canvases/a/assets/animated.gif', 'image/gif')
+    if (small.length !== 0 || moving.length !== 0) {
+      throw new Error('Small or animated images got variants')
+    }
+    console.log('✅ Small and animated images are skipped\n')
+
+    console.log('🎉 All image variant tests passed!')
+  } finally {
+    await rm(root, { recursive: true, force: true })
+  }
+}
+
+runTests().then(() => process.exit(0), (error) => {
+  console.error('❌ Image variant test failed:', error)
+  process.exit(1)
+})
@@ -0,0 +1,117 @@
+#!/usr/bin/env tsx
+
+// Media header parsing test with hand-built files
+// Pure byte parsing: no database, storage or browser needed
+
+import { readMediaInfo, matchesDeclaredType, sniffMimeType } from '../lib/mediaInfo'
+
+function bytes(...parts: (number[] | string)[]): Uint8Array {
+  return new Uint8Array(parts.flatMap((part) =>
+    typeof part === 'string' ? Array.from(part, (char) => char.charCodeAt(0)) : part))
+}
+
+const be16 = (value: number) => [value >> 8, value & 0xff]
+const be32 = (value: number) => [value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]
+const le16 = (value: number) => [value & 0xff, value >> 8]
+const le24 = (value: number) => [value & 0xff, (value >> 8) & 0xff, value >> 16]
+
+function png(width: number, height: number, animated: boolean): Uint8Array {
+  const chunk = (type: string, data: number[]) => bytes(be32(data.length), type, data, [0, 0, 0, 0])
+  const parts = [
+    bytes([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', [...be32(width), ...be32(height), 8, 6, 0, 0, 0]),
+    ...(animated ? [chunk('acTL', [...be32(2), ...be32(0)])] : []),
+    chunk('IDAT', [0])
+  ]
+  return new Uint8Array(parts.flatMap((part) => Array.from(part)))
+}
+
+function jpeg(width: number, height: number, orientation?: number): Uint8Array {
+  const exif = orientation === undefined ? [] : (() => {
+    // Little-endian TIFF header with one IFD entry for the orientation
+    const tiff = [...Array.from(bytes('II')), ...le16(42), 8, 0, 0, 0, ...le16(1), ...le16(0x0112), ...le16(3), 1, 0, 0, 0, ...le16(orientation), 0, 0, 0, 0, 0, 0]
+    const payload = [...Array.from(bytes('Exif')), 0, 0, ...tiff]
+    return [0xff, 0xe1, ...be16(payload.length + 2), ...payload]
+  })()
+  const sof = [0xff, 0xc0, ...be16(17), 8, ...be16(height), ...be16(width), 3, 1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1]
+  return bytes([0xff, 0xd8], exif, sof, [0xff, 0xd9])
+}
+
+function gif(width: number, height: number, frames: number): Uint8Array {
+  const frame = [0x21, 0xf9, 4, 0, 0, 0, 0, 0, 0x2c, ...le16(0), ...le16(0), ...le16(width), ...le16(height), 0, 2, 2, 0x4c, 0x01, 0]
+  return bytes('GIF89a', [...le16(width), ...le16(height), 0, 0, 0], ...Array(frames).fill(frame), [0x3b])
+}
+
+function webp(width: number, height: number, animated: boolean): Uint8Array {
+  return bytes('RIFF', [0, 0, 0, 0], 'WEBP', 'VP8X', [10, 0, 0, 0, animated ? 0x02 : 0, 0, 0, 0], le24(width - 1), le24(height - 1))
+}
+
+const cases: { name: string, data: Uint8Array, expected: Record<string, unknown> }[] = [
+  { name: 'PNG', data: png(640, 480, false), expected: { mimeType: 'image/png', width: 640, height: 480, isAnimated: false } },
+  { name: 'Animated PNG', data: png(32, 16, true), expected: { mimeType: 'image/png', width: 32, height: 16, isAnimated: true } },
+  { name: 'JPEG', data: jpeg(1200, 800), expected: { mimeType: 'image/jpeg', width: 1200, height: 800 } },
+  { name: 'Rotated JPEG', data: jpeg(4032, 3024, 6), expected: { mimeType: 'image/jpeg', width: 3024, height: 4032, orientation: 6 } },
+  { name: 'GIF', data: gif(100, 50, 1), expected: { mimeType: 'image/gif', width: 100, height: 50, isAnimated: false } },
+  { name: 'Animated GIF', data: gif(100, 50, 3), expected: { mimeType: 'image/gif', isAnimated: true } },
+  { name: 'WebP', data: webp(300, 200, false), expected: { mimeType: 'image/webp', width: 300, height: 200, isAnimated: false } },
+  { name: 'Animated WebP', data: webp(300, 200, true), expected: { mimeType: 'image/webp', isAnimated: true } },
+  {
+    name: 'SVG with viewBox',
+    data: bytes('<?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 200 100"></svg>'),
+    expected: { mimeType: 'image/svg+xml', width: 200, height: 100 }
+  },
+  { name: 'MP4', data: bytes([0, 0, 0, 0x18], 'ftypisom', [0, 0, 2, 0]), expected: { mimeType: 'video/mp4' } },
+  { name: 'QuickTime', data: bytes([0, 0, 0, 0x14], 'ftypqt  ', [0, 0, 2, 0]), expected: { mimeType: 'video/quicktime' } },
+  { name: 'WebM', data: bytes([0x1a, 0x45, 0xdf, 0xa3, 0x9f]), expected: { mimeType: 'video/webm' } }
+]
+
+function runTests() {
+  console.log('🚀 Testing media header parsing\n')
+
+  // Test 1: Formats and dimensions
+  console.log('🧪 Reading media headers...')
+  for (const { name, data, expected } of cases) {
+    const info = readMediaInfo(data) as Record<string, unknown> | null
+    for (const [field, value] of Object.entries(expected)) {
+      if (info?.[field] !== value) {
+        throw new Error(`${name}: expected ${field} ${value}, got ${info?.[field]}`)
+      }
+    }
+  }
+  console.log(`✅ Read ${cases.length} formats\n`)
+
+  // Test 2: Declared types must match the content
+  console.log('🧪 Checking declared types...')
+  const checks: [Uint8Array, string, boolean][] = [
+    [png(1, 1, false), 'image/png', true],
+    [jpeg(1, 1), 'image/jpg', true],
+    [cases[10].data, 'video/mp4', true],
+    [png(1, 1, false), 'image/jpeg', false],
+    [bytes('<html><script>alert(1)</script></html>'), 'image/svg+xml', false],
+    [bytes('MZ\x90\x00'), 'video/mp4', false]
+  ]
+  for (const [data, declared, expected] of checks) {
+    if (matchesDeclaredType(sniffMimeType(data), declared) !== expected) {
+      throw new Error(`${declared} check should be ${expected}`)
+    }
+  }
+  console.log('✅ Mislabeled files are detected\n')
+
+  // Test 3: Truncated input doesn't throw
+  console.log('🧪 Reading truncated headers...')
+  for (const { data } of cases) {
+    for (let length = 0; length < data.length; length += 3) {
+      readMediaInfo(data.subarray(0, length))
+    }
+  }
+  console.log('✅ Truncated headers are handled\n')
+
+  console.log('🎉 All media info tests passed!')
+}
+
+try {
+  runTests()
+} catch (error) {
+  console.error('❌ Media info test failed:', error)
+  process.exit(1)
+}
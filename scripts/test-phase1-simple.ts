@@ -88,8 +88,7 @@ async function runTests() {
       const assetReq = {
         canvasId: canvas.id,
         assetId: 'asset:test',
-        r2Key: uploadResp.key,
-        publicUrl: uploadResp.publicUrl,
+        uploadHandle: uploadResp.uploadHandle,
         fileName: 'test.png',
         fileType: 'image/png',
         fileSize: 1000
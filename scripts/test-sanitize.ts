@@ -0,0 +1,170 @@
+#!/usr/bin/env tsx
+
+// Upload sanitization test: SVG cleaning and metadata stripping on hand-built files
+// Pure byte processing: no database, storage or browser needed
+
+import { readMediaInfo } from '../lib/mediaInfo'
+import { SanitizeError, sanitizeFile } from '../lib/sanitize'
+
+const be16 = (value: number) => [value >> 8, value & 0xff]
+const be32 = (value: number) => [value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]
+const le32 = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, value >>> 24]
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0))
+
+function jpegSegment(marker: number, payload: number[]): number[] {
+  return [0xff, marker, ...be16(payload.length + 2), ...payload]
+}
+
+// Big-endian Exif with an orientation entry and a GPS pointer
+function exif(orientation: number): number[] {
+  const tiff = [...ascii('MM'), 0, 42, ...be32(8), ...be16(2),
+    ...be16(0x0112), ...be16(3), ...be32(1), ...be16(orientation), 0, 0,
+    ...be16(0x8825), ...be16(4), ...be32(1), ...be32(38), ...be32(0),
+    ...ascii('GPS 51.5007N 0.1246W')]
+  return jpegSegment(0xe1, [...ascii('Exif'), 0, 0, ...tiff])
+}
+
+function jpeg(orientation: number): Buffer {
+  const sof = jpegSegment(0xc0, [8, ...be16(20), ...be16(40), 3, 1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1])
+  return Buffer.from([0xff, 0xd8,
+    ...jpegSegment(0xe0, [...ascii('JFIF'), 0, 1, 1, 0, 0, 1, 0, 1, 0, 0]),
+    ...exif(orientation),
+    ...jpegSegment(0xfe, ascii('Shot on a phone at home')),
+    ...sof,
+    0xff, 0xda, 0, 8, 1, 1, 0, 0, 0x3f, 0, 0x12, 0x34, 0xff, 0xd9])
+}
+
+function pngChunk(type: string, data: number[]): number[] {
+  return [...be32(data.length), ...ascii(type), ...data, 0, 0, 0, 0]
+}
+
+function png(): Buffer {
+  return Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    ...pngChunk('IHDR', [...be32(10), ...be32(10), 8, 6, 0, 0, 0]),
+    ...pngChunk('tEXt', ascii('Author\0Jane Doe')),
+    ...pngChunk('IDAT', [0]),
+    ...pngChunk('IEND', [])])
+}
+
+function riffChunk(type: string, data: number[]): number[] {
+  return [...ascii(type), ...le32(data.length), ...data, ...(data.length & 1 ? [0] : [])]
+}
+
+function webp(): Buffer {
+  const body = [...ascii('WEBP'),
+    ...riffChunk('VP8X', [0x08 | 0x04 | 0x10, 0, 0, 0, 9, 0, 0, 9, 0, 0]),
+    ...riffChunk('VP8L', [0x2f, 9, 0x40, 2, 0]),
+    ...riffChunk('EXIF', ascii('Exif\0\0GPS')),
+    ...riffChunk('XMP ', ascii('<x:xmpmeta/>'))]
+  return Buffer.from([...ascii('RIFF'), ...le32(body.length), ...body])
+}
+
+function expectRejected(data: Buffer, fileType: string, label: string) {
+  try {
+    sanitizeFile(data, fileType)
+  } catch (error) {
+    if (error instanceof SanitizeError) return
+    throw error
+  }
+  throw new Error(`${label} should have been rejected`)
+}
+
+function runTests() {
+  console.log('🚀 Testing upload sanitization\n')
+
+  // Test 1: Scripts, handlers and external references are removed from SVGs
+  console.log('🧪 Sanitizing a hostile SVG...')
+  const hostile = `<?xml version="1.0"?>
+<!DOCTYPE svg [<!ENTITY x SYSTEM "file:///etc/passwd">]>
+<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="100" height="50" onload="alert(1)">
+  <script>alert(document.cookie)</script>
+  <style>@import url(https://evil.example/a.css); rect { fill: url(#grad); background: url(https://evil.example/track.png) }</style>
+  <defs><linearGradient id="grad"><stop offset="0" stop-color="red"/></linearGradient></defs>
+  <a href="jav&#x61;script:alert(1)"><rect width="10" height="10" fill="url(#grad)" onclick="steal()"/></a>
+  <foreignObject><iframe src="https://evil.example"></iframe></foreignObject>
+  <image href="https://evil.example/pixel.gif" width="1" height="1"/>
+  <use xlink:href="https://evil.example/sprite.svg#icon"/>
+  <use xlink:href="#grad"/>
+  <text x="1" y="2" style="fill: url('javascript:alert(1)')">Tom &amp; Jerry</text>
+</svg>`
+  const svg = sanitizeFile(Buffer.from(hostile), 'image/svg+xml').toString('utf8')
+  for (const forbidden of ['script', 'onload', 'onclick', 'foreignObject', 'iframe', 'evil.example', 'javascript', '@import', 'ENTITY', '<a ']) {
+    if (svg.includes(forbidden)) throw new Error(`Sanitized SVG still contains ${forbidden}:\n${svg}`)
+  }
+  for (const kept of ['<rect width="10" height="10" fill="url(#grad)"/>', '<use xlink:href="#grad"/>', 'fill: url(#grad)', 'Tom &amp; Jerry', 'width="100"']) {
+    if (!svg.includes(kept)) throw new Error(`Sanitized SVG lost ${kept}:\n${svg}`)
+  }
+  const info = readMediaInfo(Buffer.from(svg))
+  if (info?.mimeType !== 'image/svg+xml' || info.width !== 100 || info.height !== 50) {
+    throw new Error('Sanitized SVG is no longer recognized with its size')
+  }
+  if (!sanitizeFile(Buffer.from(svg), 'image/svg+xml').equals(Buffer.from(svg))) {
+    throw new Error('Sanitizing a clean SVG should not change it')
+  }
+  console.log('✅ SVG is cleaned and still renders the same shapes\n')
+
+  // Test 2: Markup that can't be parsed with confidence is rejected
+  console.log('🧪 Rejecting malformed SVGs...')
+  expectRejected(Buffer.from('<svg><g></svg>'), 'image/svg+xml', 'Unclosed element')
+  expectRejected(Buffer.from('<html><svg></svg></html>'), 'image/svg+xml', 'Non-SVG root')
+  expectRejected(Buffer.from('<svg></svg><svg></svg>'), 'image/svg+xml', 'Two roots')
+  expectRejected(Buffer.from('<svg><rect x="1 /></svg>'), 'image/svg+xml', 'Broken attribute')
+  console.log('✅ Malformed SVGs are rejected\n')
+
+  // Test 3: JPEG metadata is dropped but the orientation survives
+  console.log('🧪 Stripping JPEG metadata...')
+  const original = jpeg(6)
+  const stripped = sanitizeFile(original, 'image/jpg')
+  if (stripped.includes(Buffer.from('GPS')) || stripped.includes(Buffer.from('phone'))) {
+    throw new Error('JPEG still contains GPS data or comments')
+  }
+  const jpegInfo = readMediaInfo(stripped)
+  if (jpegInfo?.orientation !== 6 || jpegInfo.width !== 20 || jpegInfo.height !== 40) {
+    throw new Error(`JPEG orientation or size changed: ${JSON.stringify(jpegInfo)}`)
+  }
+  if (!stripped.subarray(stripped.length - 6).equals(original.subarray(original.length - 6))) {
+    throw new Error('JPEG image data was changed')
+  }
+  if (sanitizeFile(jpeg(1), 'image/jpeg').includes(Buffer.from('Exif'))) {
+    throw new Error('Upright JPEG should not keep an Exif segment')
+  }
+  expectRejected(original.subarray(0, 30), 'image/jpeg', 'Truncated JPEG')
+  console.log('✅ JPEG metadata is stripped\n')
+
+  // Test 4: PNG text chunks are dropped
+  console.log('🧪 Stripping PNG metadata...')
+  const cleanPng = sanitizeFile(png(), 'image/png')
+  if (cleanPng.includes(Buffer.from('Jane Doe')) || readMediaInfo(cleanPng)?.width !== 10) {
+    throw new Error('PNG text was kept or the image was damaged')
+  }
+  expectRejected(png().subarray(0, 40), 'image/png', 'PNG without IEND')
+  console.log('✅ PNG metadata is stripped\n')
+
+  // Test 5: WebP EXIF and XMP chunks are dropped and the header is fixed up
+  console.log('🧪 Stripping WebP metadata...')
+  const cleanWebp = sanitizeFile(webp(), 'image/webp')
+  if (cleanWebp.includes(Buffer.from('GPS')) || cleanWebp.includes(Buffer.from('xmpmeta'))) {
+    throw new Error('WebP still contains metadata')
+  }
+  if (cleanWebp.readUInt32LE(4) !== cleanWebp.length - 8 || (cleanWebp[20] & 0x0c) !== 0 || (cleanWebp[20] & 0x10) === 0) {
+    throw new Error('WebP header was not updated correctly')
+  }
+  console.log('✅ WebP metadata is stripped\n')
+
+  // Test 6: Other types pass through untouched
+  console.log('🧪 Leaving videos alone...')
+  const video = Buffer.from('....ftypisom')
+  if (sanitizeFile(video, 'video/mp4') !== video) {
+    throw new Error('Video should not be processed')
+  }
+  console.log('✅ Other types are unchanged\n')
+
+  console.log('🎉 All sanitization tests passed!')
+}
+
+try {
+  runTests()
+} catch (error) {
+  console.error('❌ Sanitization test failed:', error)
+  process.exit(1)
+}
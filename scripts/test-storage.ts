@@ -0,0 +1,196 @@
+#!/usr/bin/env tsx
+
+// Local storage driver test: driver operations plus the /api/storage route
+// Runs against a temporary directory: no database, R2 or running server needed
+
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+
+async function runTests() {
+  const root = await mkdtemp(path.join(tmpdir(), 'storage-test-'))
+  process.env.STORAGE_DRIVER = 'local'
+  process.env.LOCAL_STORAGE_DIR = root
+  process.env.STORAGE_SIGNING_SECRET = 'test-secret'
+  process.env.NEXT_PUBLIC_URL = 'http://localhost:3000'
+
+  // Imported after the environment is set so the driver picks it up
+  const { getStorage, StorageError } = await import('../lib/storage')
+  const { NextRequest } = await import('next/server')
+  const route = await import('../app/api/storage/[...key]/route')
+
+  const storage = getStorage()
+  const routeParams = (key: string) => ({ params: Promise.resolve({ key: key.split('/') }) })
+
+  try {
+    console.log(`🚀 Testing ${storage.name} storage in ${root}\n`)
+    if (storage.name !== 'local') {
+      throw new Error(`Expected the local driver, got ${storage.name}`)
+    }
+
+    // Test 1: Round trip with metadata
+    console.log('🧪 Writing and reading an object...')
+    await storage.put('canvases/a/assets/one.txt', Buffer.from('hello'), {
+      contentType: 'text/plain',
+      metadata: { canvasId: 'a' }
+    })
+    const object = await storage.get('canvases/a/assets/one.txt')
+    if (object.body.toString() !== 'hello' || object.info.contentType !== 'text/plain' || object.info.metadata?.canvasId !== 'a') {
+      throw new Error('Object did not round trip')
+    }
+    const header = await storage.readHeader('canvases/a/assets/one.txt', 3)
+    if (header.toString() !== 'hel') {
+      throw new Error('Object header was not read')
+    }
+    console.log('✅ Object round trip works\n')
+
+    // Test 2: Listing with prefixes and pagination
+    console.log('🧪 Listing objects...')
+    await storage.put('canvases/a/assets/two.txt', Buffer.from('two'))
+    await storage.put('canvases/a/assets/three.txt', Buffer.from('three'))
+    await storage.put('canvases/b/thumbnail', Buffer.from('thumb'))
+    const firstPage = await storage.list('canvases/a/', { maxKeys: 2 })
+    const secondPage = await storage.list('canvases/a/', { maxKeys: 2, cursor: firstPage.cursor })
+    const listed = [...firstPage.objects, ...secondPage.objects].map((info) => info.key)
+    if (listed.length !== 3 || !firstPage.cursor || secondPage.cursor || listed.some((key) => !key.startsWith('canvases/a/'))) {
+      throw new Error(`Unexpected listing: ${listed.join(', ')}`)
+    }
+    console.log(`✅ Listed ${listed.length} objects over 2 pages\n`)
+
+    // Test 3: Head and delete
+    console.log('🧪 Deleting an object...')
+    await storage.delete('canvases/a/assets/two.txt')
+    if (await storage.head('canvases/a/assets/two.txt')) {
+      throw new Error('Deleted object still exists')
+    }
+    const missing = await storage.get('canvases/a/assets/two.txt').then(() => null, (error) => error)
+    if (!(missing instanceof StorageError) || missing.code !== 'NOT_FOUND') {
+      throw new Error('Reading a deleted object did not fail with NOT_FOUND')
+    }
+    console.log('✅ Deleted objects are gone\n')
+
+    // Test 4: Keys cannot escape the storage directory
+    console.log('🧪 Checking key validation...')
+    for (const key of ['../outside', 'a/../../outside', '/absolute', 'a//b', 'one.txt.meta.json']) {
+      const error = await storage.put(key, Buffer.from('x')).then(() => null, (error) => error)
+      if (!(error instanceof StorageError) || error.code !== 'INVALID_KEY') {
+        throw new Error(`Key ${key} was accepted`)
+      }
+    }
+    console.log('✅ Unsafe keys are rejected\n')
+
+    // Test 5: Presigned upload through the route
+    console.log('🧪 Uploading to a presigned URL...')
+    const uploadUrl = await storage.presignPut('canvases/a/assets/upload.png', {
+      contentType: 'image/png',
+      metadata: { userId: 'alice' }
+    })
+    const uploadResponse = await route.PUT(new NextRequest(uploadUrl, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'image/png' },
+      body: Buffer.from('png bytes')
+    }), routeParams('canvases/a/assets/upload.png'))
+    const uploaded = await storage.head('canvases/a/assets/upload.png')
+    if (uploadResponse.status !== 200 || uploaded?.contentType !== 'image/png' || uploaded.metadata?.userId !== 'alice') {
+      throw new Error(`Presigned upload failed with ${uploadResponse.status}`)
+    }
+    console.log('✅ Presigned upload stored the object\n')
+
+    // Test 6: Tampered and unsigned uploads are refused
+    console.log('🧪 Checking upload signatures...')
+    const tampered = await route.PUT(new NextRequest(uploadUrl.replace('upload.png', 'other.png'), {
+      method: 'PUT',
+      headers: { 'Content-Type': 'image/png' },
+      body: Buffer.from('x')
+    }), routeParams('canvases/a/assets/other.png'))
+    const unsigned = await route.PUT(new NextRequest(storage.getPublicUrl('canvases/a/assets/other.png'), {
+      method: 'PUT',
+      body: Buffer.from('x')
+    }), routeParams('canvases/a/assets/other.png'))
+    const expiredUrl = await storage.presignPut('canvases/a/assets/other.png', { contentType: 'image/png', expiresIn: -1 })
+    const expired = await route.PUT(new NextRequest(expiredUrl, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'image/png' },
+      body: Buffer.from('x')
+    }), routeParams('canvases/a/assets/other.png'))
+    if (tampered.status !== 403 || unsigned.status !== 403 || expired.status !== 403) {
+      throw new Error(`Unexpected statuses ${tampered.status}, ${unsigned.status}, ${expired.status}`)
+    }
+    console.log('✅ Tampered, unsigned and expired uploads get 403\n')
+
+    // Test 7: Serving presigned URLs only
+    console.log('🧪 Serving objects...')
+    const downloadUrl = await storage.presignGet('canvases/a/assets/upload.png')
+    const served = await route.GET(new NextRequest(downloadUrl), routeParams('canvases/a/assets/upload.png'))
+    const unsignedGet = await route.GET(
+      new NextRequest(storage.getPublicUrl('canvases/a/assets/upload.png')),
+      routeParams('canvases/a/assets/upload.png')
+    )
+    const expiredGet = await route.GET(
+      new NextRequest(await storage.presignGet('canvases/a/assets/upload.png', -1)),
+      routeParams('canvases/a/assets/upload.png')
+    )
+    const notFound = await route.GET(
+      new NextRequest(await storage.presignGet('canvases/a/assets/missing.png')),
+      routeParams('canvases/a/assets/missing.png')
+    )
+    if (served.status !== 200 || served.headers.get('content-type') !== 'image/png' || (await served.text()) !== 'png bytes') {
+      throw new Error('Presigned URL was not served')
+    }
+    if (unsignedGet.status !== 403 || expiredGet.status !== 403 || notFound.status !== 404) {
+      throw new Error(`Unexpected statuses ${unsignedGet.status}, ${expiredGet.status}, ${notFound.status}`)
+    }
+    console.log('✅ Presigned objects are served with their content type; unsigned and expired URLs get 403\n')
+
+    // Test 8: Multipart upload through presigned part URLs
+    console.log('🧪 Uploading in parts...')
+    const multipartKey = 'canvases/a/assets/large.mp4'
+    const uploadId = await storage.createMultipartUpload(multipartKey, { contentType: 'video/mp4' })
+    const uploadPart = async (partNumber: number, body: string) => {
+      const partUrl = await storage.presignUploadPart(multipartKey, uploadId, partNumber)
+      const response = await route.PUT(new NextRequest(partUrl, { method: 'PUT', body: Buffer.from(body) }), routeParams(multipartKey))
+      return { partNumber, etag: response.headers.get('etag') ?? '' }
+    }
+    // Parts arrive out of order, as they do with concurrent uploads
+    const second = await uploadPart(2, 'world')
+    const first = await uploadPart(1, 'hello ')
+    const listedParts = await storage.listParts(multipartKey, uploadId)
+    if (listedParts?.length !== 2 || !first.etag || !second.etag) {
+      throw new Error('Uploaded parts were not listed')
+    }
+    const badPart = await storage.completeMultipartUpload(multipartKey, uploadId, [first, { ...second, etag: '"wrong"' }])
+      .then(() => null, (error) => error)
+    if (!(badPart instanceof StorageError) || badPart.code !== 'INVALID_PART') {
+      throw new Error('Completing with a wrong ETag did not fail with INVALID_PART')
+    }
+    await storage.completeMultipartUpload(multipartKey, uploadId, [first, second])
+    const joined = await storage.get(multipartKey)
+    if (joined.body.toString() !== 'hello world' || joined.info.contentType !== 'video/mp4') {
+      throw new Error('Parts were not joined in order')
+    }
+    if (await storage.listParts(multipartKey, uploadId) !== null) {
+      throw new Error('Completed upload still has parts')
+    }
+    console.log('✅ Parts are joined into one object\n')
+
+    // Test 9: Aborted uploads leave nothing behind
+    console.log('🧪 Aborting a multipart upload...')
+    const abortedId = await storage.createMultipartUpload('canvases/a/assets/aborted.mp4', { contentType: 'video/mp4' })
+    await storage.abortMultipartUpload('canvases/a/assets/aborted.mp4', abortedId)
+    const staged = await storage.list('', { maxKeys: 100 })
+    if (await storage.listParts('canvases/a/assets/aborted.mp4', abortedId) !== null ||
+        staged.objects.some((info) => info.key.includes('.multipart') || info.key.endsWith('aborted.mp4'))) {
+      throw new Error('Aborted upload left files behind')
+    }
+    console.log('✅ Aborted uploads are discarded\n')
+
+    console.log('🎉 All storage tests passed!')
+  } finally {
+    await rm(root, { recursive: true, force: true })
+  }
+}
+
+runTests().catch((error) => {
+  console.error('❌ Storage test failed:', error)
+  process.exit(1)
+})
@@ -0,0 +1,306 @@
+#!/usr/bin/env tsx
+
+// Sync server test with several headless clients
+// Runs entirely in memory: no database, browser or external service needed
+
+import { AddressInfo } from 'net'
+import { WebSocket } from 'ws'
+import * as syncCore from '@tldraw/sync-core'
+import {
+  atom,
+  createTLStore,
+  InstancePresenceRecordType,
+  PageRecordType,
+  TLInstancePresence,
+  TLPageId,
+  TLStore,
+  TLStoreSnapshot
+} from 'tldraw'
+import { SyncRoomManager, SyncRoomBackend, createSyncServer } from '../lib/sync'
+import type { PermissionLevel } from '../types/tldraw'
+
+// TLSyncClient is exported at runtime but left out of the public typings
+const { TLSyncClient } = syncCore as any
+
+// The tldraw store schedules listeners on animation frames, which Node lacks
+if (typeof globalThis.requestAnimationFrame === 'undefined') {
+  globalThis.requestAnimationFrame = ((cb: (time: number) => void) =>
+    setTimeout(() => cb(Date.now()), 16)) as unknown as typeof requestAnimationFrame
+  globalThis.cancelAnimationFrame = ((id: NodeJS.Timeout) =>
+    clearTimeout(id)) as unknown as typeof cancelAnimationFrame
+}
+
+const CANVAS_ID = 'test-canvas'
+
+// In-memory backend with fixed tokens; permissions can be changed while clients are connected
+const persisted: TLStoreSnapshot[] = []
+let storedVersion = 1
+const tokens: Record<string, string> = {
+  'token-alice': 'alice',
+  'token-bob': 'bob',
+  'token-viewer': 'viewer'
+}
+const permissions: Record<string, PermissionLevel | undefined> = {
+  alice: 'EDIT',
+  bob: 'ADMIN',
+  viewer: 'VIEW'
+}
+
+const memoryBackend: SyncRoomBackend = {
+  async authorize(token) {
+    const userId = tokens[token]
+    const permission = userId && permissions[userId]
+    return permission ? { userId, permission } : null
+  },
+  async getPermission(userId) {
+    return permissions[userId] ?? null
+  },
+  async load() {
+    return { snapshot: persisted[persisted.length - 1] ?? null, version: storedVersion }
+  },
+  async getVersion() {
+    return storedVersion
+  },
+  async persist(_canvasId, _userId, snapshot, baseVersion) {
+    if (baseVersion !== storedVersion) return null
+    persisted.push(snapshot)
+    return ++storedVersion
+  }
+}
+
+// Minimal TLPersistentClientSocket on top of the `ws` package
+class HeadlessSocket {
+  connectionStatus: 'online' | 'offline' | 'error' = 'offline'
+  private ws: WebSocket | null = null
+  private messageListeners = new Set<(msg: any) => void>()
+  private statusListeners = new Set<(event: any) => void>()
+
+  constructor(private url: string) {
+    this.connect()
+  }
+
+  private connect() {
+    const ws = new WebSocket(this.url)
+    ws.on('open', () => this.setStatus({ status: 'online' }))
+    ws.on('message', (data) => {
+      const parsed = JSON.parse(data.toString())
+      this.messageListeners.forEach((cb) => cb(parsed))
+    })
+    ws.on('close', (code, reason) => {
+      if (this.ws !== ws) return
+      if (code === syncCore.TLSyncErrorCloseEventCode) {
+        this.setStatus({ status: 'error', reason: reason.toString() })
+        return
+      }
+      this.setStatus({ status: 'offline' })
+      // Reconnect like the browser socket adapter does
+      setTimeout(() => {
+        if (this.ws === ws) this.connect()
+      }, 100)
+    })
+    this.ws = ws
+  }
+
+  private setStatus(event: { status: 'online' | 'offline' | 'error', reason?: string }) {
+    this.connectionStatus = event.status
+    this.statusListeners.forEach((cb) => cb(event))
+  }
+
+  sendMessage(msg: unknown) {
+    if (this.connectionStatus === 'online') {
+      this.ws?.send(JSON.stringify(msg))
+    }
+  }
+
+  onReceiveMessage(cb: (msg: any) => void) {
+    this.messageListeners.add(cb)
+    return () => this.messageListeners.delete(cb)
+  }
+
+  onStatusChange(cb: (event: any) => void) {
+    this.statusListeners.add(cb)
+    return () => this.statusListeners.delete(cb)
+  }
+
+  restart() {
+    this.ws?.close()
+    this.connect()
+  }
+
+  close() {
+    const ws = this.ws
+    this.ws = null
+    ws?.close()
+  }
+}
+
+interface HeadlessClient {
+  name: string
+  store: TLStore
+  presence: ReturnType<typeof atom<TLInstancePresence | null>>
+  socket: HeadlessSocket
+  client: any
+}
+
+function connectClient(baseUrl: string, name: string, token: string): Promise<HeadlessClient> {
+  return new Promise((resolve, reject) => {
+    const store = createTLStore()
+    const socket = new HeadlessSocket(
+      `${baseUrl}/sync/${CANVAS_ID}?token=${token}&sessionId=${name}-${Date.now()}`
+    )
+    const presence = atom<TLInstancePresence | null>('presence', null)
+    const headless: HeadlessClient = { name, store, presence, socket, client: null }
+    headless.client = new TLSyncClient({
+      store,
+      socket,
+      presence,
+      onLoad: () => resolve(headless),
+      onSyncError: (reason: string) => {
+        headless.client.close()
+        socket.close()
+        reject(new Error(`${name}: ${reason}`))
+      }
+    })
+  })
+}
+
+function waitFor(condition: () => boolean, label: string, timeout = 5000): Promise<void> {
+  const start = Date.now()
+  return new Promise((resolve, reject) => {
+    const check = () => {
+      if (condition()) return resolve()
+      if (Date.now() - start > timeout) return reject(new Error(`Timed out waiting for ${label}`))
+      setTimeout(check, 20)
+    }
+    check()
+  })
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+async function runTests() {
+  console.log('🚀 Testing sync server with headless clients\n')
+
+  const manager = new SyncRoomManager(memoryBackend, 100, 200)
+  const server = createSyncServer(manager)
+  await new Promise<void>((resolve) => server.listen(0, resolve))
+  const baseUrl = `ws://localhost:${(server.address() as AddressInfo).port}`
+  const clients: HeadlessClient[] = []
+
+  try {
+    // Test 1: Several clients join the same room
+    console.log('🧪 Connecting three clients...')
+    const alice = await connectClient(baseUrl, 'alice', 'token-alice')
+    const bob = await connectClient(baseUrl, 'bob', 'token-bob')
+    const viewer = await connectClient(baseUrl, 'viewer', 'token-viewer')
+    clients.push(alice, bob, viewer)
+    console.log(`✅ Connected ${clients.length} clients to one room (${manager.getRoomCount()} room open)\n`)
+
+    // Test 2: Changes from one editor reach everyone
+    console.log('🧪 Broadcasting changes...')
+    const pageId = PageRecordType.createId('shared')
+    alice.store.put([PageRecordType.create({ id: pageId, name: 'Shared page', index: 'a1' as any })])
+    await waitFor(() => bob.store.has(pageId) && viewer.store.has(pageId), 'page to reach all clients')
+    console.log('✅ Page created by alice reached bob and viewer')
+
+    bob.store.update(pageId, (page) => ({ ...page, name: 'Renamed by bob' }))
+    await waitFor(() => alice.store.get(pageId)?.name === 'Renamed by bob', 'rename to reach alice')
+    console.log('✅ Rename by bob reached alice\n')
+
+    // Test 3: Presence is shared between collaborators
+    console.log('🧪 Sharing presence...')
+    viewer.presence.set(InstancePresenceRecordType.create({
+      id: InstancePresenceRecordType.createId(viewer.store.id),
+      userId: 'viewer',
+      userName: 'Viewer',
+      color: '#1971c2',
+      currentPageId: pageId,
+      selectedShapeIds: [],
+      cursor: { x: 120, y: 80, type: 'default', rotation: 0 }
+    }))
+    // The server assigns its own record id to each session's presence
+    const viewerCursor = () => alice.store.query.records('instance_presence').get()
+      .find((record) => record.userId === 'viewer')?.cursor
+    await waitFor(() => viewerCursor()?.x === 120, 'cursor to reach alice')
+    console.log('✅ Cursor from viewer reached alice\n')
+
+    // Test 4: VIEW sessions are read-only
+    console.log('🧪 Checking read-only access...')
+    const viewerPageId = PageRecordType.createId('viewer') as TLPageId
+    viewer.store.put([PageRecordType.create({ id: viewerPageId, name: 'Viewer page', index: 'a2' as any })])
+    await sleep(300)
+    if (alice.store.has(viewerPageId)) {
+      throw new Error('Change from a VIEW session was broadcast')
+    }
+    console.log('✅ Change from viewer was not broadcast\n')
+
+    // Test 5: Unknown tokens are rejected
+    console.log('🧪 Checking authentication...')
+    const rejected = await connectClient(baseUrl, 'intruder', 'token-invalid')
+      .then(() => false, () => true)
+    if (!rejected) {
+      throw new Error('Connection with an invalid token was accepted')
+    }
+    console.log('✅ Connection with an invalid token was rejected\n')
+
+    // Test 6: Saves made outside the room (REST writes, restores) reload it
+    console.log('🧪 Checking saves made outside the room...')
+    await waitFor(() => persisted.length > 0, 'room to persist')
+    const outsidePageId = PageRecordType.createId('outside')
+    const stored = persisted[persisted.length - 1]
+    persisted.push({
+      ...stored,
+      store: {
+        ...stored.store,
+        [outsidePageId]: PageRecordType.create({ id: outsidePageId, name: 'Saved outside', index: 'a3' as any })
+      }
+    })
+    storedVersion++
+    await waitFor(() => alice.store.has(outsidePageId) && bob.store.has(outsidePageId), 'room to reload')
+    if (alice.store.get(pageId)?.name !== 'Renamed by bob') {
+      throw new Error('Reloaded room lost the stored document')
+    }
+    console.log('✅ Page saved outside the room reached alice and bob\n')
+
+    // Test 7: Revoked collaborators are disconnected
+    console.log('🧪 Checking revoked access...')
+    permissions.viewer = undefined
+    await waitFor(() => viewer.socket.connectionStatus === 'error', 'viewer to be disconnected')
+    console.log('✅ Viewer was disconnected once their access was revoked\n')
+
+    // Test 8: The merged document is persisted when everyone leaves
+    console.log('🧪 Checking persistence...')
+    clients.forEach(({ client, socket }) => {
+      client.close()
+      socket.close()
+    })
+    clients.length = 0
+    await waitFor(() => manager.getRoomCount() === 0, 'room to close', 15000)
+    const latest = persisted[persisted.length - 1]
+    const savedPage = latest?.store[pageId] as { name?: string } | undefined
+    if (savedPage?.name !== 'Renamed by bob') {
+      throw new Error('Merged document was not persisted')
+    }
+    if (Object.values(latest.store).some((record) => record.typeName === 'instance_presence')) {
+      throw new Error('Presence records were persisted')
+    }
+    console.log(`✅ Persisted ${Object.keys(latest.store).length} records after ${persisted.length} save(s)\n`)
+
+    console.log('🎉 All sync tests passed!')
+  } finally {
+    clients.forEach(({ client, socket }) => {
+      client.close()
+      socket.close()
+    })
+    await manager.closeAll()
+    await new Promise((resolve) => server.close(resolve))
+  }
+}
+
+// tldraw keeps module-level timers alive, so exit explicitly once done
+runTests().then(() => process.exit(0)).catch((error) => {
+  console.error('❌ Sync test failed:', error)
+  process.exit(1)
+})
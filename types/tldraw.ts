@@ -1,4 +1,4 @@
-import type { TLRecord, TLStore } from 'tldraw'
+import type { TLRecord, TLStore, RecordsDiff, SerializedSchema } from 'tldraw'
 
 // Core tldraw snapshot types
 export interface TldrawSnapshot {
@@ -20,20 +20,59 @@ export interface CanvasMetadata {
 }
 
 // Asset management types
+// Upload handles are opaque; they are passed back to register the upload as an asset
 export interface AssetUploadResponse {
   uploadUrl: string
-  publicUrl: string
-  key: string
+  uploadHandle: string
+}
+
+// Returned instead of upload details when identical content is already stored
+export interface DeduplicatedUpload {
+  deduplicated: true
+  uploadHandle: string
 }
 
+// Storage keys stay on the server; clients reach files through the asset file route
 export interface CanvasAssetData {
   id: string
   assetId: string
-  r2Key: string
-  publicUrl: string
+  url: string // Asset file route
   fileName: string
   fileType: string
   fileSize: number
+  width?: number
+  height?: number
+  duration?: number // Seconds, videos only
+  variants?: Omit<CanvasAssetVariant, 'r2Key'>[] // Downscaled copies, smallest first
+}
+
+// Resized WebP copy of an image asset, stored next to the original
+export interface CanvasAssetVariant {
+  width: number
+  height: number
+  r2Key: string
+  fileSize: number
+}
+
+// Storage usage types (bytes of asset files on a user's own canvases)
+export interface StorageUsage {
+  usedBytes: number
+  quotaBytes: number
+  canvases: CanvasStorageUsage[] // Largest first, only canvases with assets
+}
+
+export interface CanvasStorageUsage {
+  canvasId: string
+  name: string
+  usedBytes: number
+  assetCount: number
+  largestAssets: {
+    id: string
+    fileName: string
+    fileType: string
+    fileSize: number
+    url: string
+  }[]
 }
 
 // API Request/Response types
@@ -43,6 +82,16 @@ export interface SaveCanvasRequest {
   session?: Record<string, TLRecord>
   name?: string
   description?: string
+  baseVersion?: number // Version the client loaded, unless sent as If-Match; stale saves are rejected
+}
+
+// Record-level changes in tldraw's RecordsDiff shape (added/updated/removed maps)
+export type CanvasRecordsDiff = RecordsDiff<TLRecord>
+
+export interface PatchCanvasRequest {
+  baseVersion: number
+  changes: CanvasRecordsDiff
+  schema: SerializedSchema // Schema the changed records were written in
 }
 
 export interface LoadCanvasResponse {
@@ -50,16 +99,21 @@ export interface LoadCanvasResponse {
   session?: Record<string, TLRecord>
   metadata: CanvasMetadata
   assets: CanvasAssetData[]
+  permission: PermissionLevel // The caller's access; VIEW opens the editor read-only
 }
 
 export interface CreateAssetRequest {
   canvasId: string
   assetId: string
-  r2Key: string
-  publicUrl: string
+  uploadHandle: string // From the upload or deduplication response
   fileName: string
   fileType: string
   fileSize: number
+  // Measured by the client; image sizes are re-read from the stored file
+  width?: number
+  height?: number
+  duration?: number
+  sha256?: string // Hex SHA-256 of the file, checked against the stored content
 }
 
 // Upload request types
@@ -67,6 +121,26 @@ export interface UploadRequest {
   fileName: string
   fileType: string
   fileSize: number
+  sha256?: string // Hex SHA-256 of the file, skips the upload if it is already on one of the user's canvases
+}
+
+// Multipart upload types (large files, uploaded in parts and resumable)
+export interface MultipartUploadResponse {
+  uploadId: string
+  uploadHandle: string // Identifies the upload in later part, complete and abort requests
+  partSize: number // Every part but the last has exactly this size
+  partCount: number
+}
+
+export interface MultipartUploadPart {
+  partNumber: number
+  etag: string
+  size?: number
+}
+
+export interface PresignedUploadPart {
+  partNumber: number
+  url: string
 }
 
 // Permission types (matching Prisma enum)
@@ -76,11 +150,74 @@ export interface CanvasShareData {
   id: string
   canvasId: string
   userId?: string
+  email?: string
+  name?: string
+  pending?: boolean // Invitation waiting for the email to register
   permissionLevel: PermissionLevel
   sharedBy: string
   createdAt: Date
 }
 
+// Link share types (anyone with the link gets the permission, until it expires or is used up)
+export interface CanvasLinkShareData {
+  id: string
+  canvasId: string
+  token: string
+  url: string // /s/<token>
+  permissionLevel: PermissionLevel
+  sharedBy: string
+  createdAt: Date
+  expiresAt?: Date
+  hasPasscode: boolean
+  maxUses?: number
+  useCount: number
+}
+
+export interface CreateLinkShareRequest {
+  permissionLevel: PermissionLevel // VIEW or EDIT
+  expiresAt?: string // ISO date
+  passcode?: string
+  maxUses?: number
+}
+
+export interface CanvasSharesResponse {
+  owner: UserSearchResult
+  isOwner: boolean // The caller owns the canvas and may manage ADMIN access
+  isPublic: boolean
+  shares: CanvasShareData[]
+  links: CanvasLinkShareData[]
+}
+
+// People picker results when sharing
+export interface UserSearchResult {
+  id: string
+  name?: string
+  email: string
+}
+
+// What a link's landing page shows before it is redeemed
+export interface LinkShareInfo {
+  canvasId: string
+  canvasName: string
+  permissionLevel: PermissionLevel
+  requiresPasscode: boolean
+  expiresAt?: Date
+}
+
+// What an invitation link shows to visitors who still have to sign in
+export interface CanvasInvitationInfo {
+  canvasId: string
+  canvasName: string
+  email: string // Address the invitation was sent to
+  permissionLevel: PermissionLevel
+}
+
+export interface LinkShareRedemption {
+  canvasId: string
+  permissionLevel: PermissionLevel
+  guest: boolean // Opened without signing in (VIEW links only)
+}
+
 // Canvas list types
 export interface CanvasListItem {
   id: string
@@ -99,11 +236,115 @@ export interface CanvasListResponse {
   totalCount: number
 }
 
+export interface CanvasThumbnailResponse {
+  thumbnailUrl: string | null
+  thumbnailVersion: number | null
+  updated: boolean // False when the stored thumbnail was already up to date
+}
+
+// Canvas version history types
+export interface CanvasVersionData {
+  id: string
+  canvasId: string
+  version: number
+  createdAt: Date
+  author?: {
+    id: string
+    name: string | null
+    email: string
+  }
+}
+
+export interface CanvasVersionDetail extends CanvasVersionData {
+  document: Record<string, TLRecord>
+}
+
+export interface CanvasVersionListResponse {
+  versions: CanvasVersionData[]
+  totalCount: number
+}
+
+// Canvas backup archive types
+export interface CanvasBackupShare {
+  userEmail: string
+  permissionLevel: PermissionLevel
+  createdAt: Date
+}
+
+export interface CanvasBackupAsset extends Omit<CanvasAssetData, 'id' | 'url'> {
+  path: string // Location of the binary inside the archive
+  publicUrl?: string // Older backups only: storage URL their documents may link to
+}
+
+export interface CanvasBackupManifest {
+  formatVersion: number
+  createdAt: Date
+  canvasId: string
+  assetCount: number
+  shareCount: number
+}
+
+export interface CanvasRestoreResult {
+  canvas: CanvasMetadata
+  restoredAssets: number
+  restoredShares: number
+  skippedShares: string[] // Emails without a matching user
+}
+
+// Storage garbage collection types
+export type StorageGarbageReason =
+  | 'unregistered' // Uploaded to a canvas but never recorded as an asset
+  | 'deleted-canvas' // Left behind by a canvas that no longer exists
+  | 'unreferenced-asset' // File of an asset no document or version uses any more
+  | 'test-upload' // Abandoned upload from the storage test page
+
+export interface StorageGarbageObject {
+  key: string
+  size: number
+  lastModified?: Date
+  reason: StorageGarbageReason
+}
+
+export interface StorageGarbageAsset {
+  id: string
+  canvasId: string
+  assetId: string
+  r2Key: string
+  createdAt: Date
+}
+
+export interface StorageGcReport {
+  dryRun: boolean
+  gracePeriodHours: number // Nothing newer than this is collected
+  scannedObjects: number
+  recentObjects: number // Unreferenced, but still inside the grace period
+  assets: StorageGarbageAsset[] // Asset records no longer used by their canvas
+  objects: StorageGarbageObject[]
+  totalBytes: number
+  deletedAssets: number
+  deletedObjects: number
+  errors: string[]
+}
+
+// Real-time collaboration types
+export interface CollaboratorInfo {
+  id: string
+  name: string
+  color: string
+}
+
+export interface SyncConnectionResponse {
+  uri: string
+  permission: PermissionLevel
+  user: CollaboratorInfo
+}
+
 // Error types
 export interface APIError {
   error: string
   details?: string
   code?: string
+  currentVersion?: number // Set on CONFLICT responses
 }
 
 // Success response wrapper